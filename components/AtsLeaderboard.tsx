@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Medal } from 'lucide-react';
+import { AtsStanding, Pool } from '../constants/mockData';
+import { loadAtsLeaderboard } from '../utils/atsPool';
+
+interface AtsLeaderboardProps {
+  pool: Pool;
+  week: number;
+  year: number;
+  seasonType: number;
+  supabase: any;
+  // Bumped by the pick sheet after a save so the table refreshes
+  refreshKey?: number;
+}
+
+export function AtsLeaderboard({ pool, week, year, seasonType, supabase, refreshKey }: AtsLeaderboardProps) {
+  const [standings, setStandings] = useState<AtsStanding[]>([]);
+  const [view, setView] = useState<'season' | 'week'>('season');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    loadAtsLeaderboard(supabase, pool.id, year, seasonType)
+      .then(setStandings)
+      .finally(() => setLoading(false));
+  }, [pool.id, year, seasonType, refreshKey]);
+
+  const rows = view === 'season'
+    ? standings
+    : [...standings].sort((a, b) => (b.weeklyPoints[week] ?? 0) - (a.weeklyPoints[week] ?? 0));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Medal className="w-5 h-5 mr-2" />
+            {pool.name} ATS Leaderboard • {view === 'season' ? year : `Week ${week}`}
+          </CardTitle>
+          <div className="flex rounded-lg border overflow-hidden text-sm">
+            {(['season', 'week'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 ${view === option ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+              >
+                {option === 'season' ? 'Season' : 'This Week'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-base text-slate-500 text-center py-6">Loading leaderboard...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-slate-50">
+                <TableHead className="text-base font-medium w-16 text-center">Rank</TableHead>
+                <TableHead className="text-base font-medium">Player</TableHead>
+                <TableHead className="text-base font-medium text-center w-32">Record</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Season Pts</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Week {week}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((standing, index) => (
+                <TableRow key={standing.userId}>
+                  <TableCell className="text-center font-medium">{index + 1}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-base text-slate-900">{standing.name}</span>
+                      {standing.isCommissioner && (
+                        <Badge variant="outline" className="text-xs">Commissioner</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-center text-slate-600">
+                    {standing.wins}-{standing.losses}-{standing.pushes}
+                  </TableCell>
+                  <TableCell className="text-center text-lg font-bold text-slate-900">
+                    {standing.points}
+                  </TableCell>
+                  <TableCell className="text-center text-slate-600">
+                    {standing.weeklyPoints[week] ?? '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Scale, Save, Lock, CheckCircle, XCircle, MinusCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { AtsLines, AtsPick, GameForecast, GameOdds, GamePrediction, InjuryReport, Pool } from '../constants/mockData';
+import { predictGames, MetricWeights } from '../utils/predictionEngine';
+import { getCalibratedThresholds } from '../utils/calibration';
+import { isScheduleAvailable, loadSeasonSchedule, withTeamRatings } from '../utils/schedule';
+import { getContextWeeks, withScheduleContext } from '../utils/scheduleContext';
+import { loadWeekOdds, withMarketOdds } from '../utils/odds';
+import { loadInjuryReport, withInjuryReport } from '../utils/injuries';
+import { loadWeekForecasts, withForecasts } from '../utils/weather';
+import { formatCountdown, getKickoffTime, isLocked } from '../utils/pickLocks';
+import {
+  formatLine,
+  getAtsRecord,
+  getAtsRules,
+  getTeamCoverProbability,
+  getTeamLine,
+  loadAtsLines,
+  loadAtsPicks,
+  lockAtsLines,
+  saveAtsPicks,
+  saveAtsRules
+} from '../utils/atsPool';
+
+interface AtsPoolProps {
+  week: number;
+  year: number;
+  seasonType: number;
+  user: any;
+  supabase: any;
+  metricWeights?: MetricWeights | null;
+  pool: Pool | null;
+  onPoolUpdate?: (pool: Pool) => void;
+  onSaved?: () => void;
+}
+
+export function AtsPool({ week, year, seasonType, user, supabase, metricWeights, pool, onPoolUpdate, onSaved }: AtsPoolProps) {
+  const [weekGames, setWeekGames] = useState<GamePrediction[]>([]);
+  const [scheduleAvailable, setScheduleAvailable] = useState(false);
+  const [odds, setOdds] = useState<Record<string, GameOdds>>({});
+  const [injuryReport, setInjuryReport] = useState<InjuryReport | null>(null);
+  const [forecasts, setForecasts] = useState<Record<string, GameForecast>>({});
+  const [lockedLines, setLockedLines] = useState<AtsLines | null>(null);
+  const [seasonPicks, setSeasonPicks] = useState<AtsPick[]>([]);
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [now, setNow] = useState(new Date());
+
+  const rules = getAtsRules(pool);
+  const isCommissioner = !!pool && pool.commissionerId === user.id;
+
+  useEffect(() => {
+    loadAtsData();
+  }, [week, year, seasonType, pool?.id]);
+
+  // Keep lock countdowns current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Same inputs as the predictions tab, so cover probabilities match what the model shows there
+  const games = useMemo(
+    () => predictGames(
+      withForecasts(withInjuryReport(withMarketOdds(weekGames, odds), injuryReport), forecasts),
+      metricWeights,
+      getCalibratedThresholds(metricWeights)
+    ),
+    [weekGames, odds, injuryReport, forecasts, metricWeights]
+  );
+
+  const weekPicks = seasonPicks.filter(pick => pick.week === week);
+  const selectedCount = Object.keys(selections).length;
+
+  const loadAtsData = async () => {
+    setLoading(true);
+    try {
+      // Earlier weeks are only loaded to find each team's previous game for rest and travel
+      const [schedules, weekOdds, weekInjuries, weekForecasts, picks, lines] = await Promise.all([
+        loadSeasonSchedule(supabase, year, seasonType, [...getContextWeeks(week), week]),
+        // Picks snapshot the shared feed's lines, so show those rather than the user's own imports
+        loadWeekOdds(supabase, year, seasonType, week, true),
+        loadInjuryReport(supabase, year, seasonType, week),
+        loadWeekForecasts(supabase, year, seasonType, week),
+        loadAtsPicks(supabase, year, seasonType, pool?.id),
+        pool ? loadAtsLines(supabase, pool.id, year, seasonType, week) : Promise.resolve(null)
+      ]);
+      const scheduled = withScheduleContext(schedules).find(schedule => schedule.week === week)?.games ?? [];
+      setWeekGames(withTeamRatings(scheduled, year, seasonType, week));
+      setScheduleAvailable(isScheduleAvailable(schedules, week));
+      setOdds(weekOdds);
+      setInjuryReport(weekInjuries);
+      setForecasts(weekForecasts);
+      setLockedLines(lines);
+      setSeasonPicks(picks);
+      setSelections(Object.fromEntries(picks.filter(pick => pick.week === week).map(pick => [pick.gameId, pick.team])));
+    } catch (error) {
+      console.error('Error loading ATS pool data:', error);
+      toast.error('Failed to load ATS pool data');
+    }
+    setLoading(false);
+  };
+
+  // Saved picks keep the line they were snapshotted at; otherwise the locked line in commissioner pools,
+  // or the current feed line
+  const getHomeLine = (game: GamePrediction) => {
+    const saved = weekPicks.find(pick => pick.gameId === game.id);
+    if (saved) return getTeamLine(game, saved.team, saved.line);
+    if (rules.lineLock === 'commissioner') return lockedLines?.lines[game.id] ?? null;
+    return odds[game.id]?.spread ?? null;
+  };
+
+  const toggleTeam = (gameId: string, team: string) => {
+    if (selections[gameId] === team) {
+      setSelections(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== gameId)));
+      return;
+    }
+    if (!selections[gameId] && selectedCount >= rules.picksPerWeek) {
+      toast.error(`Pick at most ${rules.picksPerWeek} games a week`);
+      return;
+    }
+    setSelections(prev => ({ ...prev, [gameId]: team }));
+  };
+
+  const savePicks = async () => {
+    setSaving(true);
+    try {
+      const picks = Object.keys(selections).map(gameId => ({ gameId, team: selections[gameId] }));
+      const saved = await saveAtsPicks(supabase, year, seasonType, week, picks, pool?.id);
+      setSeasonPicks(prev => [...prev.filter(pick => pick.week !== week), ...saved].sort((a, b) => a.week - b.week));
+      toast.success(`Saved ${saved.length} ATS pick${saved.length === 1 ? '' : 's'}`);
+      onSaved?.();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save ATS picks');
+    }
+    setSaving(false);
+  };
+
+  const lockLines = async () => {
+    if (!pool) return;
+    try {
+      setLockedLines(await lockAtsLines(supabase, pool.id, year, seasonType, week));
+      toast.success(`Locked Week ${week} lines`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to lock lines');
+    }
+  };
+
+  const updateRules = async (changes: { atsPicksPerWeek?: number; atsLineLock?: 'pick' | 'commissioner' }) => {
+    if (!pool) return;
+    try {
+      onPoolUpdate?.(await saveAtsRules(supabase, pool.id, changes));
+      toast.success('Updated ATS rules');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save pool rules');
+    }
+  };
+
+  const seasonRecord = getAtsRecord(seasonPicks);
+  const weekRecord = getAtsRecord(weekPicks);
+  const hasChanges = JSON.stringify(Object.entries(selections).sort()) !==
+    JSON.stringify(weekPicks.map(pick => [pick.gameId, pick.team]).sort());
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mr-2"></div>
+        <span className="text-base">Loading ATS pool...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-slate-500">Season record</div>
+            <div className="text-2xl font-semibold text-slate-900">
+              {seasonRecord.wins}-{seasonRecord.losses}-{seasonRecord.pushes}
+              <span className="text-base text-slate-500 font-normal"> • {seasonRecord.points} pts</span>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-slate-500">Week {week}</div>
+            <div className="text-2xl font-semibold text-slate-900">
+              {weekRecord.wins}-{weekRecord.losses}-{weekRecord.pushes}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-slate-500">Picks this week</div>
+            <div className="text-2xl font-semibold text-slate-900">
+              {selectedCount} / {rules.picksPerWeek}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Commissioner Controls */}
+      {isCommissioner && (
+        <Card>
+          <CardContent className="flex flex-wrap items-center gap-4 p-4">
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-slate-600">Picks per week</span>
+              <Select
+                value={rules.picksPerWeek.toString()}
+                onValueChange={(value) => updateRules({ atsPicksPerWeek: Number(value) })}
+              >
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 16 }, (_, i) => i + 1).map(count => (
+                    <SelectItem key={count} value={count.toString()}>{count}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-slate-600">Lines</span>
+              <Select
+                value={rules.lineLock}
+                onValueChange={(value) => updateRules({ atsLineLock: value as 'pick' | 'commissioner' })}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pick">Snapshot when each pick is made</SelectItem>
+                  <SelectItem value="commissioner">Locked by the commissioner</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {rules.lineLock === 'commissioner' && !lockedLines && (
+              <Button variant="outline" size="sm" onClick={lockLines}>
+                <Lock className="w-4 h-4 mr-2" />
+                Lock Week {week} Lines
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Pick Sheet */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <Scale className="w-5 h-5 mr-2" />
+              Against the Spread • Week {week}
+            </CardTitle>
+            <Button size="sm" onClick={savePicks} disabled={saving || !hasChanges || !scheduleAvailable}>
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Picks'}
+            </Button>
+          </div>
+          <p className="text-sm text-slate-500">
+            {rules.lineLock !== 'commissioner'
+              ? 'Each pick keeps the line at the moment it is saved'
+              : lockedLines
+                ? `Lines locked ${new Date(lockedLines.lockedAt).toLocaleString()}`
+                : 'Waiting for the commissioner to lock this week\'s lines'}
+            {' '}• Percentages are the model's chance to cover • A push is worth half a point
+          </p>
+          {!scheduleAvailable && games.length > 0 && (
+            <p className="text-sm text-orange-700">
+              These games are a preview. Picks open once the Week {week} schedule is published.
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {games.length === 0 ? (
+            <p className="text-base text-slate-500 text-center py-6">The Week {week} schedule isn't available yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-slate-50">
+                  <TableHead className="text-base font-medium">Away</TableHead>
+                  <TableHead className="text-base font-medium">Home</TableHead>
+                  <TableHead className="text-base font-medium text-center w-36">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {games.map(game => {
+                  const homeLine = getHomeLine(game);
+                  const kickoff = getKickoffTime(game);
+                  const locked = isLocked(kickoff, now);
+                  const saved = weekPicks.find(pick => pick.gameId === game.id);
+
+                  return (
+                    <TableRow key={game.id}>
+                      {[game.awayTeam, game.homeTeam].map(team => {
+                        const line = homeLine === null ? null : getTeamLine(game, team.abbreviation, homeLine);
+                        const cover = homeLine === null ? null : getTeamCoverProbability(game, team.abbreviation, homeLine);
+                        return (
+                          <TableCell key={team.abbreviation}>
+                            <Button
+                              variant={selections[game.id] === team.abbreviation ? 'default' : 'outline'}
+                              size="sm"
+                              className="w-full justify-between"
+                              disabled={locked || line === null}
+                              onClick={() => toggleTeam(game.id, team.abbreviation)}
+                            >
+                              <span>{team.logo} {team.abbreviation} {line !== null ? formatLine(line) : ''}</span>
+                              {cover !== null && <span className="text-xs opacity-75">{cover}%</span>}
+                            </Button>
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell className="text-center">
+                        {saved?.result === 'win' ? (
+                          <Badge variant="default"><CheckCircle className="w-3 h-3 mr-1" />Covered</Badge>
+                        ) : saved?.result === 'loss' ? (
+                          <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />Lost</Badge>
+                        ) : saved?.result === 'push' ? (
+                          <Badge variant="secondary"><MinusCircle className="w-3 h-3 mr-1" />Push</Badge>
+                        ) : locked ? (
+                          <Badge variant="secondary"><Lock className="w-3 h-3 mr-1" />Locked</Badge>
+                        ) : homeLine === null ? (
+                          <span className="text-sm text-slate-500">No line yet</span>
+                        ) : (
+                          <span className="text-sm text-slate-500">{formatCountdown(kickoff, now)}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
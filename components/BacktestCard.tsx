@@ -0,0 +1,84 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { History } from 'lucide-react';
+import { defaultMetrics } from '../constants/mockData';
+import { historicalResults } from '../constants/historicalResults';
+import { describeResultsCoverage, getResultsCoverage } from '../utils/eloRatings';
+import { backtestWeights, BacktestReport, getMeasuredMetrics, HistoricalGame } from '../utils/backtest';
+import { getDefaultWeights, MetricWeights } from '../utils/predictionEngine';
+
+interface BacktestCardProps {
+  games: HistoricalGame[];
+  weights: MetricWeights;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Lower is better for Brier score and log loss, higher for the rest
+const STATS: { label: string; format: (report: BacktestReport) => string; better: (a: BacktestReport, b: BacktestReport) => boolean }[] = [
+  { label: 'Accuracy', format: r => formatPercent(r.accuracy), better: (a, b) => a.accuracy > b.accuracy },
+  { label: 'Brier Score', format: r => r.brierScore.toFixed(4), better: (a, b) => a.brierScore < b.brierScore },
+  { label: 'Log Loss', format: r => r.logLoss.toFixed(4), better: (a, b) => a.logLoss < b.logLoss },
+  { label: 'Survivor Weeks', format: r => r.averageWeeksSurvived.toFixed(1), better: (a, b) => a.averageWeeksSurvived > b.averageWeeksSurvived }
+];
+
+export function BacktestCard({ games, weights }: BacktestCardProps) {
+  const report = useMemo(() => backtestWeights(games, weights), [games, weights]);
+  const baseline = useMemo(() => backtestWeights(games, getDefaultWeights()), [games]);
+  // Only the weeks the bundled results include can be replayed
+  const coverage = useMemo(() => describeResultsCoverage(getResultsCoverage(historicalResults)), []);
+  const measured = useMemo(() => getMeasuredMetrics(games), [games]);
+  const measuredNames = defaultMetrics.filter(metric => measured.includes(metric.id)).map(metric => metric.name);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <History className="w-5 h-5 mr-2" />
+          Backtest
+        </CardTitle>
+        <p className="text-sm text-slate-500">
+          Replays {report.games} completed games ({coverage}, the weeks with bundled results) with these weights, using only ratings known before each week
+        </p>
+        {measuredNames.length < defaultMetrics.length && (
+          <p className="text-sm text-orange-700">
+            {measuredNames.length > 0
+              ? `Only ${measuredNames.join(', ')} ${measuredNames.length === 1 ? 'is' : 'are'} measured in these games. The other sliders only dilute those ratings here, so this can't show whether their own inputs help.`
+              : 'No metric differs between teams in these games, so the weights have nothing to measure.'}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 text-xs text-slate-500">
+          <span></span>
+          <span className="text-right">These Weights</span>
+          <span className="text-right">Defaults</span>
+        </div>
+        {STATS.map(stat => (
+          <div key={stat.label} className="grid grid-cols-3 items-center text-sm">
+            <span className="text-slate-600">{stat.label}</span>
+            <span className={`text-right font-medium ${stat.better(report, baseline) ? 'text-green-600' : 'text-slate-900'}`}>
+              {stat.format(report)}
+            </span>
+            <span className="text-right text-slate-500">{stat.format(baseline)}</span>
+          </div>
+        ))}
+
+        <div className="pt-3 border-t border-slate-200 space-y-2">
+          <div className="text-sm font-medium text-slate-700">Simulated Survivor Runs</div>
+          {report.survivor.map(season => (
+            <div key={season.year} className="flex items-center justify-between text-sm">
+              <span className="text-slate-600">{season.year}</span>
+              {season.eliminatedWeek ? (
+                <Badge variant="destructive">Out Week {season.eliminatedWeek}</Badge>
+              ) : (
+                <Badge variant="default">Survived all {season.weeksPlayed} weeks</Badge>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,431 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { GitBranch, Sparkles, Save, Lock, Clock, Pencil, CheckCircle, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Bracket, BracketMatchup, Conference, PlayoffSeeds, Pool } from '../constants/mockData';
+import { getTeam, nflTeams } from '../constants/teams';
+import { MetricWeights } from '../utils/predictionEngine';
+import { loadSeasonSchedule } from '../utils/schedule';
+import { WeekSchedule } from '../utils/scheduleIngestion';
+import { formatCountdown } from '../utils/pickLocks';
+import {
+  BRACKET_ROUNDS,
+  CONFERENCES,
+  POSTSEASON,
+  ROUND_NAMES,
+  buildMatchupModel,
+  emptyWinners,
+  fillFromModel,
+  getAdvancementOdds,
+  getBracketLockTime,
+  getBracketPoints,
+  getPlayoffResults,
+  getRoundMatchups,
+  getSeed,
+  getTeamWinProbability,
+  isBracketComplete,
+  isBracketLocked,
+  loadBracket,
+  loadPlayoffSeeds,
+  pickWinner,
+  pruneBracket,
+  saveBracket,
+  saveBracketPoints,
+  savePlayoffSeeds,
+  scoreBracket
+} from '../utils/bracket';
+
+interface BracketChallengeProps {
+  year: number;
+  user: any;
+  supabase: any;
+  metricWeights?: MetricWeights | null;
+  pool: Pool | null;
+  onPoolUpdate?: (pool: Pool) => void;
+  onSaved?: () => void;
+}
+
+const POINT_OPTIONS = [0, 1, 2, 3, 4, 5, 6, 8, 10, 12, 16, 20, 32];
+
+const emptySeeds = (): Record<Conference, string[]> => ({ AFC: Array(7).fill(''), NFC: Array(7).fill('') });
+
+export function BracketChallenge({ year, user, supabase, metricWeights, pool, onPoolUpdate, onSaved }: BracketChallengeProps) {
+  const [schedules, setSchedules] = useState<WeekSchedule[]>([]);
+  const [seeds, setSeeds] = useState<PlayoffSeeds | null>(null);
+  const [seedDraft, setSeedDraft] = useState<Record<Conference, string[]>>(emptySeeds());
+  const [editingSeeds, setEditingSeeds] = useState(false);
+  const [bracket, setBracket] = useState<Bracket | null>(null);
+  const [winners, setWinners] = useState<Record<number, string[]>>(emptyWinners());
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    loadBracketData();
+  }, [year, pool?.id]);
+
+  // Keep the lock countdown current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const model = useMemo(
+    () => seeds ? buildMatchupModel(seeds.seeds, year, metricWeights) : null,
+    [seeds, year, metricWeights]
+  );
+  const advancementOdds = useMemo(
+    () => seeds && model ? getAdvancementOdds(seeds.seeds, model) : null,
+    [seeds, model]
+  );
+
+  const wildCardGames = schedules.find(schedule => schedule.week === 1)?.games ?? [];
+  const locked = isBracketLocked(wildCardGames, year, now);
+  const lockTime = getBracketLockTime(wildCardGames, year);
+  const results = getPlayoffResults(schedules);
+  const points = getBracketPoints(pool);
+  const isCommissioner = !!pool && pool.commissionerId === user.id;
+  // The server keeps seeds fixed once a bracket is saved against them
+  const canEditSeeds = (!pool || isCommissioner) && !locked && !bracket;
+  const hasChanges = JSON.stringify(winners) !== JSON.stringify(bracket?.winners ?? emptyWinners());
+
+  const loadBracketData = async () => {
+    setLoading(true);
+    try {
+      const [loadedSchedules, loadedSeeds, loadedBracket] = await Promise.all([
+        loadSeasonSchedule(supabase, year, POSTSEASON, BRACKET_ROUNDS),
+        loadPlayoffSeeds(supabase, year, pool?.id),
+        loadBracket(supabase, year, pool?.id)
+      ]);
+      setSchedules(loadedSchedules);
+      setSeeds(loadedSeeds);
+      setSeedDraft(loadedSeeds?.seeds ?? emptySeeds());
+      setEditingSeeds(!loadedSeeds && (!pool || pool.commissionerId === user.id));
+      setBracket(loadedBracket);
+      setWinners(loadedBracket?.winners ?? emptyWinners());
+    } catch (error) {
+      console.error('Error loading bracket data:', error);
+      toast.error('Failed to load bracket');
+    }
+    setLoading(false);
+  };
+
+  const setSeed = (conference: Conference, index: number, team: string) => {
+    setSeedDraft(prev => ({
+      ...prev,
+      [conference]: prev[conference].map((current, i) => {
+        if (i === index) return team;
+        // Picking a team already seeded elsewhere swaps the two
+        return current === team ? prev[conference][index] : current;
+      })
+    }));
+  };
+
+  const saveSeeds = async () => {
+    setSaving(true);
+    try {
+      const saved = await savePlayoffSeeds(supabase, year, seedDraft, pool?.id);
+      setSeeds(saved);
+      setEditingSeeds(false);
+      // Picks made against the old seeds may no longer have a game
+      setWinners(prev => pruneBracket(saved.seeds, prev));
+      toast.success('Saved playoff seeds');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save playoff seeds');
+    }
+    setSaving(false);
+  };
+
+  const chooseWinner = (round: number, matchup: BracketMatchup, team: string) => {
+    if (!seeds || locked) return;
+    setWinners(prev => pickWinner(seeds.seeds, prev, round, matchup, team));
+  };
+
+  const applyModel = () => {
+    if (!seeds || !model) return;
+    setWinners(prev => fillFromModel(seeds.seeds, prev, model));
+    toast.success('Filled the open games with model favorites');
+  };
+
+  const submitBracket = async () => {
+    setSaving(true);
+    try {
+      const saved = await saveBracket(supabase, year, winners, pool?.id);
+      setBracket(saved);
+      setWinners(saved.winners);
+      toast.success(isBracketComplete(saved.winners) ? 'Saved your bracket' : 'Saved your bracket; some games are still open');
+      onSaved?.();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save bracket');
+    }
+    setSaving(false);
+  };
+
+  const updatePoints = async (index: number, value: number) => {
+    if (!pool) return;
+    try {
+      const bracketPoints = points.map((current, i) => i === index ? value : current);
+      onPoolUpdate?.(await saveBracketPoints(supabase, pool.id, { bracketPoints }));
+      toast.success('Updated bracket scoring');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save pool rules');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mr-2"></div>
+        <span className="text-base">Loading bracket...</span>
+      </div>
+    );
+  }
+
+  const renderTeam = (round: number, matchup: BracketMatchup, team: string) => {
+    const info = getTeam(team);
+    const picked = winners[round]?.includes(team);
+    const won = results.winners[round].includes(team);
+    const lost = picked && results.eliminated.includes(team) && !won;
+    const probability = model ? Math.round(getTeamWinProbability(model, matchup, team) * 100) : null;
+
+    return (
+      <button
+        key={team}
+        disabled={locked}
+        onClick={() => chooseWinner(round, matchup, team)}
+        className={`w-full flex items-center justify-between px-3 py-2 rounded-md border text-left transition-colors ${
+          picked ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:border-slate-300'
+        } ${locked ? 'cursor-not-allowed' : ''}`}
+      >
+        <span className="flex items-center space-x-2">
+          <span className="text-xs text-slate-400 w-4">{seeds && getSeed(seeds.seeds, team)}</span>
+          <span>{info?.logo}</span>
+          <span className="font-medium text-slate-900">{team}</span>
+          {picked && won && <CheckCircle className="w-4 h-4 text-green-600" />}
+          {lost && <XCircle className="w-4 h-4 text-red-600" />}
+        </span>
+        {probability !== null && <span className="text-sm text-slate-500">{probability}%</span>}
+      </button>
+    );
+  };
+
+  const renderRound = (round: number) => {
+    const matchups = seeds ? getRoundMatchups(seeds.seeds, winners, round) : [];
+    const expected = { 1: 6, 2: 4, 3: 2, 4: 1 }[round] ?? 0;
+
+    return (
+      <div key={round} className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-slate-900">{ROUND_NAMES[round]}</h4>
+          <Badge variant="secondary">{points[round - 1]} pts</Badge>
+        </div>
+        {round === 1 && seeds && CONFERENCES.map(conference => (
+          <div key={conference} className="text-xs text-slate-500">
+            {conference} bye: {getTeam(seeds.seeds[conference][0])?.logo} {seeds.seeds[conference][0]}
+          </div>
+        ))}
+        {matchups.map(matchup => (
+          <div key={`${matchup.higher}-${matchup.lower}`} className="space-y-1 p-2 rounded-lg bg-slate-50">
+            {matchup.conference && <div className="text-xs text-slate-500">{matchup.conference}</div>}
+            {renderTeam(round, matchup, matchup.higher)}
+            {renderTeam(round, matchup, matchup.lower)}
+          </div>
+        ))}
+        {matchups.length < expected && (
+          <p className="text-sm text-slate-500">
+            Pick the {ROUND_NAMES[round - 1]} winners to set {matchups.length > 0 ? 'the remaining' : 'these'} games.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const score = scoreBracket(bracket?.winners ?? emptyWinners(), results, points);
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-slate-500">Bracket score</div>
+            <div className="text-2xl font-semibold text-slate-900">
+              {score.score}
+              <span className="text-base text-slate-500 font-normal"> of {score.possible} still possible</span>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-slate-500">Champion pick</div>
+            <div className="text-2xl font-semibold text-slate-900">
+              {winners[4]?.[0] ? `${getTeam(winners[4][0])?.logo ?? ''} ${winners[4][0]}` : '—'}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-slate-500">Deadline</div>
+            <div className={`flex items-center text-2xl font-semibold ${locked ? 'text-red-600' : 'text-slate-900'}`}>
+              {locked ? <Lock className="w-5 h-5 mr-2" /> : <Clock className="w-5 h-5 mr-2" />}
+              {locked ? 'Locked' : formatCountdown(lockTime, now)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Seeds */}
+      {editingSeeds ? (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Playoff Seeds • {year}</CardTitle>
+              <div className="flex items-center space-x-2">
+                {seeds && (
+                  <Button variant="outline" size="sm" onClick={() => { setSeedDraft(seeds.seeds); setEditingSeeds(false); }}>
+                    Cancel
+                  </Button>
+                )}
+                <Button size="sm" onClick={saveSeeds} disabled={saving || !canEditSeeds}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Seeds
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {CONFERENCES.map(conference => (
+              <div key={conference} className="space-y-2">
+                <h4 className="font-medium text-slate-900">{conference}</h4>
+                {seedDraft[conference].map((team, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <span className="text-sm text-slate-500 w-14">Seed {index + 1}</span>
+                    <Select value={team} onValueChange={(value) => setSeed(conference, index, value)} disabled={!canEditSeeds}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="Select team" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {nflTeams.filter(t => t.conference === conference).map(t => (
+                          <SelectItem key={t.abbreviation} value={t.abbreviation}>{t.logo} {t.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ) : !seeds && (
+        <Card>
+          <CardContent className="py-12 text-center text-base text-slate-500">
+            {pool
+              ? `${pool.name}'s commissioner hasn't set the ${year} playoff seeds yet.`
+              : `Playoff seeds for ${year} haven't been set.`}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Bracket */}
+      {seeds && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center">
+                <GitBranch className="w-5 h-5 mr-2" />
+                {pool ? `${pool.name} Bracket` : 'Playoff Bracket'} • {year}
+              </CardTitle>
+              <div className="flex items-center space-x-2">
+                {!editingSeeds && canEditSeeds && (
+                  <Button variant="outline" size="sm" onClick={() => setEditingSeeds(true)}>
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit Seeds
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={applyModel} disabled={locked || isBracketComplete(winners)}>
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  Fill From Model
+                </Button>
+                <Button size="sm" onClick={submitBracket} disabled={saving || locked || !hasChanges}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? 'Saving...' : 'Save Bracket'}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isCommissioner && (
+              <div className="flex flex-wrap items-center gap-4">
+                {BRACKET_ROUNDS.map((round, index) => (
+                  <div key={round} className="flex items-center space-x-2">
+                    <span className="text-sm text-slate-600">{ROUND_NAMES[round]}</span>
+                    <Select value={points[index].toString()} onValueChange={(value) => updatePoints(index, Number(value))}>
+                      <SelectTrigger className="w-20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {POINT_OPTIONS.map(option => (
+                          <SelectItem key={option} value={option.toString()}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {BRACKET_ROUNDS.map(renderRound)}
+            </div>
+            <p className="text-sm text-slate-500">
+              Win probabilities come from the model for each possible matchup; Fill From Model takes the favorite in every open game.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Advancement odds */}
+      {seeds && advancementOdds && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Model Advancement Odds</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-slate-50">
+                  <TableHead className="text-base font-medium">Team</TableHead>
+                  {BRACKET_ROUNDS.map(round => (
+                    <TableHead key={round} className="text-base font-medium text-center w-28">
+                      {round === 4 ? 'Win Title' : `Win ${ROUND_NAMES[round]}`}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries(advancementOdds)
+                  .sort(([, a], [, b]) => b[3] - a[3])
+                  .map(([team, odds]) => (
+                    <TableRow key={team}>
+                      <TableCell>
+                        <span className="mr-2">{getTeam(team)?.logo}</span>
+                        <span className="font-medium text-slate-900">{getTeam(team)?.name ?? team}</span>
+                        <span className="text-sm text-slate-500 ml-2">#{getSeed(seeds.seeds, team)}</span>
+                      </TableCell>
+                      {odds.map((chance, index) => (
+                        <TableCell key={index} className="text-center text-slate-600">{Math.round(chance * 100)}%</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
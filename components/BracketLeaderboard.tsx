@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Medal } from 'lucide-react';
+import { BracketStanding, Pool } from '../constants/mockData';
+import { getTeam } from '../constants/teams';
+import { BRACKET_ROUNDS, ROUND_NAMES, loadBracketLeaderboard } from '../utils/bracket';
+
+interface BracketLeaderboardProps {
+  pool: Pool;
+  year: number;
+  supabase: any;
+  // Bumped by the bracket after a save so the table refreshes
+  refreshKey?: number;
+}
+
+export function BracketLeaderboard({ pool, year, supabase, refreshKey }: BracketLeaderboardProps) {
+  const [standings, setStandings] = useState<BracketStanding[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    loadBracketLeaderboard(supabase, pool.id, year)
+      .then(setStandings)
+      .finally(() => setLoading(false));
+  }, [pool.id, year, refreshKey, pool.rules.bracketPoints?.join()]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Medal className="w-5 h-5 mr-2" />
+          {pool.name} Bracket Leaderboard • {year}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-base text-slate-500 text-center py-6">Loading leaderboard...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-slate-50">
+                <TableHead className="text-base font-medium w-16 text-center">Rank</TableHead>
+                <TableHead className="text-base font-medium">Player</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Champion</TableHead>
+                {BRACKET_ROUNDS.map(round => (
+                  <TableHead key={round} className="text-base font-medium text-center w-28">{ROUND_NAMES[round]}</TableHead>
+                ))}
+                <TableHead className="text-base font-medium text-center w-24">Score</TableHead>
+                <TableHead className="text-base font-medium text-center w-24">Max</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {standings.map((standing, index) => (
+                <TableRow key={standing.userId}>
+                  <TableCell className="text-center font-medium">{index + 1}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-base text-slate-900">{standing.name}</span>
+                      {standing.isCommissioner && (
+                        <Badge variant="outline" className="text-xs">Commissioner</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-center text-slate-600">
+                    {standing.champion ? `${getTeam(standing.champion)?.logo ?? ''} ${standing.champion}` : '—'}
+                  </TableCell>
+                  {standing.roundPoints.map((points, round) => (
+                    <TableCell key={round} className="text-center text-slate-600">{points}</TableCell>
+                  ))}
+                  <TableCell className="text-center text-lg font-bold text-slate-900">
+                    {standing.score}
+                  </TableCell>
+                  <TableCell className="text-center text-slate-600">
+                    {standing.possible}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
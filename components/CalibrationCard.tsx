@@ -0,0 +1,90 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { CartesianGrid, ComposedChart, Line, Scatter, XAxis, YAxis } from 'recharts@2.15.2';
+import { Crosshair } from 'lucide-react';
+import { historicalResults } from '../constants/historicalResults';
+import { getCalibrationReport } from '../utils/calibration';
+import { describeResultsCoverage, getResultsCoverage } from '../utils/eloRatings';
+import { MetricWeights } from '../utils/predictionEngine';
+
+interface CalibrationCardProps {
+  weights: MetricWeights;
+}
+
+const chartConfig = {
+  observed: { label: 'Observed win rate', color: '#2563eb' },
+  perfect: { label: 'Perfect calibration', color: '#94a3b8' }
+} satisfies ChartConfig;
+
+export function CalibrationCard({ weights }: CalibrationCardProps) {
+  const report = useMemo(() => getCalibrationReport(weights), [weights]);
+  const coverage = useMemo(() => describeResultsCoverage(getResultsCoverage(historicalResults)), []);
+
+  // Diagonal reference points plus one point per bucket, all on the stated-probability axis
+  const data = useMemo(() => [
+    { predicted: 50, perfect: 50 },
+    ...report.buckets.map(bucket => ({
+      predicted: Math.round(bucket.meanPredicted * 1000) / 10,
+      observed: Math.round(bucket.observed * 1000) / 10,
+      games: bucket.games
+    })),
+    { predicted: 100, perfect: 100 }
+  ], [report]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center">
+            <Crosshair className="w-5 h-5 mr-2" />
+            Calibration
+          </CardTitle>
+          <Badge variant={report.calibrated ? 'default' : 'secondary'}>
+            {!report.calibrated ? 'Default tiers' : report.defaultTiers.length > 0 ? 'Partly calibrated' : 'Calibrated tiers'}
+          </Badge>
+        </div>
+        <p className="text-sm text-slate-500">
+          How often the favorite actually won at each stated probability, over {report.games} past games ({coverage}, the weeks with bundled results)
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ChartContainer config={chartConfig} className="aspect-square w-full">
+          <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 8, left: -16 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="predicted" type="number" domain={[50, 100]} unit="%" tickCount={6} />
+            <YAxis type="number" domain={[0, 100]} unit="%" tickCount={6} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Stated ${payload?.[0]?.payload?.predicted}%`} />} />
+            <Line dataKey="perfect" stroke="var(--color-perfect)" strokeDasharray="4 4" dot={false} connectNulls />
+            <Scatter dataKey="observed" fill="var(--color-observed)" />
+          </ComposedChart>
+        </ChartContainer>
+
+        <div className="pt-3 border-t border-slate-200 space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-600">High confidence</span>
+            <span className="font-medium text-slate-900">
+              {50 + report.thresholds.high}%+ favorite{report.defaultTiers.includes('high') && ' (default)'}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-600">Medium confidence</span>
+            <span className="font-medium text-slate-900">
+              {50 + report.thresholds.medium}%+ favorite{report.defaultTiers.includes('medium') && ' (default)'}
+            </span>
+          </div>
+          {!report.calibrated ? (
+            <p className="text-xs text-slate-500">
+              Not enough history to measure where favorites start winning reliably, so the default tiers apply.
+            </p>
+          ) : report.defaultTiers.length > 0 && (
+            <p className="text-xs text-slate-500">
+              Too few past games cleared the bar for a calibrated {report.defaultTiers.join(' or ')} tier, so it keeps the default.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Medal } from 'lucide-react';
+import { ConfidenceStanding, Pool } from '../constants/mockData';
+import { loadConfidenceLeaderboard } from '../utils/confidencePool';
+
+interface ConfidenceLeaderboardProps {
+  pool: Pool;
+  week: number;
+  year: number;
+  seasonType: number;
+  supabase: any;
+  // Bumped by the pick sheet after a save so the table refreshes
+  refreshKey?: number;
+}
+
+export function ConfidenceLeaderboard({ pool, week, year, seasonType, supabase, refreshKey }: ConfidenceLeaderboardProps) {
+  const [standings, setStandings] = useState<ConfidenceStanding[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    loadConfidenceLeaderboard(supabase, pool.id, year, seasonType)
+      .then(setStandings)
+      .finally(() => setLoading(false));
+  }, [pool.id, week, year, seasonType, refreshKey]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Medal className="w-5 h-5 mr-2" />
+            {pool.name} Confidence Leaderboard • {year}
+          </CardTitle>
+          <div className="text-sm text-slate-500">
+            Points from graded weeks
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-base text-slate-500 text-center py-6">Loading leaderboard...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-slate-50">
+                <TableHead className="text-base font-medium w-16 text-center">Rank</TableHead>
+                <TableHead className="text-base font-medium">Player</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Points</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Week {week}</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Best Week</TableHead>
+                <TableHead className="text-base font-medium text-center w-32">Correct</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {standings.map((standing, index) => (
+                <TableRow key={standing.userId}>
+                  <TableCell className="text-center font-medium">{index + 1}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-base text-slate-900">{standing.name}</span>
+                      {standing.isCommissioner && (
+                        <Badge variant="outline" className="text-xs">Commissioner</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-center text-lg font-bold text-slate-900">
+                    {standing.totalPoints}
+                  </TableCell>
+                  <TableCell className="text-center text-slate-600">
+                    {standing.weeklyPoints[week] ?? '—'}
+                  </TableCell>
+                  <TableCell className="text-center text-slate-600">
+                    {standing.weeksPlayed > 0 ? standing.bestWeek : '—'}
+                  </TableCell>
+                  <TableCell className="text-center text-slate-600">
+                    {standing.correctPicks}/{standing.gradedPicks}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
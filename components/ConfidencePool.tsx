@@ -0,0 +1,301 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Alert, AlertDescription } from './ui/alert';
+import { ListChecks, Sparkles, Save, Lock, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { ConfidencePick, ConfidenceSheet, GamePrediction } from '../constants/mockData';
+import { predictGames, MetricWeights } from '../utils/predictionEngine';
+import { getCalibratedThresholds } from '../utils/calibration';
+import { isScheduleAvailable, loadSeasonSchedule, withTeamRatings } from '../utils/schedule';
+import { getContextWeeks, withScheduleContext } from '../utils/scheduleContext';
+import { formatCountdown, getKickoffTime, isLocked } from '../utils/pickLocks';
+import {
+  getExpectedPoints,
+  getPickedProbability,
+  getSheetWarnings,
+  getSuggestedPicks,
+  loadConfidenceSheets,
+  saveConfidenceSheet
+} from '../utils/confidencePool';
+
+interface ConfidencePoolProps {
+  week: number;
+  year: number;
+  seasonType: number;
+  supabase: any;
+  metricWeights?: MetricWeights | null;
+  poolId?: string | null;
+  onSaved?: () => void;
+}
+
+export function ConfidencePool({ week, year, seasonType, supabase, metricWeights, poolId, onSaved }: ConfidencePoolProps) {
+  const [weekGames, setWeekGames] = useState<GamePrediction[]>([]);
+  const [scheduleAvailable, setScheduleAvailable] = useState(false);
+  const [sheets, setSheets] = useState<ConfidenceSheet[]>([]);
+  const [picks, setPicks] = useState<ConfidencePick[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    loadConfidenceData();
+  }, [week, year, seasonType, poolId]);
+
+  // Keep lock countdowns current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const games = useMemo(
+    () => predictGames(withTeamRatings(weekGames, year, seasonType, week), metricWeights, getCalibratedThresholds(metricWeights)),
+    [weekGames, metricWeights, year, seasonType, week]
+  );
+
+  const savedSheet = sheets.find(sheet => sheet.week === week);
+  // Each game locks at its own kickoff, or once its pick is graded
+  const lockedGameIds = games
+    .filter(game => isLocked(getKickoffTime(game), now) || savedSheet?.picks.some(pick =>
+      pick.gameId === game.id && (pick.result === 'win' || pick.result === 'loss')
+    ))
+    .map(game => game.id);
+  const lockedPicks = (savedSheet?.picks ?? []).filter(pick => lockedGameIds.includes(pick.gameId));
+  const pointOptions = Array.from({ length: games.length }, (_, i) => games.length - i);
+  const warnings = getSheetWarnings(picks, games);
+  const hasChanges = JSON.stringify(picks.map(({ gameId, team, points }) => ({ gameId, team, points }))) !==
+    JSON.stringify((savedSheet?.picks ?? []).map(({ gameId, team, points }) => ({ gameId, team, points })));
+
+  const loadConfidenceData = async () => {
+    setLoading(true);
+    try {
+      // Earlier weeks are only loaded to find each team's previous game for rest and travel
+      const [schedules, loadedSheets] = await Promise.all([
+        loadSeasonSchedule(supabase, year, seasonType, [...getContextWeeks(week), week]),
+        loadConfidenceSheets(supabase, year, seasonType, poolId)
+      ]);
+      setWeekGames(withScheduleContext(schedules).find(schedule => schedule.week === week)?.games ?? []);
+      setScheduleAvailable(isScheduleAvailable(schedules, week));
+      setSheets(loadedSheets);
+      setPicks(loadedSheets.find(sheet => sheet.week === week)?.picks ?? []);
+    } catch (error) {
+      console.error('Error loading confidence pool data:', error);
+      toast.error('Failed to load confidence pool data');
+    }
+    setLoading(false);
+  };
+
+  const pickTeam = (gameId: string, team: string) => {
+    setPicks(prev => {
+      const existing = prev.find(pick => pick.gameId === gameId);
+      if (existing) {
+        return prev.map(pick => pick.gameId === gameId ? { ...pick, team } : pick);
+      }
+      // New picks start on the highest value nobody has used yet
+      const used = new Set(prev.map(pick => pick.points));
+      const points = pointOptions.find(value => !used.has(value)) ?? 1;
+      return [...prev, { gameId, team, points }];
+    });
+  };
+
+  // Choosing a value another game already holds swaps the two, so points stay unique
+  const assignPoints = (gameId: string, points: number) => {
+    setPicks(prev => {
+      const current = prev.find(pick => pick.gameId === gameId);
+      if (!current) return prev;
+      return prev.map(pick => {
+        if (pick.gameId === gameId) return { ...pick, points };
+        if (pick.points === points) return { ...pick, points: current.points };
+        return pick;
+      });
+    });
+  };
+
+  const applySuggestions = () => {
+    setPicks(getSuggestedPicks(games, lockedPicks, lockedGameIds));
+    toast.success('Filled in the suggested ranking');
+  };
+
+  const savePicks = async () => {
+    setSaving(true);
+    try {
+      const saved = await saveConfidenceSheet(supabase, year, seasonType, week, picks, poolId);
+      setSheets(prev => [...prev.filter(sheet => sheet.week !== week), saved].sort((a, b) => a.week - b.week));
+      setPicks(saved.picks);
+      toast.success(`Saved ${saved.picks.length} of ${games.length} picks`);
+      onSaved?.();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save confidence picks');
+    }
+    setSaving(false);
+  };
+
+  const seasonPoints = sheets.reduce((sum, sheet) => sum + (sheet.score ?? 0), 0);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mr-2"></div>
+        <span className="text-base">Loading confidence pool...</span>
+      </div>
+    );
+  }
+
+  if (games.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-base text-slate-500">
+          The Week {week} schedule isn't available yet.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-slate-500">Expected points</div>
+            <div className="text-2xl font-semibold text-slate-900">
+              {getExpectedPoints(picks, games)}
+              <span className="text-base text-slate-500 font-normal"> of {games.length * (games.length + 1) / 2}</span>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-slate-500">Week {week} score</div>
+            <div className="text-2xl font-semibold text-slate-900">
+              {savedSheet?.score !== undefined ? `${savedSheet.score} / ${savedSheet.maxScore}` : 'Not graded'}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-slate-500">Season points</div>
+            <div className="text-2xl font-semibold text-slate-900">{seasonPoints}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Pick Sheet */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <ListChecks className="w-5 h-5 mr-2" />
+              Confidence Picks • Week {week}
+            </CardTitle>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={applySuggestions} disabled={!scheduleAvailable || lockedGameIds.length === games.length}>
+                <Sparkles className="w-4 h-4 mr-2" />
+                Use Suggested
+              </Button>
+              <Button size="sm" onClick={savePicks} disabled={saving || !hasChanges || !scheduleAvailable}>
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Picks'}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!scheduleAvailable && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                These games are a preview. Picks open once the Week {week} schedule is published.
+              </AlertDescription>
+            </Alert>
+          )}
+          {warnings.length > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{warnings.join(' • ')}</AlertDescription>
+            </Alert>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-slate-50">
+                <TableHead className="text-base font-medium">Game</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Win Prob.</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Points</TableHead>
+                <TableHead className="text-base font-medium text-center w-36">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {games.map(game => {
+                const pick = picks.find(p => p.gameId === game.id);
+                const kickoff = getKickoffTime(game);
+                const locked = lockedGameIds.includes(game.id);
+
+                return (
+                  <TableRow key={game.id}>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        {[game.awayTeam, game.homeTeam].map((team, index) => (
+                          <div key={team.abbreviation} className="flex items-center space-x-2">
+                            {index === 1 && <span className="text-slate-400">@</span>}
+                            <Button
+                              variant={pick?.team === team.abbreviation ? 'default' : 'outline'}
+                              size="sm"
+                              disabled={locked}
+                              onClick={() => pickTeam(game.id, team.abbreviation)}
+                            >
+                              <span className="mr-1">{team.logo}</span>
+                              {team.abbreviation}
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-center font-medium">
+                      {pick ? `${getPickedProbability(game, pick.team)}%` : '—'}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {pick && (
+                        <Select
+                          value={pick.points.toString()}
+                          onValueChange={(value) => assignPoints(game.id, Number(value))}
+                          disabled={locked}
+                        >
+                          <SelectTrigger className="w-20 mx-auto">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {pointOptions.map(points => (
+                              <SelectItem key={points} value={points.toString()}>{points}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {pick?.result === 'win' ? (
+                        <Badge variant="default"><CheckCircle className="w-3 h-3 mr-1" />+{pick.points}</Badge>
+                      ) : pick?.result === 'loss' ? (
+                        <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />0</Badge>
+                      ) : locked ? (
+                        <Badge variant="secondary"><Lock className="w-3 h-3 mr-1" />Locked</Badge>
+                      ) : (
+                        <span className="text-sm text-slate-500">{formatCountdown(kickoff, now)}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <p className="text-sm text-slate-500">
+            Suggested ranking takes every projected winner and gives the most points to the games the model is surest about.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts@2.15.2';
+import { GamePrediction } from '../constants/mockData';
+import { getSideBreakdown } from '../utils/explanations';
+
+interface ContributionWaterfallProps {
+  game: GamePrediction;
+}
+
+const chartConfig = {
+  value: { label: 'Win probability' },
+  gain: { label: 'Adds', color: '#16a34a' },
+  loss: { label: 'Costs', color: '#dc2626' },
+  total: { label: 'Total', color: '#2563eb' }
+} satisfies ChartConfig;
+
+// Each bar floats on an invisible base bar so it starts where the previous step ended
+export function ContributionWaterfall({ game }: ContributionWaterfallProps) {
+  const side = game.predictions.homeWinProbability >= 50 ? 'home' : 'away';
+  const team = side === 'home' ? game.homeTeam : game.awayTeam;
+  const finalProbability = side === 'home' ? game.predictions.homeWinProbability : game.predictions.awayWinProbability;
+  const contributions = getSideBreakdown(game, side).filter(contribution => contribution.points !== 0);
+
+  let running = 50;
+  const steps = contributions.map(contribution => {
+    const start = running;
+    running += contribution.points;
+    return { ...contribution, start, end: running };
+  });
+
+  if (steps.length === 0) {
+    return (
+      <p className="text-sm text-slate-500">No metric moves this game away from even under the current weights.</p>
+    );
+  }
+
+  const levels = [50, finalProbability, ...steps.map(step => step.end)];
+  const floor = Math.max(0, Math.floor(Math.min(...levels) / 5) * 5 - 5);
+  const ceiling = Math.min(100, Math.ceil(Math.max(...levels) / 5) * 5 + 5);
+
+  const data = [
+    { label: 'Even odds', base: floor, value: 50 - floor, kind: 'total', display: '50%' },
+    ...steps.map(step => ({
+      label: step.label,
+      base: Math.min(step.start, step.end),
+      value: Math.abs(step.points),
+      kind: step.points > 0 ? 'gain' : 'loss',
+      display: `${step.points > 0 ? '+' : '−'}${Math.abs(step.points).toFixed(1)} pts`
+    })),
+    { label: team.abbreviation, base: floor, value: finalProbability - floor, kind: 'total', display: `${finalProbability}%` }
+  ];
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-slate-600">
+        Why {team.name} {finalProbability === 50 ? 'is even' : 'is favored'}: each bar is the percentage points an input adds to or takes from their win probability under your weights
+      </p>
+      <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+        <BarChart data={data} layout="vertical" margin={{ top: 4, right: 16, bottom: 0, left: 8 }}>
+          <CartesianGrid horizontal={false} />
+          <XAxis type="number" domain={[floor, ceiling]} unit="%" allowDataOverflow tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="label" width={130} tickLine={false} axisLine={false} />
+          <ChartTooltip
+            cursor={false}
+            content={<ChartTooltipContent hideIndicator formatter={(_, __, item) => item.payload.display} />}
+          />
+          <Bar dataKey="base" stackId="waterfall" fill="transparent" tooltipType="none" isAnimationActive={false} />
+          <Bar dataKey="value" stackId="waterfall" radius={2}>
+            {data.map(entry => (
+              <Cell key={entry.label} fill={`var(--color-${entry.kind})`} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+}
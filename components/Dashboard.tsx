@@ -5,21 +5,65 @@ import { Badge } from './ui/badge';
 import { GamePredictions } from './GamePredictions';
 import { MetricConfiguration } from './MetricConfiguration';
 import { SuicidePoolTracker } from './SuicidePoolTracker';
+import { PoolSwitcher } from './PoolSwitcher';
+import { PoolStandings } from './PoolStandings';
+import { ConfidencePool } from './ConfidencePool';
+import { ConfidenceLeaderboard } from './ConfidenceLeaderboard';
+import { AtsPool } from './AtsPool';
+import { AtsLeaderboard } from './AtsLeaderboard';
+import { BracketChallenge } from './BracketChallenge';
+import { BracketLeaderboard } from './BracketLeaderboard';
+import { TeamRatings } from './TeamRatings';
 import { WeekSelector } from './WeekSelector';
-import { LogOut, Settings, Trophy, BarChart3 } from 'lucide-react';
+import { LogOut, Settings, Trophy, BarChart3, ListOrdered, ListChecks, Scale, GitBranch } from 'lucide-react';
 import { toast } from 'sonner';
+import { projectId } from '../utils/supabase/info';
+import { Pool } from '../constants/mockData';
 
 interface DashboardProps {
   user: any;
   supabase: any;
 }
 
+// Invite links carry the pool join code as ?join=CODE
+const getInviteCode = () => new URLSearchParams(window.location.search).get('join');
+
 export function Dashboard({ user, supabase }: DashboardProps) {
-  const [activeTab, setActiveTab] = useState('predictions');
+  const [inviteCode, setInviteCode] = useState<string | null>(getInviteCode);
+  const [activeTab, setActiveTab] = useState(inviteCode ? 'suicide-pool' : 'predictions');
+  const [selectedPool, setSelectedPool] = useState<Pool | null>(null);
   const [selectedWeek, setSelectedWeek] = useState(1);
   const [selectedYear, setSelectedYear] = useState(2025);
   const [seasonType, setSeasonType] = useState(2); // 1=preseason, 2=regular, 3=postseason
-  const [userSettings, setUserSettings] = useState(null);
+  const [userSettings, setUserSettings] = useState<any>(null);
+  const [confidenceSaves, setConfidenceSaves] = useState(0);
+  const [atsSaves, setAtsSaves] = useState(0);
+  const [bracketSaves, setBracketSaves] = useState(0);
+
+  useEffect(() => {
+    loadUserSettings();
+  }, [selectedYear, seasonType]);
+
+  const loadUserSettings = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/user-settings?year=${selectedYear}&seasonType=${seasonType}`, {
+        headers: {
+          'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+        }
+      });
+
+      if (response.ok) {
+        setUserSettings(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading user settings:', error);
+    }
+  };
+
+  const handleInviteHandled = () => {
+    setInviteCode(null);
+    window.history.replaceState(null, '', window.location.pathname);
+  };
 
   const handleSignOut = async () => {
     const { error } = await supabase.auth.signOut();
@@ -33,6 +77,10 @@ export function Dashboard({ user, supabase }: DashboardProps) {
   const tabs = [
     { id: 'predictions', label: 'Game Predictions', icon: BarChart3 },
     { id: 'suicide-pool', label: 'Suicide Pool', icon: Trophy },
+    { id: 'confidence', label: 'Confidence Pool', icon: ListChecks },
+    { id: 'ats', label: 'ATS Pool', icon: Scale },
+    { id: 'bracket', label: 'Playoff Bracket', icon: GitBranch },
+    { id: 'ratings', label: 'Team Ratings', icon: ListOrdered },
     { id: 'settings', label: 'Metric Settings', icon: Settings },
   ];
 
@@ -116,20 +164,147 @@ export function Dashboard({ user, supabase }: DashboardProps) {
             seasonType={seasonType}
             user={user}
             supabase={supabase}
+            metricWeights={userSettings?.metricWeights}
+            marketThreshold={userSettings?.marketDisagreementThreshold}
           />
         )}
         
         {activeTab === 'suicide-pool' && (
-          <SuicidePoolTracker
+          <div className="space-y-6">
+            <PoolSwitcher
+              user={user}
+              supabase={supabase}
+              selectedPool={selectedPool}
+              onPoolChange={setSelectedPool}
+              inviteCode={inviteCode}
+              onInviteHandled={handleInviteHandled}
+            />
+            <SuicidePoolTracker
+              week={selectedWeek}
+              year={selectedYear}
+              seasonType={seasonType}
+              user={user}
+              supabase={supabase}
+              metricWeights={userSettings?.metricWeights}
+              pool={selectedPool}
+              onPoolUpdate={setSelectedPool}
+            />
+            {selectedPool && (
+              <PoolStandings
+                pool={selectedPool}
+                week={selectedWeek}
+                year={selectedYear}
+                seasonType={seasonType}
+                supabase={supabase}
+              />
+            )}
+          </div>
+        )}
+        
+        {activeTab === 'confidence' && (
+          <div className="space-y-6">
+            <PoolSwitcher
+              user={user}
+              supabase={supabase}
+              selectedPool={selectedPool}
+              onPoolChange={setSelectedPool}
+            />
+            <ConfidencePool
+              week={selectedWeek}
+              year={selectedYear}
+              seasonType={seasonType}
+              supabase={supabase}
+              metricWeights={userSettings?.metricWeights}
+              poolId={selectedPool?.id}
+              onSaved={() => setConfidenceSaves(count => count + 1)}
+            />
+            {selectedPool && (
+              <ConfidenceLeaderboard
+                pool={selectedPool}
+                week={selectedWeek}
+                year={selectedYear}
+                seasonType={seasonType}
+                supabase={supabase}
+                refreshKey={confidenceSaves}
+              />
+            )}
+          </div>
+        )}
+
+        {activeTab === 'ats' && (
+          <div className="space-y-6">
+            <PoolSwitcher
+              user={user}
+              supabase={supabase}
+              selectedPool={selectedPool}
+              onPoolChange={setSelectedPool}
+            />
+            <AtsPool
+              week={selectedWeek}
+              year={selectedYear}
+              seasonType={seasonType}
+              user={user}
+              supabase={supabase}
+              metricWeights={userSettings?.metricWeights}
+              pool={selectedPool}
+              onPoolUpdate={setSelectedPool}
+              onSaved={() => setAtsSaves(count => count + 1)}
+            />
+            {selectedPool && (
+              <AtsLeaderboard
+                pool={selectedPool}
+                week={selectedWeek}
+                year={selectedYear}
+                seasonType={seasonType}
+                supabase={supabase}
+                refreshKey={atsSaves}
+              />
+            )}
+          </div>
+        )}
+
+        {activeTab === 'bracket' && (
+          <div className="space-y-6">
+            <PoolSwitcher
+              user={user}
+              supabase={supabase}
+              selectedPool={selectedPool}
+              onPoolChange={setSelectedPool}
+            />
+            <BracketChallenge
+              year={selectedYear}
+              user={user}
+              supabase={supabase}
+              metricWeights={userSettings?.metricWeights}
+              pool={selectedPool}
+              onPoolUpdate={setSelectedPool}
+              onSaved={() => setBracketSaves(count => count + 1)}
+            />
+            {selectedPool && (
+              <BracketLeaderboard
+                pool={selectedPool}
+                year={selectedYear}
+                supabase={supabase}
+                refreshKey={bracketSaves}
+              />
+            )}
+          </div>
+        )}
+
+        {activeTab === 'ratings' && (
+          <TeamRatings
             week={selectedWeek}
             year={selectedYear}
-            user={user}
+            seasonType={seasonType}
             supabase={supabase}
+            metricWeights={userSettings?.metricWeights}
           />
         )}
         
         {activeTab === 'settings' && (
           <MetricConfiguration
+            year={selectedYear}
+            seasonType={seasonType}
             user={user}
             supabase={supabase}
             onSettingsUpdate={setUserSettings}
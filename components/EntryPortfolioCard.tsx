@@ -0,0 +1,82 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Layers } from 'lucide-react';
+import { EntryPortfolio } from '../utils/entryPortfolio';
+
+interface EntryPortfolioCardProps {
+  portfolio: EntryPortfolio;
+  week: number;
+  selectedEntryId: string;
+  onSelect: (entryId: string, team: string) => void;
+}
+
+export function EntryPortfolioCard({ portfolio, week, selectedEntryId, onSelect }: EntryPortfolioCardProps) {
+  const entryCount = new Set(portfolio.assignments.map(assignment => assignment.entryId)).size;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Layers className="w-5 h-5 mr-2" />
+            Week {week} Entry Portfolio
+          </CardTitle>
+          <div className="flex items-center space-x-6 text-right">
+            <div>
+              <div className="text-sm text-slate-500">At Least One Survives</div>
+              <div className="text-lg font-bold text-slate-900">
+                {(portfolio.anySurvives * 100).toFixed(1)}%
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-slate-500">Expected Survivors</div>
+              <div className="text-lg font-bold text-slate-900">
+                {portfolio.expectedSurvivors.toFixed(2)} of {entryCount}
+              </div>
+            </div>
+          </div>
+        </div>
+        <p className="text-sm text-slate-500">
+          Spreads your live entries across teams so one upset can't knock them all out
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {portfolio.assignments.map(assignment => (
+            <div
+              key={`${assignment.entryId}_${assignment.recommendation.team}`}
+              className={`flex items-center justify-between p-3 rounded-lg ${assignment.entryId === selectedEntryId ? 'bg-blue-50 border border-blue-200' : 'bg-slate-50'}`}
+            >
+              <div className="flex items-center space-x-4">
+                <div className="text-sm font-medium text-slate-900 w-24">
+                  {assignment.entryName}
+                </div>
+                <div>
+                  <div className="font-medium text-base text-slate-900">{assignment.recommendation.teamName}</div>
+                  <div className="text-sm text-slate-500">{assignment.recommendation.opponent}</div>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <Badge variant="secondary">
+                  {assignment.recommendation.winProbability}%
+                </Badge>
+                {assignment.isLockedIn ? (
+                  <Badge variant="outline">Picked</Badge>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onSelect(assignment.entryId, assignment.recommendation.team)}
+                  >
+                    Use Pick
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,19 @@
 import { Card, CardContent, CardHeader } from './ui/card';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
-import { TrendingUp } from 'lucide-react';
+import { TrendingUp, AlertTriangle } from 'lucide-react';
 import { GamePrediction } from '../constants/mockData';
 import { getConfidenceBadgeVariant, formatGameDate } from '../utils/gameUtils';
+import { getMarketDisagreement, getMarketProbabilities, isMarketDisagreement } from '../utils/odds';
 
 interface GameCardProps {
   game: GamePrediction;
+  marketThreshold?: number;
 }
 
-export function GameCard({ game }: GameCardProps) {
+export function GameCard({ game, marketThreshold }: GameCardProps) {
+  const market = getMarketProbabilities(game);
+
   return (
     <Card className="overflow-hidden">
       <CardHeader className="bg-slate-50 border-b">
@@ -17,12 +21,20 @@ export function GameCard({ game }: GameCardProps) {
           <div className="text-sm text-slate-500">
             {formatGameDate(game.gameDate)} • {game.gameTime}
           </div>
-          <Badge 
-            variant={getConfidenceBadgeVariant(game.predictions.confidence)}
-            className="text-sm"
-          >
-            {game.predictions.confidence.toUpperCase()} CONFIDENCE
-          </Badge>
+          <div className="flex items-center space-x-2">
+            {isMarketDisagreement(game, marketThreshold) && (
+              <Badge variant="outline" className="text-sm border-orange-300 text-orange-700">
+                <AlertTriangle className="w-4 h-4 mr-1" />
+                {Math.round(Math.abs(getMarketDisagreement(game)!))} pts off market
+              </Badge>
+            )}
+            <Badge 
+              variant={getConfidenceBadgeVariant(game.predictions.confidence)}
+              className="text-sm"
+            >
+              {game.predictions.confidence.toUpperCase()} CONFIDENCE
+            </Badge>
+          </div>
         </div>
       </CardHeader>
       
@@ -43,6 +55,9 @@ export function GameCard({ game }: GameCardProps) {
                 {game.predictions.awayWinProbability}%
               </div>
               <div className="text-sm text-slate-500">Win Probability</div>
+              {market && (
+                <div className="text-sm text-slate-500 mt-1">Market: {market.away}%</div>
+              )}
             </div>
           </div>
 
@@ -73,6 +88,9 @@ export function GameCard({ game }: GameCardProps) {
                 {game.predictions.homeWinProbability}%
               </div>
               <div className="text-sm text-slate-500">Win Probability</div>
+              {market && (
+                <div className="text-sm text-slate-500 mt-1">Market: {market.home}%</div>
+              )}
             </div>
           </div>
         </div>
@@ -1,10 +1,13 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
-import { TrendingUp, X } from 'lucide-react';
+import { TrendingUp, X, HeartPulse, CloudSun, BarChart3, Scale } from 'lucide-react';
 import { Button } from './ui/button';
-import { GamePrediction } from '../constants/mockData';
+import { GamePrediction, PlayerInjury, TeamMetrics } from '../constants/mockData';
 import { getConfidenceBadgeVariant, formatGameDate } from '../utils/gameUtils';
+import { getWeatherAdjustment } from '../utils/weather';
+import { ContributionWaterfall } from './ContributionWaterfall';
+import { SpreadTotalSection } from './SpreadTotalSection';
 
 interface GameDetailsModalProps {
   game: GamePrediction | null;
@@ -15,6 +18,9 @@ interface GameDetailsModalProps {
 export function GameDetailsModal({ game, isOpen, onClose }: GameDetailsModalProps) {
   if (!game) return null;
 
+  const weather = getWeatherAdjustment(game);
+  const formatAdjustment = (value: number) => value === 0 ? '0' : value.toFixed(1);
+
   const TeamMetricsCard = ({ 
     teamName, 
     teamAbbr, 
@@ -25,13 +31,7 @@ export function GameDetailsModal({ game, isOpen, onClose }: GameDetailsModalProp
     teamName: string;
     teamAbbr: string;
     teamLogo: string;
-    metrics: {
-      teamStrength: number;
-      injuries: number;
-      weather: number;
-      schedule: number;
-      overall: number;
-    };
+    metrics: TeamMetrics;
     winProbability: number;
   }) => (
     <div className="bg-white rounded-lg border p-6 space-y-4">
@@ -64,6 +64,22 @@ export function GameDetailsModal({ game, isOpen, onClose }: GameDetailsModalProp
           <Progress value={metrics.teamStrength} className="h-2" />
         </div>
         
+        <div>
+          <div className="flex justify-between text-sm mb-2">
+            <span className="font-medium">Offensive Power</span>
+            <span className="font-bold">{metrics.offensivePower}/100</span>
+          </div>
+          <Progress value={metrics.offensivePower} className="h-2" />
+        </div>
+        
+        <div>
+          <div className="flex justify-between text-sm mb-2">
+            <span className="font-medium">Defensive Power</span>
+            <span className="font-bold">{metrics.defensivePower}/100</span>
+          </div>
+          <Progress value={metrics.defensivePower} className="h-2" />
+        </div>
+        
         <div>
           <div className="flex justify-between text-sm mb-2">
             <span className="font-medium">Injury Impact</span>
@@ -101,6 +117,30 @@ export function GameDetailsModal({ game, isOpen, onClose }: GameDetailsModalProp
     </div>
   );
 
+  const AbsenceList = ({ teamAbbr, players }: { teamAbbr: string; players: PlayerInjury[] }) => (
+    <div>
+      <div className="font-medium text-base text-slate-900 mb-2">{teamAbbr}</div>
+      {players.length === 0 ? (
+        <p className="text-sm text-slate-500">No key absences</p>
+      ) : (
+        <div className="space-y-2">
+          {players.map(player => (
+            <div key={`${player.player}_${player.position}`} className="flex items-center justify-between text-sm">
+              <div>
+                <span className="font-medium text-slate-900">{player.player}</span>
+                <span className="text-slate-500 ml-2">{player.position}</span>
+                {player.injury && <span className="text-slate-500"> • {player.injury}</span>}
+              </div>
+              <Badge variant={player.status === 'Questionable' ? 'secondary' : 'destructive'} className="text-xs">
+                {player.status}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" aria-describedby="game-details-description">
@@ -155,6 +195,28 @@ export function GameDetailsModal({ game, isOpen, onClose }: GameDetailsModalProp
             )}
           </div>
 
+          {/* Contribution Breakdown */}
+          {game.predictions.breakdown && (
+            <div className="space-y-4 bg-slate-50 rounded-lg p-6">
+              <h4 className="font-medium text-lg text-slate-900 flex items-center">
+                <BarChart3 className="w-5 h-5 mr-2" />
+                Prediction Breakdown
+              </h4>
+              <ContributionWaterfall game={game} />
+            </div>
+          )}
+
+          {/* Spread & Total */}
+          {game.predictions.projectedMargin !== undefined && (
+            <div className="space-y-4 bg-slate-50 rounded-lg p-6">
+              <h4 className="font-medium text-lg text-slate-900 flex items-center">
+                <Scale className="w-5 h-5 mr-2" />
+                Spread & Total
+              </h4>
+              <SpreadTotalSection key={game.id} game={game} />
+            </div>
+          )}
+
           {/* Team-Specific Metrics */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Away Team Metrics */}
@@ -176,6 +238,68 @@ export function GameDetailsModal({ game, isOpen, onClose }: GameDetailsModalProp
             />
           </div>
 
+          {/* Key Absences */}
+          {game.keyAbsences && (
+            <div className="space-y-4 bg-slate-50 rounded-lg p-6">
+              <h4 className="font-medium text-lg text-slate-900 flex items-center">
+                <HeartPulse className="w-5 h-5 mr-2" />
+                Key Absences
+              </h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <AbsenceList teamAbbr={game.awayTeam.abbreviation} players={game.keyAbsences.away} />
+                <AbsenceList teamAbbr={game.homeTeam.abbreviation} players={game.keyAbsences.home} />
+              </div>
+            </div>
+          )}
+
+          {/* Weather */}
+          <div className="space-y-4 bg-slate-50 rounded-lg p-6">
+            <h4 className="font-medium text-lg text-slate-900 flex items-center">
+              <CloudSun className="w-5 h-5 mr-2" />
+              Weather
+            </h4>
+            {weather.stadium && (
+              <div className="text-sm text-slate-600">
+                {weather.stadium.name}, {weather.stadium.city} • {weather.stadium.roof === 'open' ? 'Open air' : weather.stadium.roof === 'dome' ? 'Dome' : 'Retractable roof'} • {weather.stadium.surface === 'grass' ? 'Grass' : 'Turf'} • {weather.stadium.altitude.toLocaleString()} ft
+              </div>
+            )}
+            {weather.indoor ? (
+              <p className="text-sm text-slate-500">Played indoors, so the forecast doesn't adjust either team.</p>
+            ) : game.forecast ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Temperature</span>
+                    <span className="font-medium text-slate-900">{game.forecast.temperature}°F</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Wind</span>
+                    <span className="font-medium text-slate-900">{game.forecast.windSpeed} mph</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Precipitation</span>
+                    <span className="font-medium text-slate-900 capitalize">{game.forecast.precipitation}</span>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">{game.awayTeam.abbreviation} adjustment</span>
+                    <span className="font-medium text-slate-900">{formatAdjustment(weather.away)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">{game.homeTeam.abbreviation} adjustment</span>
+                    <span className="font-medium text-slate-900">{formatAdjustment(weather.home)}</span>
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    Points off each team's weather score, by offensive style and home climate
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500">No forecast imported for this game yet.</p>
+            )}
+          </div>
+
           {/* Overall Game Metrics Summary */}
           <div className="space-y-4 bg-slate-50 rounded-lg p-6">
             <h4 className="font-medium text-lg text-slate-900 mb-4">
@@ -190,7 +314,7 @@ export function GameDetailsModal({ game, isOpen, onClose }: GameDetailsModalProp
                 </div>
                 <Progress value={game.metrics.weather} className="h-3" />
                 <div className="text-sm text-slate-500 mt-1">
-                  Affects both teams equally
+                  Average of both teams' weather scores
                 </div>
               </div>
               
@@ -1,12 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent } from './ui/card';
 import { Button } from './ui/button';
-import { RefreshCw, Grid3X3, List } from 'lucide-react';
+import { RefreshCw, Grid3X3, List, Upload, HeartPulse, CloudSun } from 'lucide-react';
 import { toast } from 'sonner';
 import { GamePredictionsTable } from './GamePredictionsTable';
 import { GameDetailsModal } from './GameDetailsModal';
 import { GameCard } from './GameCard';
-import { mockGames, GamePrediction } from '../constants/mockData';
+import { GameForecast, GameOdds, GamePrediction, InjuryReport } from '../constants/mockData';
+import { predictGames, MetricWeights } from '../utils/predictionEngine';
+import { loadSeasonSchedule, loadWeekSchedule, withTeamRatings } from '../utils/schedule';
+import { getContextWeeks, withScheduleContext } from '../utils/scheduleContext';
+import { getCalibratedThresholds } from '../utils/calibration';
+import { loadWeekOdds, matchOddsToGames, parseOddsFeed, saveWeekOdds, withMarketOdds } from '../utils/odds';
+import { loadInjuryReport, parseInjuryReport, saveInjuryReport, withInjuryReport } from '../utils/injuries';
+import { loadWeekForecasts, parseForecasts, saveWeekForecasts, withForecasts } from '../utils/weather';
 
 interface GamePredictionsProps {
   week: number;
@@ -14,13 +21,21 @@ interface GamePredictionsProps {
   seasonType: number;
   user: any;
   supabase: any;
+  metricWeights?: MetricWeights | null;
+  marketThreshold?: number;
 }
 
-export function GamePredictions({ week, year, seasonType, user, supabase }: GamePredictionsProps) {
-  const [games, setGames] = useState<GamePrediction[]>([]);
+export function GamePredictions({ week, year, seasonType, user, supabase, metricWeights, marketThreshold }: GamePredictionsProps) {
+  const [scheduledGames, setScheduledGames] = useState<GamePrediction[]>([]);
+  const [odds, setOdds] = useState<Record<string, GameOdds>>({});
+  const oddsInput = useRef<HTMLInputElement>(null);
+  const [injuryReport, setInjuryReport] = useState<InjuryReport | null>(null);
+  const injuryInput = useRef<HTMLInputElement>(null);
+  const [forecasts, setForecasts] = useState<Record<string, GameForecast>>({});
+  const forecastInput = useRef<HTMLInputElement>(null);
   const [loading, setLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [selectedGame, setSelectedGame] = useState<GamePrediction | null>(null);
+  const [selectedGameId, setSelectedGameId] = useState<string | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [viewMode, setViewMode] = useState<'table' | 'cards'>('table');
 
@@ -28,30 +43,106 @@ export function GamePredictions({ week, year, seasonType, user, supabase }: Game
     loadGamePredictions();
   }, [week, year, seasonType]);
 
+  // Re-run the prediction engine whenever the user's saved weights change; confidence tiers follow
+  // how well those weights have been calibrated on past seasons
+  const games = useMemo(
+    () => predictGames(
+      withForecasts(withInjuryReport(withMarketOdds(scheduledGames, odds), injuryReport), forecasts),
+      metricWeights,
+      getCalibratedThresholds(metricWeights)
+    ),
+    [scheduledGames, odds, injuryReport, forecasts, metricWeights]
+  );
+  // Looked up by id so the open details follow imports and weight changes
+  const selectedGame = games.find(game => game.id === selectedGameId) ?? null;
+
   const loadGamePredictions = async () => {
     setLoading(true);
     try {
-      // In a real app, you would fetch from your server
-      // Using mock data from the constants file
-      setTimeout(() => {
-        setGames(mockGames);
-        setLastUpdated(new Date());
-        setLoading(false);
-      }, 1000);
+      const contextWeeks = getContextWeeks(week);
+      const [weekGames, earlierWeeks, weekOdds, weekInjuries, weekForecasts] = await Promise.all([
+        loadWeekSchedule(supabase, year, seasonType, week),
+        contextWeeks.length > 0 ? loadSeasonSchedule(supabase, year, seasonType, contextWeeks) : Promise.resolve([]),
+        loadWeekOdds(supabase, year, seasonType, week),
+        loadInjuryReport(supabase, year, seasonType, week),
+        loadWeekForecasts(supabase, year, seasonType, week)
+      ]);
+      // Earlier weeks only supply each team's previous game for rest and travel
+      const [withContext] = withScheduleContext([
+        { year, seasonType, week, games: weekGames },
+        ...earlierWeeks
+      ]);
+      setScheduledGames(withTeamRatings(withContext.games, year, seasonType, week));
+      setOdds(weekOdds);
+      setInjuryReport(weekInjuries);
+      setForecasts(weekForecasts);
+      setLastUpdated(new Date());
     } catch (error) {
       toast.error('Failed to load game predictions');
-      setLoading(false);
     }
+    setLoading(false);
+  };
+
+  // New lines replace earlier ones for the same game; the rest of the week's odds are kept
+  const importOdds = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const lines = parseOddsFeed(await file.text());
+      const matched = matchOddsToGames(lines, scheduledGames, week, file.name);
+      const count = Object.keys(matched.odds).length;
+      if (count === 0) {
+        throw new Error(`No lines in ${file.name} match a Week ${week} game`);
+      }
+
+      await saveWeekOdds(supabase, year, seasonType, week, matched.odds);
+      setOdds({ ...odds, ...matched.odds });
+      toast.success(`Imported odds for ${count} games` +
+        (matched.unmatched.length > 0 ? ` (${matched.unmatched.length} lines matched no game)` : ''));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to import odds');
+    }
+    if (oddsInput.current) oddsInput.current.value = '';
+  };
+
+  const importInjuries = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const report = parseInjuryReport(await file.text(), year, seasonType, week, file.name);
+      await saveInjuryReport(supabase, report);
+      setInjuryReport(report);
+      toast.success(`Imported ${report.players.length} injured players for Week ${week}`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to import injury report');
+    }
+    if (injuryInput.current) injuryInput.current.value = '';
+  };
+
+  const importForecasts = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseForecasts(await file.text(), scheduledGames, week);
+      const count = Object.keys(imported).length;
+      if (count === 0) {
+        throw new Error(`No forecasts in ${file.name} match a Week ${week} game`);
+      }
+
+      await saveWeekForecasts(supabase, year, seasonType, week, imported);
+      setForecasts({ ...forecasts, ...imported });
+      toast.success(`Imported forecasts for ${count} games`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to import forecasts');
+    }
+    if (forecastInput.current) forecastInput.current.value = '';
   };
 
   const handleGameSelect = (game: GamePrediction) => {
-    setSelectedGame(game);
+    setSelectedGameId(game.id);
     setShowDetailModal(true);
   };
 
   const handleCloseModal = () => {
     setShowDetailModal(false);
-    setSelectedGame(null);
+    setSelectedGameId(null);
   };
 
   if (loading) {
@@ -101,6 +192,54 @@ export function GamePredictions({ week, year, seasonType, user, supabase }: Game
             </Button>
           </div>
           
+          <input
+            ref={oddsInput}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => importOdds(e.target.files?.[0])}
+          />
+          <Button
+            onClick={() => oddsInput.current?.click()}
+            variant="outline"
+            className="text-base"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import Odds
+          </Button>
+
+          <input
+            ref={injuryInput}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => importInjuries(e.target.files?.[0])}
+          />
+          <Button
+            onClick={() => injuryInput.current?.click()}
+            variant="outline"
+            className="text-base"
+          >
+            <HeartPulse className="w-4 h-4 mr-2" />
+            Import Injuries
+          </Button>
+
+          <input
+            ref={forecastInput}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => importForecasts(e.target.files?.[0])}
+          />
+          <Button
+            onClick={() => forecastInput.current?.click()}
+            variant="outline"
+            className="text-base"
+          >
+            <CloudSun className="w-4 h-4 mr-2" />
+            Import Forecasts
+          </Button>
+
           <Button 
             onClick={loadGamePredictions}
             variant="outline"
@@ -125,11 +264,12 @@ export function GamePredictions({ week, year, seasonType, user, supabase }: Game
         <GamePredictionsTable 
           games={games} 
           onGameSelect={handleGameSelect}
+          marketThreshold={marketThreshold}
         />
       ) : (
         <div className="grid gap-6">
           {games.map((game) => (
-            <GameCard key={game.id} game={game} />
+            <GameCard key={game.id} game={game} marketThreshold={marketThreshold} />
           ))}
         </div>
       )}
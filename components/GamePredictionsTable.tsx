@@ -2,16 +2,19 @@ import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Progress } from './ui/progress';
-import { TrendingUp, TrendingDown } from 'lucide-react';
+import { TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
 import { GamePrediction } from '../constants/mockData';
 import { getConfidenceBadgeVariant, formatGameDate } from '../utils/gameUtils';
+import { getMarketDisagreement, getMarketProbabilities, isMarketDisagreement } from '../utils/odds';
+import { formatSpread } from '../utils/spreads';
 
 interface GamePredictionsTableProps {
   games: GamePrediction[];
   onGameSelect?: (game: GamePrediction) => void;
+  marketThreshold?: number;
 }
 
-export function GamePredictionsTable({ games, onGameSelect }: GamePredictionsTableProps) {
+export function GamePredictionsTable({ games, onGameSelect, marketThreshold }: GamePredictionsTableProps) {
   const getRecommendationIcon = (recommendation: string, confidence: string) => {
     if (recommendation === 'none') return null;
     
@@ -24,9 +27,28 @@ export function GamePredictionsTable({ games, onGameSelect }: GamePredictionsTab
       <TrendingDown className={`w-4 h-4 ${iconClass}`} />;
   };
 
+  const getMarketLabel = (game: GamePrediction, side: 'away' | 'home') => {
+    const market = getMarketProbabilities(game);
+    return market ? `Mkt ${market[side]}%` : null;
+  };
+
+  // The side the model likes against the imported line, with its chance of covering
+  const getCoverLabel = (game: GamePrediction) => {
+    const home = game.predictions.homeCoverProbability;
+    if (home === undefined || !game.odds || game.odds.spread === null) return null;
+    const team = home >= 50 ? game.homeTeam : game.awayTeam;
+    return `vs ${formatSpread(game, game.odds.spread)}: ${team.abbreviation} ${Math.max(home, 100 - home)}%`;
+  };
+
+  const getOverUnderLabel = (game: GamePrediction) => {
+    const over = game.predictions.overProbability;
+    if (over === undefined || !game.odds || game.odds.total === null) return null;
+    return over >= 50 ? `O ${game.odds.total}: ${over}%` : `U ${game.odds.total}: ${100 - over}%`;
+  };
+
   const formatTime = (gameTime: string) => {
     // Extract time part and convert to simpler format
-    return gameTime.replace(' EST', '').replace(' PST', '').replace(' CST', '').replace(' MST', '');
+    return gameTime.replace(/ [ECMP][SD]T$/, '');
   };
 
   return (
@@ -39,6 +61,8 @@ export function GamePredictionsTable({ games, onGameSelect }: GamePredictionsTab
             <TableHead className="text-base font-medium text-center w-20">@</TableHead>
             <TableHead className="text-base font-medium w-48">Home Team</TableHead>
             <TableHead className="text-base font-medium text-center w-24">Prediction</TableHead>
+            <TableHead className="text-base font-medium text-center w-28">Spread</TableHead>
+            <TableHead className="text-base font-medium text-center w-24">Total</TableHead>
             <TableHead className="text-base font-medium text-center w-32">Confidence</TableHead>
             <TableHead className="text-base font-medium text-center w-28">Overall</TableHead>
             <TableHead className="text-base font-medium text-center w-20">Rec.</TableHead>
@@ -79,6 +103,9 @@ export function GamePredictionsTable({ games, onGameSelect }: GamePredictionsTab
                     <div className="text-lg font-bold text-slate-900">
                       {game.predictions.awayWinProbability}%
                     </div>
+                    <div className="text-xs text-slate-500">
+                      {getMarketLabel(game, 'away')}
+                    </div>
                   </div>
                 </div>
               </TableCell>
@@ -95,6 +122,9 @@ export function GamePredictionsTable({ games, onGameSelect }: GamePredictionsTab
                     <div className="text-lg font-bold text-slate-900">
                       {game.predictions.homeWinProbability}%
                     </div>
+                    <div className="text-xs text-slate-500">
+                      {getMarketLabel(game, 'home')}
+                    </div>
                   </div>
                   <div>
                     <div className="font-medium text-base text-slate-900">
@@ -118,6 +148,40 @@ export function GamePredictionsTable({ games, onGameSelect }: GamePredictionsTab
                 <div className="text-sm text-slate-500">
                   {Math.max(game.predictions.awayWinProbability, game.predictions.homeWinProbability)}%
                 </div>
+                {isMarketDisagreement(game, marketThreshold) && (
+                  <Badge variant="outline" className="mt-1 text-xs border-orange-300 text-orange-700">
+                    <AlertTriangle className="w-3 h-3 mr-1" />
+                    {Math.round(Math.abs(getMarketDisagreement(game)!))} pts off market
+                  </Badge>
+                )}
+              </TableCell>
+
+              {/* Projected Spread */}
+              <TableCell className="text-center py-4">
+                {game.predictions.projectedMargin !== undefined && (
+                  <>
+                    <div className="font-medium text-slate-900">
+                      {formatSpread(game, -game.predictions.projectedMargin)}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {getCoverLabel(game)}
+                    </div>
+                  </>
+                )}
+              </TableCell>
+
+              {/* Projected Total */}
+              <TableCell className="text-center py-4">
+                {game.predictions.projectedTotal !== undefined && (
+                  <>
+                    <div className="font-medium text-slate-900">
+                      {game.predictions.projectedTotal}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {getOverUnderLabel(game)}
+                    </div>
+                  </>
+                )}
               </TableCell>
 
               {/* Confidence */}
@@ -1,33 +1,49 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Slider } from './ui/slider';
 import { Badge } from './ui/badge';
-import { Save, RotateCcw, Info } from 'lucide-react';
+import { Save, RotateCcw, Info, Wand2, Scale } from 'lucide-react';
 import { toast } from 'sonner';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
 import { defaultMetrics, MetricWeight } from '../constants/mockData';
 import { getCategoryColor } from '../utils/gameUtils';
+import { historicalResults } from '../constants/historicalResults';
+import { getHistoricalGames } from '../utils/backtest';
+import { DEFAULT_MARKET_DISAGREEMENT } from '../utils/odds';
+import { BacktestCard } from './BacktestCard';
+import { CalibrationCard } from './CalibrationCard';
+import { WeightFitDialog } from './WeightFitDialog';
 
 interface MetricConfigurationProps {
+  year: number;
+  seasonType: number;
   user: any;
   supabase: any;
   onSettingsUpdate: (settings: any) => void;
 }
 
-export function MetricConfiguration({ user, supabase, onSettingsUpdate }: MetricConfigurationProps) {
+export function MetricConfiguration({ year, seasonType, user, supabase, onSettingsUpdate }: MetricConfigurationProps) {
   const [metrics, setMetrics] = useState<MetricWeight[]>([]);
   const [loading, setLoading] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [fitOpen, setFitOpen] = useState(false);
+  const [marketThreshold, setMarketThreshold] = useState(DEFAULT_MARKET_DISAGREEMENT);
+
+  const historicalGames = useMemo(() => getHistoricalGames(historicalResults), []);
+  const metricWeights = useMemo(() => metrics.reduce((acc, metric) => {
+    acc[metric.id] = metric.weight;
+    return acc;
+  }, {} as Record<string, number>), [metrics]);
 
   useEffect(() => {
     loadUserSettings();
-  }, []);
+  }, [year, seasonType]);
 
   const loadUserSettings = async () => {
     setLoading(true);
     try {
-      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/user-settings`, {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/user-settings?year=${year}&seasonType=${seasonType}`, {
         headers: {
           'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
         }
@@ -35,6 +51,7 @@ export function MetricConfiguration({ user, supabase, onSettingsUpdate }: Metric
 
       if (response.ok) {
         const settings = await response.json();
+        setMarketThreshold(settings.marketDisagreementThreshold ?? DEFAULT_MARKET_DISAGREEMENT);
         if (settings.metricWeights) {
           const updatedMetrics = defaultMetrics.map(metric => ({
             ...metric,
@@ -63,32 +80,33 @@ export function MetricConfiguration({ user, supabase, onSettingsUpdate }: Metric
     setHasChanges(true);
   };
 
+  const handleMarketThresholdChange = (value: number[]) => {
+    setMarketThreshold(value[0]);
+    setHasChanges(true);
+  };
+
   const resetToDefaults = () => {
     setMetrics(defaultMetrics.map(metric => ({ ...metric, weight: metric.defaultWeight })));
+    setMarketThreshold(DEFAULT_MARKET_DISAGREEMENT);
     setHasChanges(true);
   };
 
-  const saveSettings = async () => {
+  const saveSettings = async (weights: Record<string, number> = metricWeights) => {
     setLoading(true);
     try {
-      const metricWeights = metrics.reduce((acc, metric) => {
-        acc[metric.id] = metric.weight;
-        return acc;
-      }, {} as Record<string, number>);
-
       const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/user-settings`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
         },
-        body: JSON.stringify({ metricWeights })
+        body: JSON.stringify({ metricWeights: weights, marketDisagreementThreshold: marketThreshold, year, seasonType })
       });
 
       if (response.ok) {
         toast.success('Settings saved successfully');
         setHasChanges(false);
-        onSettingsUpdate({ metricWeights });
+        onSettingsUpdate({ metricWeights: weights, marketDisagreementThreshold: marketThreshold });
       } else {
         throw new Error('Failed to save settings');
       }
@@ -99,6 +117,12 @@ export function MetricConfiguration({ user, supabase, onSettingsUpdate }: Metric
     setLoading(false);
   };
 
+  const applyFittedWeights = async (weights: Record<string, number>) => {
+    setMetrics(prev => prev.map(metric => ({ ...metric, weight: weights[metric.id] ?? metric.weight })));
+    await saveSettings(weights);
+    setFitOpen(false);
+  };
+
   const getTotalWeight = () => {
     return metrics.reduce((sum, metric) => sum + metric.weight, 0);
   };
@@ -111,7 +135,7 @@ export function MetricConfiguration({ user, supabase, onSettingsUpdate }: Metric
             Metric Configuration
           </h2>
           <p className="text-sm text-slate-500 mt-1">
-            Adjust the importance of different factors in game predictions
+            Adjust the importance of different factors in game predictions. Saved weights are kept with the {year} season.
           </p>
         </div>
         
@@ -123,6 +147,15 @@ export function MetricConfiguration({ user, supabase, onSettingsUpdate }: Metric
             </div>
           </div>
           
+          <Button
+            onClick={() => setFitOpen(true)}
+            variant="outline"
+            className="text-base"
+          >
+            <Wand2 className="w-4 h-4 mr-2" />
+            Fit Weights
+          </Button>
+
           <Button 
             onClick={resetToDefaults}
             variant="outline"
@@ -133,7 +166,7 @@ export function MetricConfiguration({ user, supabase, onSettingsUpdate }: Metric
           </Button>
           
           <Button 
-            onClick={saveSettings}
+            onClick={() => saveSettings()}
             disabled={!hasChanges || loading}
             className="text-base"
           >
@@ -156,59 +189,104 @@ export function MetricConfiguration({ user, supabase, onSettingsUpdate }: Metric
       )}
 
       {/* Metrics Configuration */}
-      <div className="grid gap-6">
-        {metrics.map((metric) => (
-          <Card key={metric.id}>
-            <CardHeader className="pb-4">
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <div className="flex items-center space-x-3 mb-2">
-                    <CardTitle className="text-lg">{metric.name}</CardTitle>
-                    <Badge 
-                      variant="secondary" 
-                      className={`text-xs ${getCategoryColor(metric.category)}`}
-                    >
-                      {metric.category.toUpperCase()}
-                    </Badge>
+      <div className="grid lg:grid-cols-3 gap-6 items-start">
+        <div className="lg:col-span-2 grid gap-6">
+          {metrics.map((metric) => (
+            <Card key={metric.id}>
+              <CardHeader className="pb-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <div className="flex items-center space-x-3 mb-2">
+                      <CardTitle className="text-lg">{metric.name}</CardTitle>
+                      <Badge 
+                        variant="secondary" 
+                        className={`text-xs ${getCategoryColor(metric.category)}`}
+                      >
+                        {metric.category.toUpperCase()}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-slate-600">
+                      {metric.description}
+                    </p>
+                  </div>
+                  <div className="text-right ml-4">
+                    <div className="text-2xl font-bold text-slate-900">
+                      {metric.weight}%
+                    </div>
+                    {metric.weight !== metric.defaultWeight && (
+                      <div className="text-xs text-slate-500">
+                        Default: {metric.defaultWeight}%
+                      </div>
+                    )}
                   </div>
-                  <p className="text-sm text-slate-600">
-                    {metric.description}
-                  </p>
                 </div>
-                <div className="text-right ml-4">
-                  <div className="text-2xl font-bold text-slate-900">
-                    {metric.weight}%
+              </CardHeader>
+            
+              <CardContent className="pt-0">
+                <div className="space-y-3">
+                  <Slider
+                    value={[metric.weight]}
+                    onValueChange={(value) => handleWeightChange(metric.id, value)}
+                    max={50}
+                    min={0}
+                    step={5}
+                    className="w-full"
+                  />
+                  <div className="flex justify-between text-xs text-slate-500">
+                    <span>0%</span>
+                    <span>25%</span>
+                    <span>50%</span>
                   </div>
-                  {metric.weight !== metric.defaultWeight && (
-                    <div className="text-xs text-slate-500">
-                      Default: {metric.defaultWeight}%
-                    </div>
-                  )}
                 </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Market, Backtest & Calibration */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg flex items-center">
+                  <Scale className="w-5 h-5 mr-2" />
+                  Market Disagreement
+                </CardTitle>
+                <span className="text-2xl font-bold text-slate-900">{marketThreshold} pts</span>
               </div>
+              <p className="text-sm text-slate-500">
+                Flag games where our win probability differs from the betting market's by more than this
+              </p>
             </CardHeader>
-            
-            <CardContent className="pt-0">
-              <div className="space-y-3">
-                <Slider
-                  value={[metric.weight]}
-                  onValueChange={(value) => handleWeightChange(metric.id, value)}
-                  max={50}
-                  min={0}
-                  step={5}
-                  className="w-full"
-                />
-                <div className="flex justify-between text-xs text-slate-500">
-                  <span>0%</span>
-                  <span>25%</span>
-                  <span>50%</span>
-                </div>
+            <CardContent className="pt-0 space-y-3">
+              <Slider
+                value={[marketThreshold]}
+                onValueChange={handleMarketThresholdChange}
+                max={25}
+                min={1}
+                step={1}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-slate-500">
+                <span>1</span>
+                <span>25</span>
               </div>
             </CardContent>
           </Card>
-        ))}
+
+          <BacktestCard games={historicalGames} weights={metricWeights} />
+          <CalibrationCard weights={metricWeights} />
+        </div>
       </div>
 
+      <WeightFitDialog
+        open={fitOpen}
+        onOpenChange={setFitOpen}
+        currentWeights={metricWeights}
+        onApply={applyFittedWeights}
+        saving={loading}
+      />
+
       {/* Help Section */}
       <Card className="bg-slate-50">
         <CardHeader>
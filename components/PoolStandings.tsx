@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Medal } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { Pool, PoolStanding } from '../constants/mockData';
+import { getSurvivorRules } from '../utils/survivorRules';
+
+interface PoolStandingsProps {
+  pool: Pool;
+  week: number;
+  year: number;
+  seasonType: number;
+  supabase: any;
+}
+
+export function PoolStandings({ pool, week, year, seasonType, supabase }: PoolStandingsProps) {
+  const [standings, setStandings] = useState<PoolStanding[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadStandings();
+  }, [pool.id, week, year, seasonType]);
+
+  const loadStandings = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/pools/${pool.id}/standings?year=${year}&seasonType=${seasonType}`, {
+        headers: {
+          'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+        }
+      });
+
+      if (response.ok) {
+        setStandings(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading pool standings:', error);
+    }
+    setLoading(false);
+  };
+
+  const aliveCount = standings.filter(standing => !standing.isEliminated).length;
+  const rules = getSurvivorRules(pool);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Medal className="w-5 h-5 mr-2" />
+            {pool.name} Standings • {year}
+          </CardTitle>
+          <div className="text-sm text-slate-500">
+            {aliveCount} of {standings.length} entries still alive
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-base text-slate-500 text-center py-6">Loading standings...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-slate-50">
+                <TableHead className="text-base font-medium">Player</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Record</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Picks</TableHead>
+                <TableHead className="text-base font-medium text-center w-40">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {standings.map(standing => (
+                <TableRow key={`${standing.userId}_${standing.entryId}`}>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-base text-slate-900">{standing.name}</span>
+                      <span className="text-sm text-slate-500">{standing.entryName}</span>
+                      {standing.isCommissioner && (
+                        <Badge variant="outline" className="text-xs">Commissioner</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-center font-medium">
+                    {standing.wins}-{standing.losses}
+                  </TableCell>
+                  <TableCell className="text-center text-slate-500">
+                    {standing.picksMade}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {standing.isEliminated ? (
+                      <Badge variant="destructive">Out Week {standing.eliminatedWeek}</Badge>
+                    ) : (
+                      <Badge variant="default">
+                        {rules.lives > 1 || standing.buybacks ? `Alive • ${standing.livesRemaining} left` : 'Alive'}
+                      </Badge>
+                    )}
+                    {!!standing.buybacks && (
+                      <div className="text-xs text-slate-500 mt-1">
+                        {standing.buybacks} buyback{standing.buybacks === 1 ? '' : 's'}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
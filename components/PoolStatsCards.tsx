@@ -1,21 +1,29 @@
 import { Card, CardContent } from './ui/card';
-import { Trophy, Target, CheckCircle, XCircle } from 'lucide-react';
+import { Trophy, Target, CheckCircle, XCircle, Heart } from 'lucide-react';
+import { PoolType } from '../constants/mockData';
 
 interface PoolStatsCardsProps {
   wins: number;
+  losses: number;
   currentWeek: number;
   teamsAvailable: number;
   isEliminated: boolean;
+  eliminatedWeek: number | null;
+  // In a loser pool the record counts picks whose team lost as correct
+  poolType?: PoolType;
+  // Pools with strikes or buybacks show how many losses the entry can still take
+  lives?: number;
+  livesRemaining?: number;
 }
 
-export function PoolStatsCards({ wins, currentWeek, teamsAvailable, isEliminated }: PoolStatsCardsProps) {
+export function PoolStatsCards({ wins, losses, currentWeek, teamsAvailable, isEliminated, eliminatedWeek, poolType = 'survivor', lives = 1, livesRemaining }: PoolStatsCardsProps) {
   return (
     <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
       <Card>
         <CardContent className="p-6 text-center">
           <Trophy className="w-8 h-8 mx-auto mb-2 text-yellow-500" />
-          <div className="text-2xl font-bold text-slate-900">{wins}</div>
-          <div className="text-sm text-slate-500">Wins</div>
+          <div className="text-2xl font-bold text-slate-900">{wins}-{losses}</div>
+          <div className="text-sm text-slate-500">{poolType === 'loser' ? 'Correct-Wrong Picks' : 'Record'}</div>
         </CardContent>
       </Card>
       
@@ -23,7 +31,7 @@ export function PoolStatsCards({ wins, currentWeek, teamsAvailable, isEliminated
         <CardContent className="p-6 text-center">
           <Target className="w-8 h-8 mx-auto mb-2 text-blue-500" />
           <div className="text-2xl font-bold text-slate-900">{currentWeek}</div>
-          <div className="text-sm text-slate-500">Current Week</div>
+          <div className="text-sm text-slate-500">{poolType === 'loser' ? 'Current Week • Pick to Lose' : 'Current Week'}</div>
         </CardContent>
       </Card>
       
@@ -41,11 +49,21 @@ export function PoolStatsCards({ wins, currentWeek, teamsAvailable, isEliminated
             <>
               <XCircle className="w-8 h-8 mx-auto mb-2 text-red-500" />
               <div className="text-lg font-bold text-red-600">Eliminated</div>
+              {eliminatedWeek !== null && (
+                <div className="text-sm text-slate-500">Week {eliminatedWeek}</div>
+              )}
             </>
           ) : (
             <>
-              <CheckCircle className="w-8 h-8 mx-auto mb-2 text-green-500" />
+              {lives > 1 ? (
+                <Heart className="w-8 h-8 mx-auto mb-2 text-green-500" />
+              ) : (
+                <CheckCircle className="w-8 h-8 mx-auto mb-2 text-green-500" />
+              )}
               <div className="text-lg font-bold text-green-600">Active</div>
+              {lives > 1 && livesRemaining !== undefined && (
+                <div className="text-sm text-slate-500">{livesRemaining} of {lives} lives left</div>
+              )}
             </>
           )}
         </CardContent>
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Users, Plus, LogIn, Link } from 'lucide-react';
+import { toast } from 'sonner';
+import { projectId } from '../utils/supabase/info';
+import { Pool } from '../constants/mockData';
+
+interface PoolSwitcherProps {
+  user: any;
+  supabase: any;
+  selectedPool: Pool | null;
+  onPoolChange: (pool: Pool | null) => void;
+  inviteCode?: string | null;
+  onInviteHandled?: () => void;
+}
+
+const PERSONAL_POOL = 'personal';
+
+export function PoolSwitcher({ user, supabase, selectedPool, onPoolChange, inviteCode, onInviteHandled }: PoolSwitcherProps) {
+  const [pools, setPools] = useState<Pool[]>([]);
+  const [dialog, setDialog] = useState<'create' | 'join' | null>(null);
+  const [poolName, setPoolName] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadPools();
+  }, []);
+
+  useEffect(() => {
+    if (inviteCode) {
+      joinPool(inviteCode).then(() => onInviteHandled?.());
+    }
+  }, [inviteCode]);
+
+  const getAccessToken = () => supabase.auth.getSession().then((s: any) => s.data.session?.access_token);
+
+  const loadPools = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/pools`, {
+        headers: {
+          'Authorization': `Bearer ${await getAccessToken()}`
+        }
+      });
+
+      if (response.ok) {
+        setPools(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading pools:', error);
+    }
+  };
+
+  const createPool = async () => {
+    if (!poolName.trim()) {
+      toast.error('Please enter a pool name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/pools`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await getAccessToken()}`
+        },
+        body: JSON.stringify({ name: poolName })
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      const pool = await response.json();
+      setPools(prev => [...prev, pool]);
+      onPoolChange(pool);
+      setDialog(null);
+      setPoolName('');
+      toast.success(`Created ${pool.name}. Share code ${pool.joinCode} to invite players.`);
+    } catch (error) {
+      console.error('Error creating pool:', error);
+      toast.error('Failed to create pool');
+    }
+    setSaving(false);
+  };
+
+  const joinPool = async (code: string) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/pools/join`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await getAccessToken()}`
+        },
+        body: JSON.stringify({ joinCode: code })
+      });
+
+      if (!response.ok) {
+        toast.error(await response.text());
+        setSaving(false);
+        return;
+      }
+
+      const pool = await response.json();
+      setPools(prev => [...prev.filter(p => p.id !== pool.id), pool]);
+      onPoolChange(pool);
+      setDialog(null);
+      setJoinCode('');
+      toast.success(`Joined ${pool.name}`);
+    } catch (error) {
+      console.error('Error joining pool:', error);
+      toast.error('Failed to join pool');
+    }
+    setSaving(false);
+  };
+
+  const copyInviteLink = async () => {
+    if (!selectedPool) return;
+    const link = `${window.location.origin}${window.location.pathname}?join=${selectedPool.joinCode}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Invite link copied');
+    } catch (error) {
+      toast.error(`Copy failed. Join code: ${selectedPool.joinCode}`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="flex items-center justify-between p-4">
+        <div className="flex items-center space-x-4">
+          <Users className="w-5 h-5 text-slate-500" />
+          <Select
+            value={selectedPool?.id ?? PERSONAL_POOL}
+            onValueChange={(value) => onPoolChange(pools.find(pool => pool.id === value) ?? null)}
+          >
+            <SelectTrigger className="w-64 text-base h-10">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={PERSONAL_POOL}>Personal Picks</SelectItem>
+              {pools.map(pool => (
+                <SelectItem key={pool.id} value={pool.id}>
+                  {pool.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {selectedPool && (
+            <div className="flex items-center space-x-2">
+              <Badge variant="secondary">{selectedPool.members.length} players</Badge>
+              {selectedPool.commissionerId === user.id && (
+                <Badge variant="default">COMMISSIONER</Badge>
+              )}
+              <span className="text-sm text-slate-500">Code: {selectedPool.joinCode}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {selectedPool && (
+            <Button variant="outline" size="sm" onClick={copyInviteLink}>
+              <Link className="w-4 h-4 mr-2" />
+              Invite Link
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={() => setDialog('join')}>
+            <LogIn className="w-4 h-4 mr-2" />
+            Join Pool
+          </Button>
+          <Button size="sm" onClick={() => setDialog('create')}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Pool
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent aria-describedby="pool-dialog-description">
+          <DialogHeader>
+            <DialogTitle>{dialog === 'create' ? 'Create a Pool' : 'Join a Pool'}</DialogTitle>
+            <DialogDescription id="pool-dialog-description">
+              {dialog === 'create'
+                ? 'You will be the commissioner and can invite players with a join code.'
+                : 'Enter the join code your commissioner shared with you.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {dialog === 'create' ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="pool-name">Pool Name</Label>
+                <Input
+                  id="pool-name"
+                  value={poolName}
+                  onChange={(e) => setPoolName(e.target.value)}
+                  placeholder="Office Survivor 2025"
+                />
+              </div>
+              <Button onClick={createPool} disabled={saving} className="w-full">
+                Create Pool
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="join-code">Join Code</Label>
+                <Input
+                  id="join-code"
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                  placeholder="ABC123"
+                />
+              </div>
+              <Button onClick={() => joinPool(joinCode)} disabled={saving || !joinCode} className="w-full">
+                Join Pool
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { GamePrediction } from '../constants/mockData';
+import { formatSpread, getHomeCoverProbability, getOverProbability } from '../utils/spreads';
+
+interface SpreadTotalSectionProps {
+  game: GamePrediction;
+}
+
+// Lines start at the imported odds; pools often grade against their own, so either can be overridden
+export function SpreadTotalSection({ game }: SpreadTotalSectionProps) {
+  const [spreadInput, setSpreadInput] = useState(game.odds?.spread?.toString() ?? '');
+  const [totalInput, setTotalInput] = useState(game.odds?.total?.toString() ?? '');
+
+  const { projectedMargin, projectedTotal } = game.predictions;
+  if (projectedMargin === undefined || projectedTotal === undefined) return null;
+
+  const spread = spreadInput.trim() === '' ? NaN : Number(spreadInput);
+  const total = totalInput.trim() === '' ? NaN : Number(totalInput);
+  const homeCover = isNaN(spread) ? null : Math.round(getHomeCoverProbability(projectedMargin, spread) * 100);
+  const over = isNaN(total) ? null : Math.round(getOverProbability(projectedTotal, total) * 100);
+
+  const favorite = projectedMargin >= 0 ? game.homeTeam : game.awayTeam;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+      <div className="space-y-3">
+        <div className="flex justify-between">
+          <span className="text-slate-600">Projected margin</span>
+          <span className="font-medium text-slate-900">
+            {projectedMargin === 0 ? 'Even' : `${favorite.abbreviation} by ${Math.abs(projectedMargin)}`}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-600">Model line</span>
+          <span className="font-medium text-slate-900">{formatSpread(game, -projectedMargin)}</span>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="spread-line" className="text-slate-600">{game.homeTeam.abbreviation} line</Label>
+          <Input
+            id="spread-line"
+            type="number"
+            step="0.5"
+            value={spreadInput}
+            onChange={(e) => setSpreadInput(e.target.value)}
+            placeholder="e.g. -3.5"
+          />
+        </div>
+        {homeCover !== null && (
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <span className="text-slate-600">{game.awayTeam.abbreviation} covers</span>
+              <span className="font-medium text-slate-900">{100 - homeCover}%</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-600">{game.homeTeam.abbreviation} covers</span>
+              <span className="font-medium text-slate-900">{homeCover}%</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex justify-between">
+          <span className="text-slate-600">Projected total</span>
+          <span className="font-medium text-slate-900">{projectedTotal}</span>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="total-line" className="text-slate-600">Over/under line</Label>
+          <Input
+            id="total-line"
+            type="number"
+            step="0.5"
+            value={totalInput}
+            onChange={(e) => setTotalInput(e.target.value)}
+            placeholder="e.g. 45.5"
+          />
+        </div>
+        {over !== null && (
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <span className="text-slate-600">Over</span>
+              <span className="font-medium text-slate-900">{over}%</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-600">Under</span>
+              <span className="font-medium text-slate-900">{100 - over}%</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,52 +1,223 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Alert, AlertDescription } from './ui/alert';
-import { Target, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { Target, CheckCircle, XCircle, AlertTriangle, Clock, Lock, Plus, Upload, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
 import { PoolStatsCards } from './PoolStatsCards';
 import { TeamRecommendationCard } from './TeamRecommendationCard';
-import { 
-  mockRecommendations, 
-  mockPicks, 
-  PoolPick, 
-  TeamRecommendation 
-} from '../constants/mockData';
+import { SurvivorPlanCard } from './SurvivorPlanCard';
+import { SurvivalCurveCard } from './SurvivalCurveCard';
+import { EntryPortfolioCard } from './EntryPortfolioCard';
+import { SurvivorRulesCard } from './SurvivorRulesCard';
+import { PickPopularity, Pool, PoolPick, SurvivorEntry } from '../constants/mockData';
+import { projectId } from '../utils/supabase/info';
+import { predictGames, MetricWeights } from '../utils/predictionEngine';
+import { buildSurvivorWeek, optimizeSurvivorPath, rankWeekRecommendations } from '../utils/survivorOptimizer';
+import { buildEntryPortfolio } from '../utils/entryPortfolio';
+import { getCalibratedThresholds } from '../utils/calibration';
+import { parsePopularityCsv } from '../utils/pickPopularity';
+import { runSeasonSimulation, SeasonSimulation } from '../utils/seasonSimulation';
+import { isScheduleAvailable, loadSeasonSchedule, withTeamRatings } from '../utils/schedule';
+import { WeekSchedule } from '../utils/scheduleIngestion';
+import { getContextWeeks, withScheduleContext } from '../utils/scheduleContext';
+import { getMaxWeeks } from '../utils/gameUtils';
+import { formatCountdown, getKickoffTime, isLocked } from '../utils/pickLocks';
+import {
+  buyBackEntry,
+  getBuybackError,
+  getEntryLives,
+  getPicksRequired,
+  getResultLabel,
+  getSurvivorRules,
+  getUsedTeams
+} from '../utils/survivorRules';
+
+// Matches the server's default entry so single-entry users never notice entries exist
+const MAIN_ENTRY_ID = 'main';
 
 interface SuicidePoolTrackerProps {
   week: number;
   year: number;
+  seasonType: number;
   user: any;
   supabase: any;
+  metricWeights?: MetricWeights | null;
+  pool?: Pool | null;
+  onPoolUpdate?: (pool: Pool) => void;
 }
 
-export function SuicidePoolTracker({ week, year, user, supabase }: SuicidePoolTrackerProps) {
-  const [picks, setPicks] = useState<PoolPick[]>([]);
-  const [recommendations, setRecommendations] = useState<TeamRecommendation[]>([]);
+export function SuicidePoolTracker({ week, year, seasonType, user, supabase, metricWeights, pool, onPoolUpdate }: SuicidePoolTrackerProps) {
+  const poolId = pool?.id;
+  const [entries, setEntries] = useState<SurvivorEntry[]>([]);
+  const [selectedEntryId, setSelectedEntryId] = useState(MAIN_ENTRY_ID);
+  const [remainingSchedule, setRemainingSchedule] = useState<WeekSchedule[]>([]);
   const [selectedPick, setSelectedPick] = useState<string>('');
   const [loading, setLoading] = useState(false);
-  const [isEliminated, setIsEliminated] = useState(false);
+  // The team whose pick is being swapped out, if any
+  const [changingTeam, setChangingTeam] = useState<string | null>(null);
+  const [now, setNow] = useState(new Date());
+  const [popularity, setPopularity] = useState<PickPopularity | null>(null);
+  const popularityInput = useRef<HTMLInputElement>(null);
+  const [simulation, setSimulation] = useState<SeasonSimulation | null>(null);
+  const [simulating, setSimulating] = useState(false);
 
   useEffect(() => {
     loadPoolData();
-  }, [week, year]);
+    setChangingTeam(null);
+  }, [week, year, seasonType, poolId]);
+
+  // Keep lock countdowns current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const selectedEntry = entries.find(entry => entry.id === selectedEntryId) ?? entries[0];
+  const picks = selectedEntry?.picks ?? [];
+  const status = selectedEntry?.status ?? null;
+  const rules = getSurvivorRules(pool);
+  const requiredPicks = getPicksRequired(rules, week);
+  const weekPicks = picks.filter(pick => pick.week === week && !pick.missed);
+
+  // This week's picks stay swappable until kickoff, so only other weeks count as used
+  const usedTeams = getUsedTeams(picks, week, rules);
+
+  // Predictions for every remaining week with a published schedule.
+  // Future weeks are rated with today's Elo since their results aren't known yet.
+  const predictedWeeks = useMemo(
+    () => remainingSchedule.map(schedule => ({
+      week: schedule.week,
+      games: predictGames(withTeamRatings(schedule.games, year, seasonType, week), metricWeights, getCalibratedThresholds(metricWeights))
+    })),
+    [remainingSchedule, metricWeights, year, seasonType, week]
+  );
+
+  const survivorWeeks = useMemo(
+    () => predictedWeeks.map(predicted => buildSurvivorWeek(predicted.week, predicted.games, rules.poolType)),
+    [predictedWeeks, rules.poolType]
+  );
+
+  const recommendations = useMemo(
+    () => rankWeekRecommendations(survivorWeeks, usedTeams, week, popularity, rules),
+    [survivorWeeks, picks, week, popularity, rules.teamReuseFromWeek, rules.picksPerWeek]
+  );
+
+  const seasonPlan = useMemo(
+    () => optimizeSurvivorPath(survivorWeeks.filter(w => w.week >= week), usedTeams, rules, week),
+    [survivorWeeks, picks, week, rules.teamReuseFromWeek, rules.picksPerWeek]
+  );
+
+  // The survival curve follows this week's actual picks (with the plan filling any still to make), then the
+  // season plan for the weeks after it.
+  // The simulation only follows teams that have to win, so a loser pool's picks are handed over as their opponents.
+  const survivalPlan = useMemo(() => {
+    const planned = seasonPlan.picks.map(pick => ({ week: pick.week, team: pick.team }));
+    const unpicked = planned.filter(pick => !weekPicks.some(weekPick => weekPick.team === pick.team));
+    const plan = weekPicks.length === 0 ? planned : [
+      ...weekPicks.map(pick => ({ week, team: pick.team })),
+      ...unpicked.filter(pick => pick.week === week).slice(0, Math.max(0, requiredPicks - weekPicks.length)),
+      ...unpicked.filter(pick => pick.week > week)
+    ];
+    if (rules.poolType !== 'loser') return plan;
+
+    return plan.map(pick => {
+      const game = predictedWeeks
+        .find(predicted => predicted.week === pick.week)?.games
+        .find(g => g.awayTeam.abbreviation === pick.team || g.homeTeam.abbreviation === pick.team);
+      if (!game) return pick;
+      return { week: pick.week, team: game.awayTeam.abbreviation === pick.team ? game.homeTeam.abbreviation : game.awayTeam.abbreviation };
+    });
+  }, [seasonPlan, picks, week, requiredPicks, predictedWeeks, rules.poolType]);
+  const survivalPlanKey = JSON.stringify(survivalPlan);
+
+  useEffect(() => {
+    if (status?.isEliminated || survivalPlan.length === 0) {
+      setSimulation(null);
+      return;
+    }
+
+    setSimulating(true);
+    runSeasonSimulation(supabase, predictedWeeks, survivalPlan)
+      .then(setSimulation)
+      .finally(() => setSimulating(false));
+  }, [predictedWeeks, survivalPlanKey, status?.isEliminated]);
+
+  // With several live entries, spread them across teams instead of stacking the single best pick
+  const portfolio = useMemo(() => {
+    const liveEntries = entries.filter(entry => !entry.status.isEliminated);
+    if (liveEntries.length < 2) return null;
+
+    return buildEntryPortfolio(
+      survivorWeeks,
+      liveEntries.map(entry => ({
+        id: entry.id,
+        name: entry.name,
+        usedTeams: getUsedTeams(entry.picks, week, rules),
+        currentPicks: entry.picks.filter(pick => pick.week === week && !pick.missed).map(pick => pick.team)
+      })),
+      week,
+      rec => !isLocked(rec.kickoff, now),
+      rules
+    );
+  }, [survivorWeeks, entries, week, now, rules.teamReuseFromWeek, rules.picksPerWeek]);
 
   const loadPoolData = async () => {
     setLoading(true);
     try {
-      // In a real app, fetch from your server
-      setTimeout(() => {
-        setPicks(mockPicks);
-        setRecommendations(mockRecommendations);
-        setIsEliminated(false);
-        setLoading(false);
-      }, 800);
+      const remainingWeeks = Array.from(
+        { length: Math.max(0, getMaxWeeks(seasonType) - week + 1) },
+        (_, i) => week + i
+      );
+      // Earlier weeks are only loaded to find each team's previous game for rest and travel
+      const schedules = await loadSeasonSchedule(supabase, year, seasonType, [...getContextWeeks(week), ...remainingWeeks]);
+      setRemainingSchedule(withScheduleContext(schedules).filter(schedule => schedule.week >= week));
+
+      const poolQuery = poolId ? `&poolId=${poolId}` : '';
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/suicide-pool-entries?year=${year}&seasonType=${seasonType}${poolQuery}`, {
+        headers: {
+          'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load suicide pool data');
+      }
+
+      const loadedEntries: SurvivorEntry[] = await response.json();
+      setPopularity(poolId ? await loadPoolPopularity() : null);
+      setEntries(loadedEntries);
+      if (!loadedEntries.some(entry => entry.id === selectedEntryId)) {
+        setSelectedEntryId(loadedEntries[0]?.id ?? MAIN_ENTRY_ID);
+      }
     } catch (error) {
+      console.error('Error loading suicide pool data:', error);
       toast.error('Failed to load suicide pool data');
-      setLoading(false);
     }
+    setLoading(false);
+  };
+
+  const loadPoolPopularity = async (): Promise<PickPopularity | null> => {
+    const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/pools/${poolId}/popularity?year=${year}&seasonType=${seasonType}&week=${week}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+    return response.ok ? await response.json() : null;
+  };
+
+  const importPopularity = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parsePopularityCsv(await file.text(), week);
+      setPopularity(imported);
+      toast.success(`Imported pick popularity for ${Object.keys(imported.shares).length} teams`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to import pick popularity');
+    }
+    if (popularityInput.current) popularityInput.current.value = '';
   };
 
   const submitPick = async () => {
@@ -54,11 +225,14 @@ export function SuicidePoolTracker({ week, year, user, supabase }: SuicidePoolTr
       toast.error('Please select a team');
       return;
     }
+    const selectedRecommendation = recommendations.find(r => r.team === selectedPick);
+    if (!selectedRecommendation) return;
 
     setLoading(true);
     try {
-      const selectedRecommendation = recommendations.find(r => r.team === selectedPick);
-      if (!selectedRecommendation) return;
+      const game = remainingSchedule
+        .find(schedule => schedule.week === week)?.games
+        .find(g => g.awayTeam.abbreviation === selectedPick || g.homeTeam.abbreviation === selectedPick);
 
       const newPick: PoolPick = {
         id: Date.now().toString(),
@@ -67,30 +241,107 @@ export function SuicidePoolTracker({ week, year, user, supabase }: SuicidePoolTr
         teamName: selectedRecommendation.teamName,
         confidence: selectedRecommendation.winProbability,
         result: 'pending',
-        gameDate: new Date().toISOString().split('T')[0]
+        gameDate: game?.gameDate ?? new Date().toISOString().split('T')[0],
+        year,
+        seasonType
       };
 
-      setPicks(prev => [...prev, newPick]);
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/suicide-pool-pick`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+        },
+        body: JSON.stringify({ ...newPick, poolId, entryId: selectedEntry?.id, replaceTeam: changingTeam ?? undefined })
+      });
+
+      if (!response.ok) {
+        toast.error(await response.text());
+        return;
+      }
+
+      // Mirrors the server: a named team is swapped out, otherwise a one-pick week's pick is replaced
+      const replaced = changingTeam
+        ? weekPicks.find(pick => pick.team === changingTeam)
+        : requiredPicks === 1 ? weekPicks[0] : undefined;
+      setEntries(prev => prev.map(entry => entry.id === selectedEntry?.id
+        ? { ...entry, picks: [...entry.picks.filter(pick => pick !== replaced), newPick].sort((a, b) => a.week - b.week) }
+        : entry
+      ));
       setSelectedPick('');
+      setChangingTeam(null);
       toast.success(`Pick submitted: ${selectedRecommendation.teamName}`);
     } catch (error) {
       toast.error('Failed to submit pick');
+    } finally {
+      setLoading(false);
     }
-    setLoading(false);
   };
 
-  const getUsedTeams = () => picks.map(pick => pick.team);
-  const getCurrentWeekPick = () => picks.find(pick => pick.week === week);
+  const addEntry = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-c6567478/suicide-pool-entries`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+        },
+        body: JSON.stringify({ poolId, year, seasonType, name: `Entry ${entries.length + 1}` })
+      });
+
+      if (!response.ok) {
+        toast.error(await response.text());
+        return;
+      }
+
+      const entry = await response.json();
+      setEntries(prev => [...prev, { ...entry, picks: [], status: { wins: 0, losses: 0, isEliminated: false, eliminatedWeek: null } }]);
+      setSelectedEntryId(entry.id);
+      toast.success(`Added ${entry.name}`);
+    } catch (error) {
+      toast.error('Failed to add entry');
+    }
+  };
+
+  const buyBack = async () => {
+    if (!poolId || !selectedEntry) return;
+    try {
+      const updated = await buyBackEntry(supabase, poolId, selectedEntry.id, year, seasonType);
+      setEntries(prev => prev.map(entry => entry.id === updated.id ? updated : entry));
+      toast.success(`${updated.name} is back in`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to buy back entry');
+    }
+  };
+
+  const selectEntry = (entryId: string, team = '') => {
+    setSelectedEntryId(entryId);
+    setSelectedPick(team);
+    setChangingTeam(null);
+  };
+
   const getRecord = () => {
-    const wins = picks.filter(pick => pick.result === 'win').length;
-    const losses = picks.filter(pick => pick.result === 'loss').length;
+    const wins = status?.wins ?? picks.filter(pick => pick.result === 'win').length;
+    const losses = status?.losses ?? picks.filter(pick => pick.result === 'loss').length;
     return { wins, losses, total: picks.length };
   };
 
+  const getPickKickoff = (pick: PoolPick) => {
+    const game = remainingSchedule
+      .find(schedule => schedule.week === week)?.games
+      .find(g => g.awayTeam.abbreviation === pick.team || g.homeTeam.abbreviation === pick.team);
+    return game ? getKickoffTime(game) : null;
+  };
+
   const record = getRecord();
-  const currentPick = getCurrentWeekPick();
-  const usedTeams = getUsedTeams();
-  const availableRecommendations = recommendations.filter(r => !usedTeams.includes(r.team));
+  const lives = getEntryLives(rules, selectedEntry);
+  const scheduleAvailable = isScheduleAvailable(remainingSchedule, week);
+  const canPick = scheduleAvailable && !status?.isEliminated && (weekPicks.length < requiredPicks || changingTeam !== null);
+  const buybackError = selectedEntry && poolId ? getBuybackError(rules, selectedEntry) : null;
+  // Teams already picked this week can't be picked twice, except the one being swapped out
+  const pickableRecommendations = recommendations.filter(rec =>
+    !weekPicks.some(pick => pick.team === rec.team && pick.team !== changingTeam)
+  );
 
   if (loading) {
     return (
@@ -103,43 +354,134 @@ export function SuicidePoolTracker({ week, year, user, supabase }: SuicidePoolTr
 
   return (
     <div className="space-y-6">
+      {/* Entry Selector */}
+      <Card>
+        <CardContent className="flex items-center justify-between p-4">
+          <Select value={selectedEntry?.id ?? MAIN_ENTRY_ID} onValueChange={(value) => selectEntry(value)}>
+            <SelectTrigger className="w-64 text-base h-10">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {entries.map(entry => (
+                <SelectItem key={entry.id} value={entry.id}>
+                  {entry.name} ({entry.status.wins}-{entry.status.losses}{entry.status.isEliminated ? ', out' : ''})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={addEntry}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Entry
+          </Button>
+        </CardContent>
+      </Card>
+
+      {pool && (
+        <SurvivorRulesCard
+          pool={pool}
+          user={user}
+          supabase={supabase}
+          seasonType={seasonType}
+          onPoolUpdate={onPoolUpdate}
+        />
+      )}
+
       {/* Header Stats */}
-      <PoolStatsCards 
-        wins={record.wins}
-        currentWeek={week}
-        teamsAvailable={32 - usedTeams.length}
-        isEliminated={isEliminated}
-      />
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2">
+          <PoolStatsCards 
+            wins={record.wins}
+            losses={record.losses}
+            currentWeek={week}
+            teamsAvailable={32 - usedTeams.length - weekPicks.length}
+            isEliminated={!!status?.isEliminated}
+            eliminatedWeek={status?.eliminatedWeek ?? null}
+            poolType={rules.poolType}
+            lives={lives}
+            livesRemaining={status?.livesRemaining ?? Math.max(0, lives - record.losses)}
+          />
+        </div>
+        <SurvivalCurveCard simulation={simulation} loading={simulating} />
+      </div>
 
-      {/* Current Week Pick */}
+      {/* Current Week Picks */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center">
             <Target className="w-5 h-5 mr-2" />
-            Week {week} Pick
+            {requiredPicks > 1 ? `Week ${week} Picks (${weekPicks.length} of ${requiredPicks})` : `Week ${week} Pick`}
           </CardTitle>
         </CardHeader>
-        <CardContent>
-          {currentPick ? (
-            <div className="flex items-center justify-between p-4 bg-blue-50 rounded-lg border border-blue-200">
-              <div>
-                <div className="font-medium text-base text-slate-900">
-                  {currentPick.teamName}
+        <CardContent className="space-y-4">
+          {weekPicks.map(pick => {
+            const kickoff = getPickKickoff(pick);
+            const pickLocked = isLocked(kickoff, now);
+            return (
+              <div
+                key={pick.id}
+                className={`flex items-center justify-between p-4 rounded-lg border ${pick.team === changingTeam ? 'bg-slate-50 border-slate-200 opacity-60' : 'bg-blue-50 border-blue-200'}`}
+              >
+                <div>
+                  <div className="font-medium text-base text-slate-900">
+                    {pick.teamName}
+                  </div>
+                  <div className="text-sm text-slate-500">
+                    {rules.poolType === 'loser' ? 'Chance to lose' : 'Confidence'}: {pick.confidence}% • {pick.result || 'Pending'}
+                  </div>
+                  <div className="flex items-center text-sm text-slate-500 mt-1">
+                    {pickLocked ? <Lock className="w-3 h-3 mr-1" /> : <Clock className="w-3 h-3 mr-1" />}
+                    {formatCountdown(kickoff, now)}
+                  </div>
                 </div>
-                <div className="text-sm text-slate-500">
-                  Confidence: {currentPick.confidence}% • {currentPick.result || 'Pending'}
+                <div className="flex items-center space-x-3">
+                  {scheduleAvailable && !pickLocked && pick.result === 'pending' && changingTeam === null && !status?.isEliminated && (
+                    <Button variant="outline" size="sm" onClick={() => setChangingTeam(pick.team)}>
+                      Change Pick
+                    </Button>
+                  )}
+                  <Badge variant={pick.result === 'win' ? 'default' : pick.result === 'loss' ? 'destructive' : 'secondary'}>
+                    {getResultLabel(pick.result, rules.poolType)}
+                  </Badge>
                 </div>
               </div>
-              <Badge variant={currentPick.result === 'win' ? 'default' : currentPick.result === 'loss' ? 'destructive' : 'secondary'}>
-                {currentPick.result || 'PENDING'}
-              </Badge>
-            </div>
-          ) : (
+            );
+          })}
+
+          {status?.isEliminated ? (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertDescription className="flex items-center justify-between text-base">
+                <span>
+                  {selectedEntry?.name} was eliminated in Week {status.eliminatedWeek}.
+                  {buybackError ? ' No further picks can be made.' : ` Buybacks are open through Week ${rules.buyback?.untilWeek}.`}
+                </span>
+                {!buybackError && (
+                  <Button variant="outline" size="sm" onClick={buyBack}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Buy Back In{rules.buyback?.cost ? ` ($${rules.buyback.cost})` : ''}
+                  </Button>
+                )}
+              </AlertDescription>
+            </Alert>
+          ) : !scheduleAvailable ? (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="text-base">
+                The Week {week} schedule isn't available yet, so picks for it can't be made. Check back once it's published.
+              </AlertDescription>
+            </Alert>
+          ) : canPick && (
             <div className="space-y-4">
               <Alert>
                 <AlertTriangle className="h-4 w-4" />
                 <AlertDescription className="text-base">
-                  You haven't made a pick for Week {week} yet. Choose carefully!
+                  {changingTeam
+                    ? `Changing your Week ${week} pick from ${weekPicks.find(pick => pick.team === changingTeam)?.teamName}. Picks lock at each game's kickoff.`
+                    : requiredPicks > 1
+                      ? `Week ${week} needs ${requiredPicks} picks and every one has to win. ${requiredPicks - weekPicks.length} still to make.`
+                      : rules.poolType === 'loser'
+                        ? `You haven't made a pick for Week ${week} yet. Pick a team you expect to lose.`
+                        : `You haven't made a pick for Week ${week} yet. Choose carefully!`}
                 </AlertDescription>
               </Alert>
               
@@ -149,9 +491,9 @@ export function SuicidePoolTracker({ week, year, user, supabase }: SuicidePoolTr
                     <SelectValue placeholder="Select a team for this week..." />
                   </SelectTrigger>
                   <SelectContent>
-                    {availableRecommendations.map((rec) => (
-                      <SelectItem key={rec.team} value={rec.team}>
-                        {rec.teamName} ({rec.winProbability}%)
+                    {pickableRecommendations.map((rec) => (
+                      <SelectItem key={rec.team} value={rec.team} disabled={isLocked(rec.kickoff, now)}>
+                        {rec.teamName} ({rec.winProbability}%) • {formatCountdown(rec.kickoff, now)}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -164,35 +506,84 @@ export function SuicidePoolTracker({ week, year, user, supabase }: SuicidePoolTr
                 >
                   Submit Pick
                 </Button>
+                
+                {changingTeam && (
+                  <Button 
+                    variant="outline"
+                    onClick={() => setChangingTeam(null)}
+                    className="text-base"
+                  >
+                    Cancel
+                  </Button>
+                )}
               </div>
             </div>
           )}
         </CardContent>
       </Card>
 
+      {/* Multi-entry Portfolio */}
+      {portfolio && (
+        <EntryPortfolioCard
+          portfolio={portfolio}
+          week={week}
+          selectedEntryId={selectedEntry?.id ?? MAIN_ENTRY_ID}
+          onSelect={selectEntry}
+        />
+      )}
+
       {/* Recommendations */}
       <Card>
         <CardHeader>
-          <CardTitle>Week {week} Recommendations</CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle>Week {week} Recommendations</CardTitle>
+            <div className="flex items-center space-x-2">
+              {popularity && Object.keys(popularity.shares).length > 0 && (
+                <Badge variant="secondary">
+                  {popularity.source === 'pool' ? `Popularity from ${popularity.totalEntries} pool entries` : 'Imported popularity'}
+                </Badge>
+              )}
+              <input
+                ref={popularityInput}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => importPopularity(e.target.files?.[0])}
+              />
+              <Button variant="outline" size="sm" onClick={() => popularityInput.current?.click()}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import Popularity CSV
+              </Button>
+            </div>
+          </div>
           <p className="text-sm text-slate-500">
-            Based on your metric preferences and future week considerations
+            {rules.poolType === 'loser' ? 'Teams most likely to lose, based on' : 'Based on'} your metric preferences, future week considerations and, when available, how the rest of the pool is picking
           </p>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {availableRecommendations.map((rec, index) => (
+            {recommendations.map((rec, index) => (
               <TeamRecommendationCard
                 key={rec.team}
                 recommendation={rec}
                 index={index}
                 selectedPick={selectedPick}
                 onSelect={setSelectedPick}
+                lockStatus={formatCountdown(rec.kickoff, now)}
+                isLocked={isLocked(rec.kickoff, now)}
               />
             ))}
           </div>
         </CardContent>
       </Card>
 
+      {/* Season Path */}
+      <SurvivorPlanCard
+        plan={seasonPlan}
+        currentWeek={week}
+        lastWeek={getMaxWeeks(seasonType)}
+      />
+
       {/* Pick History */}
       <Card>
         <CardHeader>
@@ -201,7 +592,7 @@ export function SuicidePoolTracker({ week, year, user, supabase }: SuicidePoolTr
         <CardContent>
           {picks.length === 0 ? (
             <p className="text-base text-slate-500 text-center py-6">
-              No picks made yet this season.
+              No picks made yet in the {year} season.
             </p>
           ) : (
             <div className="space-y-3">
@@ -222,16 +613,18 @@ export function SuicidePoolTracker({ week, year, user, supabase }: SuicidePoolTr
                         {pick.teamName}
                       </div>
                       <div className="text-sm text-slate-500">
-                        {new Date(pick.gameDate).toLocaleDateString()}
+                        {pick.missed ? 'No pick made' : new Date(pick.gameDate).toLocaleDateString()}
                       </div>
                     </div>
                   </div>
                   
                   <div className="flex items-center space-x-3">
                     <div className="text-right">
-                      <div className="text-sm text-slate-500">
-                        {pick.confidence}% confidence
-                      </div>
+                      {!pick.missed && (
+                        <div className="text-sm text-slate-500">
+                          {pick.confidence}% confidence
+                        </div>
+                      )}
                     </div>
                     
                     <Badge 
@@ -243,7 +636,7 @@ export function SuicidePoolTracker({ week, year, user, supabase }: SuicidePoolTr
                     >
                       {pick.result === 'win' && <CheckCircle className="w-3 h-3 mr-1" />}
                       {pick.result === 'loss' && <XCircle className="w-3 h-3 mr-1" />}
-                      {pick.result?.toUpperCase() || 'PENDING'}
+                      {getResultLabel(pick.result, rules.poolType)}
                     </Badge>
                   </div>
                 </div>
@@ -0,0 +1,63 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts@2.15.2';
+import { Activity } from 'lucide-react';
+import { SeasonSimulation } from '../utils/seasonSimulation';
+
+interface SurvivalCurveCardProps {
+  simulation: SeasonSimulation | null;
+  loading?: boolean;
+}
+
+const chartConfig = {
+  survival: { label: 'Still alive', color: '#16a34a' }
+} satisfies ChartConfig;
+
+export function SurvivalCurveCard({ simulation, loading = false }: SurvivalCurveCardProps) {
+  const data = (simulation?.survival ?? []).map(point => ({
+    week: `Wk ${point.week}`,
+    team: point.team,
+    survival: Math.round(point.probability * 1000) / 10
+  }));
+  const finalSurvival = data[data.length - 1]?.survival;
+
+  return (
+    <Card className="h-full">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center">
+            <Activity className="w-4 h-4 mr-2" />
+            Survival Curve
+          </CardTitle>
+          {finalSurvival !== undefined && (
+            <span className="text-sm font-bold text-slate-900">{finalSurvival}%</span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-6">
+            {loading ? 'Simulating season...' : 'No plan to simulate yet'}
+          </p>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+              <AreaChart data={data} margin={{ top: 4, right: 4, bottom: 0, left: -24 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="week" tickLine={false} axisLine={false} />
+                <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(label, payload) => `${label}: ${payload?.[0]?.payload?.team}`} />}
+                />
+                <Area dataKey="survival" type="stepAfter" stroke="var(--color-survival)" fill="var(--color-survival)" fillOpacity={0.2} />
+              </AreaChart>
+            </ChartContainer>
+            <p className="text-xs text-slate-500 mt-2">
+              Share of {simulation?.iterations.toLocaleString()} simulated seasons where the plan is still alive after each week
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Route } from 'lucide-react';
+import { SurvivorPlan } from '../utils/survivorOptimizer';
+
+interface SurvivorPlanCardProps {
+  plan: SurvivorPlan;
+  currentWeek: number;
+  lastWeek: number;
+}
+
+export function SurvivorPlanCard({ plan, currentWeek, lastWeek }: SurvivorPlanCardProps) {
+  const remainingWeeks = Array.from({ length: Math.max(0, lastWeek - currentWeek + 1) }, (_, i) => currentWeek + i);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Route className="w-5 h-5 mr-2" />
+            Season Path
+          </CardTitle>
+          <div className="text-right">
+            <div className="text-sm text-slate-500">Plan Survival</div>
+            <div className="text-lg font-bold text-slate-900">
+              {(plan.survivalProbability * 100).toFixed(1)}%
+            </div>
+          </div>
+        </div>
+        <p className="text-sm text-slate-500">
+          An unused team for every pick the pool requires, chosen to maximize the chance of surviving every scheduled week.
+          Once teams become reusable, the plan starts a fresh set of teams.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {remainingWeeks.map(week => {
+            const picks = plan.picks.filter(p => p.week === week);
+            const rowClass = `flex items-center justify-between p-3 rounded-lg ${week === currentWeek ? 'bg-blue-50 border border-blue-200' : 'bg-slate-50'}`;
+            if (picks.length === 0) {
+              return (
+                <div key={week} className={rowClass}>
+                  <div className="flex items-center space-x-4">
+                    <div className="text-sm font-medium text-slate-900 w-16">
+                      Week {week}
+                    </div>
+                    <div className="text-sm text-slate-400">Schedule not yet available</div>
+                  </div>
+                </div>
+              );
+            }
+
+            return picks.map((pick, index) => (
+              <div key={`${week}_${pick.team}`} className={rowClass}>
+                <div className="flex items-center space-x-4">
+                  <div className="text-sm font-medium text-slate-900 w-16">
+                    {index === 0 ? `Week ${week}` : ''}
+                  </div>
+                  <div>
+                    <div className="font-medium text-base text-slate-900">{pick.teamName}</div>
+                    <div className="text-sm text-slate-500">{pick.opponent}</div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Badge variant="secondary">
+                    {Math.round(pick.winProbability * 100)}%
+                  </Badge>
+                  <div className="text-sm text-slate-500 w-20 text-right">
+                    {(pick.cumulativeSurvival * 100).toFixed(1)}% alive
+                  </div>
+                </div>
+              </div>
+            ));
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+import { Card, CardContent } from './ui/card';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Settings } from 'lucide-react';
+import { toast } from 'sonner';
+import { Pool, PoolType } from '../constants/mockData';
+import { describeSurvivorRules, getSurvivorRules, saveSurvivorRules, SurvivorRules } from '../utils/survivorRules';
+import { getMaxWeeks } from '../utils/gameUtils';
+
+interface SurvivorRulesCardProps {
+  pool: Pool | null;
+  user: any;
+  supabase: any;
+  seasonType: number;
+  onPoolUpdate?: (pool: Pool) => void;
+}
+
+const NEVER = 'never';
+
+export function SurvivorRulesCard({ pool, user, supabase, seasonType, onPoolUpdate }: SurvivorRulesCardProps) {
+  const rules = getSurvivorRules(pool);
+  const isCommissioner = !!pool && pool.commissionerId === user.id;
+  const weeks = Array.from({ length: getMaxWeeks(seasonType) - 1 }, (_, i) => i + 2);
+  const doublePickWeek = rules.picksPerWeek.find(requirement => requirement.picks > 1)?.fromWeek ?? null;
+
+  const updateRules = async (changes: Partial<SurvivorRules>) => {
+    if (!pool) return;
+    try {
+      onPoolUpdate?.(await saveSurvivorRules(supabase, pool.id, changes));
+      toast.success('Updated pool rules');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save pool rules');
+    }
+  };
+
+  const updateBuybackCost = (value: string) => {
+    const cost = Number(value);
+    if (!rules.buyback || !(cost >= 0) || cost === rules.buyback.cost) return;
+    updateRules({ buyback: { ...rules.buyback, cost } });
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Settings className="w-4 h-4 text-slate-500" />
+          {describeSurvivorRules(rules).map(label => (
+            <Badge key={label} variant="secondary">{label}</Badge>
+          ))}
+        </div>
+
+        {isCommissioner && (
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-slate-600">Pick</span>
+              <Select value={rules.poolType} onValueChange={(value) => updateRules({ poolType: value as PoolType })}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="survivor">Winners</SelectItem>
+                  <SelectItem value="loser">Losers</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-slate-600">Ties</span>
+              <Select value={rules.tieRule} onValueChange={(value) => updateRules({ tieRule: value as 'win' | 'loss' })}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="loss">Lose</SelectItem>
+                  <SelectItem value="win">Win</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-slate-600">Lives</span>
+              <Select value={rules.lives.toString()} onValueChange={(value) => updateRules({ lives: Number(value) })}>
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3].map(count => (
+                    <SelectItem key={count} value={count.toString()}>{count}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-slate-600">Two picks from</span>
+              <Select
+                value={doublePickWeek?.toString() ?? NEVER}
+                onValueChange={(value) => updateRules({
+                  picksPerWeek: value === NEVER
+                    ? [{ fromWeek: 1, picks: 1 }]
+                    : [{ fromWeek: 1, picks: 1 }, { fromWeek: Number(value), picks: 2 }]
+                })}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEVER}>Never</SelectItem>
+                  {weeks.map(week => (
+                    <SelectItem key={week} value={week.toString()}>Week {week}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-slate-600">Buyback through</span>
+              <Select
+                value={rules.buyback?.untilWeek.toString() ?? NEVER}
+                onValueChange={(value) => updateRules({
+                  buyback: value === NEVER
+                    ? null
+                    : { untilWeek: Number(value), cost: rules.buyback?.cost ?? 0, maxBuybacks: rules.buyback?.maxBuybacks ?? 1 }
+                })}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEVER}>No buybacks</SelectItem>
+                  {[1, ...weeks].map(week => (
+                    <SelectItem key={week} value={week.toString()}>Week {week}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {rules.buyback && (
+                <Input
+                  key={rules.buyback.cost}
+                  type="number"
+                  min={0}
+                  defaultValue={rules.buyback.cost}
+                  onBlur={(e) => updateBuybackCost(e.target.value)}
+                  className="w-24"
+                  aria-label="Buyback cost"
+                />
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-slate-600">Reuse teams from</span>
+              <Select
+                value={rules.teamReuseFromWeek?.toString() ?? NEVER}
+                onValueChange={(value) => updateRules({ teamReuseFromWeek: value === NEVER ? null : Number(value) })}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEVER}>Never</SelectItem>
+                  {weeks.map(week => (
+                    <SelectItem key={week} value={week.toString()}>Week {week}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Progress } from './ui/progress';
+import { TrendingUp, TrendingDown } from 'lucide-react';
+import { nflTeams } from '../constants/teams';
+import { historicalResults } from '../constants/historicalResults';
+import { replayResults, eloToTeamStrength, getLastResultsWeek } from '../utils/eloRatings';
+import { getMaxWeeks, getSeasonTypeLabel } from '../utils/gameUtils';
+import { predictGames, MetricWeights } from '../utils/predictionEngine';
+import { loadSeasonSchedule, withTeamRatings } from '../utils/schedule';
+import { runSeasonSimulation, SeasonSimulation } from '../utils/seasonSimulation';
+
+interface TeamRatingsProps {
+  week: number;
+  year: number;
+  seasonType: number;
+  supabase: any;
+  metricWeights?: MetricWeights | null;
+}
+
+export function TeamRatings({ week, year, seasonType, supabase, metricWeights }: TeamRatingsProps) {
+  const [simulation, setSimulation] = useState<SeasonSimulation | null>(null);
+
+  useEffect(() => {
+    simulateSeason();
+  }, [week, year, seasonType, metricWeights]);
+
+  // Every published week of the season; weeks still to come are rated with the ratings entering this week
+  const simulateSeason = async () => {
+    setSimulation(null);
+    const weeks = Array.from({ length: getMaxWeeks(seasonType) }, (_, i) => i + 1);
+    const schedules = await loadSeasonSchedule(supabase, year, seasonType, weeks);
+    const predictedWeeks = schedules.map(schedule => ({
+      week: schedule.week,
+      games: predictGames(
+        withTeamRatings(schedule.games, year, seasonType, Math.min(schedule.week, week)),
+        metricWeights
+      )
+    }));
+    setSimulation(await runSeasonSimulation(supabase, predictedWeeks));
+  };
+
+  const rows = useMemo(() => {
+    const current = replayResults(historicalResults, { year, seasonType, week });
+    const preseason = replayResults(historicalResults, { year, seasonType: 2, week: 1 });
+
+    return nflTeams
+      .map(team => ({
+        team,
+        rating: current[team.abbreviation],
+        change: current[team.abbreviation] - preseason[team.abbreviation]
+      }))
+      .sort((a, b) => b.rating - a.rating);
+  }, [week, year, seasonType]);
+
+  // Ratings only move with bundled results; past the last week they cover, they're carried forward unchanged
+  const lastResultsWeek = seasonType === 2 ? getLastResultsWeek(historicalResults, year, seasonType) : null;
+  const resultsNote = seasonType !== 2 || (lastResultsWeek !== null && week - 1 <= lastResultsWeek)
+    ? null
+    : lastResultsWeek === null
+      ? `No ${year} results are bundled, so these are the ratings carried into the season.`
+      : `Bundled ${year} results end at Week ${lastResultsWeek}, so these ratings don't include any games after it.`;
+
+  const projection = (team: string) => simulation?.teams.find(t => t.team === team);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-slate-900">
+          Team Ratings
+        </h2>
+        <p className="text-sm text-slate-500 mt-1">
+          Elo ratings entering Week {week} of the {year} {getSeasonTypeLabel(seasonType)}
+        </p>
+        {resultsNote && (
+          <p className="text-sm text-orange-700 mt-1">{resultsNote}</p>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Power Rankings</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-slate-50">
+                <TableHead className="text-base font-medium w-16">Rank</TableHead>
+                <TableHead className="text-base font-medium">Team</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Elo</TableHead>
+                <TableHead className="text-base font-medium text-center w-32">Season Change</TableHead>
+                <TableHead className="text-base font-medium text-center w-40">Team Strength</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Proj. Wins</TableHead>
+                <TableHead className="text-base font-medium text-center w-28">Playoffs</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => (
+                <TableRow key={row.team.abbreviation}>
+                  <TableCell className="font-medium text-slate-900">{index + 1}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-3">
+                      <span className="text-2xl">{row.team.logo}</span>
+                      <div>
+                        <div className="font-medium text-base text-slate-900">{row.team.abbreviation}</div>
+                        <div className="text-sm text-slate-500">{row.team.name}</div>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-center text-lg font-bold text-slate-900">
+                    {Math.round(row.rating)}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <div className={`flex items-center justify-center text-sm ${row.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {row.change >= 0
+                        ? <TrendingUp className="w-4 h-4 mr-1" />
+                        : <TrendingDown className="w-4 h-4 mr-1" />}
+                      {row.change >= 0 ? '+' : ''}{Math.round(row.change)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <div className="space-y-1">
+                      <div className="text-sm font-medium">{eloToTeamStrength(row.rating)}/100</div>
+                      <Progress value={eloToTeamStrength(row.rating)} className="h-2" />
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-center font-medium text-slate-900">
+                    {projection(row.team.abbreviation)?.projectedWins.toFixed(1) ?? '—'}
+                  </TableCell>
+                  <TableCell className="text-center text-slate-600">
+                    {projection(row.team.abbreviation)
+                      ? `${Math.round(projection(row.team.abbreviation)!.playoffOdds * 100)}%`
+                      : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
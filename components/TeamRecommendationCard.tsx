@@ -1,4 +1,5 @@
 import { Badge } from './ui/badge';
+import { Clock, Lock } from 'lucide-react';
 import { TeamRecommendation } from '../constants/mockData';
 import { getConfidenceColor } from '../utils/gameUtils';
 
@@ -7,22 +8,28 @@ interface TeamRecommendationCardProps {
   index: number;
   selectedPick: string;
   onSelect: (team: string) => void;
+  lockStatus?: string;
+  isLocked?: boolean;
 }
 
 export function TeamRecommendationCard({ 
   recommendation, 
   index, 
   selectedPick, 
-  onSelect 
+  onSelect,
+  lockStatus,
+  isLocked = false
 }: TeamRecommendationCardProps) {
   return (
     <div 
-      className={`p-4 rounded-lg border-2 transition-colors cursor-pointer ${
-        selectedPick === recommendation.team 
-          ? 'border-blue-500 bg-blue-50' 
-          : 'border-slate-200 hover:border-slate-300'
+      className={`p-4 rounded-lg border-2 transition-colors ${
+        isLocked
+          ? 'border-slate-200 bg-slate-50 opacity-60 cursor-not-allowed'
+          : selectedPick === recommendation.team 
+            ? 'border-blue-500 bg-blue-50 cursor-pointer' 
+            : 'border-slate-200 hover:border-slate-300 cursor-pointer'
       }`}
-      onClick={() => onSelect(recommendation.team)}
+      onClick={() => !isLocked && onSelect(recommendation.team)}
     >
       <div className="flex items-start justify-between mb-3">
         <div className="flex-1">
@@ -43,15 +50,33 @@ export function TeamRecommendationCard({
             )}
           </div>
           <p className="text-sm text-slate-500 mb-2">{recommendation.opponent}</p>
+          {lockStatus && (
+            <div className={`flex items-center text-xs ${isLocked ? 'text-red-600' : 'text-slate-500'}`}>
+              {isLocked ? <Lock className="w-3 h-3 mr-1" /> : <Clock className="w-3 h-3 mr-1" />}
+              {lockStatus}
+            </div>
+          )}
         </div>
         
-        <div className="text-right">
-          <div className="text-xl font-bold text-slate-900">
-            {recommendation.winProbability}%
-          </div>
-          <div className="text-xs text-slate-500">
-            Win Probability
+        <div className="flex items-start space-x-6">
+          <div className="text-right">
+            <div className="text-xl font-bold text-slate-900">
+              {recommendation.winProbability}%
+            </div>
+            <div className="text-xs text-slate-500">
+              {recommendation.pickToLose ? 'Loss Probability' : 'Win Probability'}
+            </div>
           </div>
+          {recommendation.expectedValue !== undefined && (
+            <div className="text-right">
+              <div className={`text-xl font-bold ${recommendation.expectedValue >= 1 ? 'text-green-600' : 'text-slate-900'}`}>
+                {recommendation.expectedValue.toFixed(2)}x
+              </div>
+              <div className="text-xs text-slate-500">
+                Expected Value
+              </div>
+            </div>
+          )}
         </div>
       </div>
       
@@ -73,6 +98,12 @@ export function TeamRecommendationCard({
             <span className="text-slate-500">Future Value Score:</span>
             <span className="font-medium text-slate-700">{recommendation.futureValue}/100</span>
           </div>
+          {recommendation.popularity !== undefined && (
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-slate-500">Pool Pick Share:</span>
+              <span className="font-medium text-slate-700">{recommendation.popularity}%</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Wand2 } from 'lucide-react';
+import { defaultMetrics } from '../constants/mockData';
+import { historicalResults } from '../constants/historicalResults';
+import { getHistoricalGames } from '../utils/backtest';
+import { describeResultsCoverage, getResultsCoverage } from '../utils/eloRatings';
+import { fitWeights, WeightFit } from '../utils/weightFitting';
+import { MetricWeights } from '../utils/predictionEngine';
+
+interface WeightFitDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentWeights: MetricWeights;
+  onApply: (weights: MetricWeights) => void;
+  saving?: boolean;
+}
+
+const seasons = historicalResults.map(file => file.season).sort((a, b) => a - b);
+const coverage = describeResultsCoverage(getResultsCoverage(historicalResults));
+
+export function WeightFitDialog({ open, onOpenChange, currentWeights, onApply, saving = false }: WeightFitDialogProps) {
+  const [startYear, setStartYear] = useState(seasons[0]);
+  const [endYear, setEndYear] = useState(seasons[seasons.length - 1]);
+  const [fit, setFit] = useState<WeightFit | null>(null);
+
+  const runFit = () => {
+    const games = getHistoricalGames(historicalResults, {
+      startYear: Math.min(startYear, endYear),
+      endYear: Math.max(startYear, endYear)
+    });
+    setFit(fitWeights(games, currentWeights));
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) setFit(null);
+    onOpenChange(isOpen);
+  };
+
+  const seasonSelect = (value: number, onChange: (year: number) => void) => (
+    <Select value={String(value)} onValueChange={(year) => { onChange(Number(year)); setFit(null); }}>
+      <SelectTrigger className="text-base">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {seasons.map(season => (
+          <SelectItem key={season} value={String(season)}>{season}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent aria-describedby="weight-fit-description" className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Fit Weights</DialogTitle>
+          <DialogDescription id="weight-fit-description">
+            Finds the weights (0–50% each, 100% total) with the lowest log loss over completed games in the chosen seasons.
+            Only the weeks with bundled results are used: {coverage}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>From Season</Label>
+              {seasonSelect(startYear, setStartYear)}
+            </div>
+            <div className="space-y-2">
+              <Label>To Season</Label>
+              {seasonSelect(endYear, setEndYear)}
+            </div>
+            <Button onClick={runFit} variant="outline" className="text-base">
+              <Wand2 className="w-4 h-4 mr-2" />
+              Run Fit
+            </Button>
+          </div>
+
+          {fit && (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-slate-50">
+                    <TableHead className="text-base font-medium">Metric</TableHead>
+                    <TableHead className="text-base font-medium text-right">Current</TableHead>
+                    <TableHead className="text-base font-medium text-right">Result</TableHead>
+                    <TableHead className="text-base font-medium text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {defaultMetrics.map(metric => {
+                    const current = currentWeights[metric.id] ?? 0;
+                    const fitted = fit.weights[metric.id] ?? 0;
+                    const change = fitted - current;
+                    const noSignal = fit.unfitted.includes(metric.id);
+                    return (
+                      <TableRow key={metric.id}>
+                        <TableCell>
+                          {metric.name}
+                          {noSignal && <span className="ml-2 text-xs text-slate-400">No signal</span>}
+                        </TableCell>
+                        <TableCell className="text-right">{current}%</TableCell>
+                        <TableCell className={`text-right ${noSignal ? 'text-slate-500' : 'font-medium'}`}>{fitted}%</TableCell>
+                        <TableCell className={`text-right ${change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-slate-400'}`}>
+                          {change > 0 ? '+' : ''}{change}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {fit.unfitted.length > 0 && (
+                <p className="text-sm text-slate-500">
+                  Metrics marked "No signal" are the same for both teams (or missing) in these games, so they weren't fitted. They keep their value or scale together to make room for the fitted weights.
+                </p>
+              )}
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-slate-500">
+                  Log loss over {fit.games} games: {fit.initialLogLoss.toFixed(4)} → <span className="font-medium text-slate-900">{fit.logLoss.toFixed(4)}</span>
+                </span>
+                <Button onClick={() => onApply(fit.weights)} disabled={saving} className="text-base">
+                  Save Fitted Weights
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
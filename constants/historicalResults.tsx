@@ -0,0 +1,9 @@
+import results2024 from '../data/results/2024.json';
+import results2025 from '../data/results/2025.json';
+import { parseResultsFile, ResultsFile } from '../utils/eloRatings';
+
+// Completed games used to replay team ratings. Drop a new season file in data/results and add it here.
+export const historicalResults: ResultsFile[] = [
+  parseResultsFile(results2024),
+  parseResultsFile(results2025)
+];
@@ -1,3 +1,69 @@
+export interface TeamMetrics {
+  teamStrength: number;
+  offensivePower: number;
+  defensivePower: number;
+  injuries: number;
+  weather: number;
+  schedule: number;
+  // Market win probability on the overall scale; absent until odds are imported for the game
+  market?: number;
+  overall: number;
+}
+
+// Bookmaker line for one game. Spread is quoted for the home team (negative when home is favored).
+export interface GameOdds {
+  awayMoneyline: number | null;
+  homeMoneyline: number | null;
+  spread: number | null;
+  total: number | null;
+  // Vig-free home win probability (0-1), from the moneylines or else the spread
+  homeMarketProbability: number;
+  source: string;
+  updatedAt: string;
+}
+
+// How much one input moved a side's win probability, in percentage points from an even 50%
+export interface MetricContribution {
+  id: string; // a MetricWeight id, or 'home_field'
+  label: string;
+  points: number;
+}
+
+export interface GameForecast {
+  temperature: number; // °F at kickoff
+  windSpeed: number; // mph
+  precipitation: 'none' | 'rain' | 'snow';
+}
+
+// One side's rest and travel going into a game, from its previous game and home stadium
+export interface TeamScheduleContext {
+  restDays: number | null; // null when the team has no earlier game this season
+  offBye: boolean;
+  shortWeek: boolean;
+  travelMiles: number;
+  timeZoneShift: number; // hours; positive when the team travels east
+}
+
+export type InjuryStatus = 'Out' | 'Doubtful' | 'Questionable';
+
+export interface PlayerInjury {
+  team: string;
+  player: string;
+  position: string;
+  status: InjuryStatus;
+  injury?: string;
+}
+
+// One week's league-wide injury report; teams not listed have nobody on it
+export interface InjuryReport {
+  year: number;
+  seasonType: number;
+  week: number;
+  players: PlayerInjury[];
+  source: string;
+  updatedAt: string;
+}
+
 export interface GamePrediction {
   id: string;
   awayTeam: {
@@ -12,11 +78,40 @@ export interface GamePrediction {
   };
   gameDate: string;
   gameTime: string;
+  // Populated for games ingested from a scoreboard feed
+  kickoff?: string;
+  venue?: string;
+  neutralSite?: boolean;
+  status?: 'scheduled' | 'in_progress' | 'final';
+  score?: {
+    away: number;
+    home: number;
+  };
   predictions: {
     awayWinProbability: number;
     homeWinProbability: number;
     confidence: 'high' | 'medium' | 'low';
     recommendation: 'away' | 'home' | 'none';
+    // From the home team's side; negate the points for the away team
+    breakdown?: MetricContribution[];
+    // Home minus away points, positive when home is projected to win
+    projectedMargin?: number;
+    projectedTotal?: number;
+    // Percentages against the imported spread and total, when the game has them
+    homeCoverProbability?: number;
+    overProbability?: number;
+  };
+  odds?: GameOdds;
+  forecast?: GameForecast;
+  scheduleContext?: {
+    away: TeamScheduleContext;
+    home: TeamScheduleContext;
+    international: boolean;
+  };
+  // Each side's most damaging absences from the week's injury report
+  keyAbsences?: {
+    away: PlayerInjury[];
+    home: PlayerInjury[];
   };
   metrics: {
     teamStrength: number;
@@ -25,20 +120,8 @@ export interface GamePrediction {
     schedule: number;
     overall: number;
     // Team-specific metrics
-    awayTeam: {
-      teamStrength: number;
-      injuries: number;
-      weather: number;
-      schedule: number;
-      overall: number;
-    };
-    homeTeam: {
-      teamStrength: number;
-      injuries: number;
-      weather: number;
-      schedule: number;
-      overall: number;
-    };
+    awayTeam: TeamMetrics;
+    homeTeam: TeamMetrics;
   };
 }
 
@@ -50,16 +133,206 @@ export interface PoolPick {
   confidence: number;
   result: 'pending' | 'win' | 'loss' | null;
   gameDate: string;
+  year?: number;
+  seasonType?: number;
+  // Recorded as a loss when a pool week ends without enough picks
+  missed?: boolean;
+}
+
+export interface PoolStatus {
+  wins: number;
+  losses: number;
+  isEliminated: boolean;
+  eliminatedWeek: number | null;
+  livesRemaining?: number;
+}
+
+export interface PickRequirement {
+  fromWeek: number;
+  picks: number;
+}
+
+export interface BuybackRule {
+  untilWeek: number;
+  cost: number;
+  maxBuybacks: number;
+}
+
+export interface Buyback {
+  week: number;
+  cost: number;
+  createdAt: string;
+}
+
+// A loser pool picks teams expected to lose
+export type PoolType = 'survivor' | 'loser';
+
+export interface PoolRules {
+  poolType?: PoolType;
+  tieRule: 'win' | 'loss';
+  startWeek: number;
+  maxEntries: number;
+  // Survivor variants; missing on pools created before they existed
+  picksPerWeek?: PickRequirement[];
+  lives?: number;
+  buyback?: BuybackRule | null;
+  teamReuseFromWeek?: number | null;
+  // Against-the-spread pick'em; missing on pools created before ATS
+  atsPicksPerWeek?: number;
+  atsLineLock?: 'pick' | 'commissioner';
+  // Points per correct winner in each playoff round; missing on pools created before brackets
+  bracketPoints?: number[];
+}
+
+export interface PoolMember {
+  userId: string;
+  name: string;
+  joinedAt: string;
+}
+
+export interface Pool {
+  id: string;
+  name: string;
+  commissionerId: string;
+  joinCode: string;
+  members: PoolMember[];
+  rules: PoolRules;
+  createdAt: string;
+}
+
+export interface SurvivorEntry {
+  id: string;
+  name: string;
+  createdAt: string;
+  buybacks?: Buyback[];
+  picks: PoolPick[];
+  status: PoolStatus;
+}
+
+export interface PoolStanding extends PoolStatus {
+  userId: string;
+  entryId: string;
+  name: string;
+  entryName: string;
+  isCommissioner: boolean;
+  picksMade: number;
+  buybacks?: number;
+}
+
+export interface ConfidencePick {
+  gameId: string;
+  team: string;
+  points: number;
+  result?: 'win' | 'loss' | 'pending';
+}
+
+// One week of a confidence pick'em; score and maxScore arrive with grading
+export interface ConfidenceSheet {
+  week: number;
+  picks: ConfidencePick[];
+  score?: number;
+  maxScore?: number;
+  updatedAt: string;
+}
+
+export interface ConfidenceStanding {
+  userId: string;
+  name: string;
+  isCommissioner: boolean;
+  totalPoints: number;
+  weeksPlayed: number;
+  bestWeek: number;
+  correctPicks: number;
+  gradedPicks: number;
+  weeklyPoints: Record<number, number>;
+}
+
+export interface AtsPick {
+  week: number;
+  gameId: string;
+  team: string;
+  // The picked team's line when it was snapshotted, negative when they're favored
+  line: number;
+  snapshotAt: string;
+  result?: 'win' | 'loss' | 'push' | 'pending';
+}
+
+// A pool's home lines for a week, keyed by game id, once the commissioner locks them
+export interface AtsLines {
+  week: number;
+  lines: Record<string, number>;
+  lockedAt: string;
+}
+
+export interface AtsStanding {
+  userId: string;
+  name: string;
+  isCommissioner: boolean;
+  wins: number;
+  losses: number;
+  pushes: number;
+  points: number;
+  weeklyPoints: Record<number, number>;
+}
+
+export type Conference = 'AFC' | 'NFC';
+
+// Seven teams per conference, 1 seed first
+export interface PlayoffSeeds {
+  year: number;
+  seeds: Record<Conference, string[]>;
+  updatedAt: string;
+}
+
+// Teams picked to win their game in each round, keyed by round (1 Wild Card through 4 Super Bowl)
+export interface Bracket {
+  winners: Record<number, string[]>;
+  updatedAt: string;
+}
+
+// The higher seed hosts; the Super Bowl has no conference and is played at a neutral site
+export interface BracketMatchup {
+  conference: Conference | null;
+  higher: string;
+  lower: string;
+}
+
+export interface BracketStanding {
+  userId: string;
+  name: string;
+  isCommissioner: boolean;
+  champion: string | null;
+  score: number;
+  // Score plus every remaining pick whose team is still alive
+  possible: number;
+  correct: number;
+  roundPoints: number[];
 }
 
 export interface TeamRecommendation {
   team: string;
   teamName: string;
   opponent: string;
+  // Chance the pick survives: the team winning, or losing when pickToLose is set
   winProbability: number;
+  pickToLose?: boolean;
   confidence: 'high' | 'medium' | 'low';
   reasoning: string[];
   futureValue: number;
+  kickoff?: string;
+  // Contributions to this team's win probability
+  breakdown?: MetricContribution[];
+  // Share of the pool on this team (0-100) and equity multiple vs. an average entry, when popularity is known
+  popularity?: number;
+  expectedValue?: number;
+}
+
+// Share of live entries on each team for one week; totalEntries is unknown for imported data
+export interface PickPopularity {
+  week: number;
+  totalEntries: number | null;
+  shares: Record<string, number>;
+  source: 'pool' | 'import';
 }
 
 export interface MetricWeight {
@@ -71,387 +344,6 @@ export interface MetricWeight {
   category: 'team' | 'player' | 'external';
 }
 
-export const mockGames: GamePrediction[] = [
-  {
-    id: '1',
-    awayTeam: {
-      name: 'Kansas City Chiefs',
-      abbreviation: 'KC',
-      logo: '🏆'
-    },
-    homeTeam: {
-      name: 'Buffalo Bills',
-      abbreviation: 'BUF',
-      logo: '🦬'
-    },
-    gameDate: '2025-01-12',
-    gameTime: '4:30 PM EST',
-    predictions: {
-      awayWinProbability: 62,
-      homeWinProbability: 38,
-      confidence: 'high',
-      recommendation: 'away'
-    },
-    metrics: {
-      teamStrength: 85,
-      injuries: 72,
-      weather: 45,
-      schedule: 78,
-      overall: 76,
-      awayTeam: {
-        teamStrength: 92,
-        injuries: 85,
-        weather: 45,
-        schedule: 88,
-        overall: 82
-      },
-      homeTeam: {
-        teamStrength: 78,
-        injuries: 58,
-        weather: 45,
-        schedule: 68,
-        overall: 70
-      }
-    }
-  },
-  {
-    id: '2',
-    awayTeam: {
-      name: 'Philadelphia Eagles',
-      abbreviation: 'PHI',
-      logo: '🦅'
-    },
-    homeTeam: {
-      name: 'Green Bay Packers',
-      abbreviation: 'GB',
-      logo: '🟢'
-    },
-    gameDate: '2025-01-12',
-    gameTime: '8:15 PM EST',
-    predictions: {
-      awayWinProbability: 54,
-      homeWinProbability: 46,
-      confidence: 'medium',
-      recommendation: 'away'
-    },
-    metrics: {
-      teamStrength: 78,
-      injuries: 85,
-      weather: 35,
-      schedule: 62,
-      overall: 68,
-      awayTeam: {
-        teamStrength: 85,
-        injuries: 90,
-        weather: 35,
-        schedule: 72,
-        overall: 75
-      },
-      homeTeam: {
-        teamStrength: 71,
-        injuries: 80,
-        weather: 35,
-        schedule: 52,
-        overall: 61
-      }
-    }
-  },
-  {
-    id: '3',
-    awayTeam: {
-      name: 'Detroit Lions',
-      abbreviation: 'DET',
-      logo: '🦁'
-    },
-    homeTeam: {
-      name: 'San Francisco 49ers',
-      abbreviation: 'SF',
-      logo: '⭐'
-    },
-    gameDate: '2025-01-13',
-    gameTime: '1:00 PM EST',
-    predictions: {
-      awayWinProbability: 48,
-      homeWinProbability: 52,
-      confidence: 'medium',
-      recommendation: 'home'
-    },
-    metrics: {
-      teamStrength: 82,
-      injuries: 68,
-      weather: 90,
-      schedule: 71,
-      overall: 75,
-      awayTeam: {
-        teamStrength: 84,
-        injuries: 62,
-        weather: 90,
-        schedule: 75,
-        overall: 73
-      },
-      homeTeam: {
-        teamStrength: 80,
-        injuries: 74,
-        weather: 90,
-        schedule: 67,
-        overall: 77
-      }
-    }
-  },
-  {
-    id: '4',
-    awayTeam: {
-      name: 'Baltimore Ravens',
-      abbreviation: 'BAL',
-      logo: '🐦‍⬛'
-    },
-    homeTeam: {
-      name: 'Pittsburgh Steelers',
-      abbreviation: 'PIT',
-      logo: '⚫'
-    },
-    gameDate: '2025-01-13',
-    gameTime: '4:30 PM EST',
-    predictions: {
-      awayWinProbability: 58,
-      homeWinProbability: 42,
-      confidence: 'high',
-      recommendation: 'away'
-    },
-    metrics: {
-      teamStrength: 88,
-      injuries: 80,
-      weather: 55,
-      schedule: 77,
-      overall: 79,
-      awayTeam: {
-        teamStrength: 95,
-        injuries: 88,
-        weather: 55,
-        schedule: 85,
-        overall: 84
-      },
-      homeTeam: {
-        teamStrength: 81,
-        injuries: 72,
-        weather: 55,
-        schedule: 69,
-        overall: 74
-      }
-    }
-  },
-  {
-    id: '5',
-    awayTeam: {
-      name: 'Tampa Bay Buccaneers',
-      abbreviation: 'TB',
-      logo: '🏴‍☠️'
-    },
-    homeTeam: {
-      name: 'Washington Commanders',
-      abbreviation: 'WAS',
-      logo: '🔴'
-    },
-    gameDate: '2025-01-13',
-    gameTime: '8:15 PM EST',
-    predictions: {
-      awayWinProbability: 44,
-      homeWinProbability: 56,
-      confidence: 'low',
-      recommendation: 'home'
-    },
-    metrics: {
-      teamStrength: 74,
-      injuries: 85,
-      weather: 78,
-      schedule: 63,
-      overall: 72,
-      awayTeam: {
-        teamStrength: 69,
-        injuries: 82,
-        weather: 78,
-        schedule: 58,
-        overall: 68
-      },
-      homeTeam: {
-        teamStrength: 79,
-        injuries: 88,
-        weather: 78,
-        schedule: 68,
-        overall: 76
-      }
-    }
-  },
-  {
-    id: '6',
-    awayTeam: {
-      name: 'Los Angeles Rams',
-      abbreviation: 'LAR',
-      logo: '🐏'
-    },
-    homeTeam: {
-      name: 'Minnesota Vikings',
-      abbreviation: 'MIN',
-      logo: '⚔️'
-    },
-    gameDate: '2025-01-14',
-    gameTime: '7:15 PM EST',
-    predictions: {
-      awayWinProbability: 41,
-      homeWinProbability: 59,
-      confidence: 'medium',
-      recommendation: 'home'
-    },
-    metrics: {
-      teamStrength: 76,
-      injuries: 72,
-      weather: 25,
-      schedule: 69,
-      overall: 68,
-      awayTeam: {
-        teamStrength: 71,
-        injuries: 65,
-        weather: 25,
-        schedule: 64,
-        overall: 63
-      },
-      homeTeam: {
-        teamStrength: 81,
-        injuries: 79,
-        weather: 25,
-        schedule: 74,
-        overall: 73
-      }
-    }
-  },
-  {
-    id: '7',
-    awayTeam: {
-      name: 'Houston Texans',
-      abbreviation: 'HOU',
-      logo: '🐂'
-    },
-    homeTeam: {
-      name: 'Los Angeles Chargers',
-      abbreviation: 'LAC',
-      logo: '⚡'
-    },
-    gameDate: '2025-01-14',
-    gameTime: '1:00 PM EST',
-    predictions: {
-      awayWinProbability: 53,
-      homeWinProbability: 47,
-      confidence: 'medium',
-      recommendation: 'away'
-    },
-    metrics: {
-      teamStrength: 80,
-      injuries: 75,
-      weather: 95,
-      schedule: 66,
-      overall: 73,
-      awayTeam: {
-        teamStrength: 83,
-        injuries: 78,
-        weather: 95,
-        schedule: 71,
-        overall: 75
-      },
-      homeTeam: {
-        teamStrength: 77,
-        injuries: 72,
-        weather: 95,
-        schedule: 61,
-        overall: 71
-      }
-    }
-  },
-  {
-    id: '8',
-    awayTeam: {
-      name: 'Denver Broncos',
-      abbreviation: 'DEN',
-      logo: '🐎'
-    },
-    homeTeam: {
-      name: 'Cincinnati Bengals',
-      abbreviation: 'CIN',
-      logo: '🐅'
-    },
-    gameDate: '2025-01-14',
-    gameTime: '4:30 PM EST',
-    predictions: {
-      awayWinProbability: 39,
-      homeWinProbability: 61,
-      confidence: 'high',
-      recommendation: 'home'
-    },
-    metrics: {
-      teamStrength: 71,
-      injuries: 88,
-      weather: 60,
-      schedule: 74,
-      overall: 77,
-      awayTeam: {
-        teamStrength: 64,
-        injuries: 85,
-        weather: 60,
-        schedule: 69,
-        overall: 71
-      },
-      homeTeam: {
-        teamStrength: 78,
-        injuries: 91,
-        weather: 60,
-        schedule: 79,
-        overall: 83
-      }
-    }
-  }
-];
-
-export const mockRecommendations: TeamRecommendation[] = [
-  {
-    team: 'KC',
-    teamName: 'Kansas City Chiefs',
-    opponent: 'vs Buffalo Bills',
-    winProbability: 62,
-    confidence: 'high',
-    reasoning: [
-      'Strong offensive performance this season',
-      'Home field advantage',
-      'Opponent dealing with key injuries'
-    ],
-    futureValue: 85
-  },
-  {
-    team: 'SF',
-    teamName: 'San Francisco 49ers',
-    opponent: 'vs Seattle Seahawks',
-    winProbability: 58,
-    confidence: 'medium',
-    reasoning: [
-      'Solid defensive metrics',
-      'Better recent form',
-      'Favorable matchup history'
-    ],
-    futureValue: 75
-  },
-  {
-    team: 'DAL',
-    teamName: 'Dallas Cowboys',
-    opponent: 'at Philadelphia Eagles',
-    winProbability: 45,
-    confidence: 'low',
-    reasoning: [
-      'Away game disadvantage',
-      'Inconsistent recent performance',
-      'Tough divisional matchup'
-    ],
-    futureValue: 60
-  }
-];
-
 export const mockPicks: PoolPick[] = [
   {
     id: '1',
@@ -517,9 +409,17 @@ export const defaultMetrics: MetricWeight[] = [
   {
     id: 'schedule_strength',
     name: 'Schedule Strength',
-    description: 'Difficulty of recent and upcoming opponents',
+    description: 'Rest, travel and time-zone edge going into the game',
     weight: 10,
     defaultWeight: 10,
     category: 'team'
+  },
+  {
+    id: 'market_probability',
+    name: 'Market Probability',
+    description: 'Optional: vig-free win probability implied by imported betting lines',
+    weight: 0,
+    defaultWeight: 0,
+    category: 'external'
   }
 ];
\ No newline at end of file
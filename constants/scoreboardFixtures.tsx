@@ -0,0 +1,14 @@
+import scoreboard2024Week1 from '../data/scoreboards/2024-2-1.json';
+import scoreboard2025Week1 from '../data/scoreboards/2025-2-1.json';
+import { getScheduleKey, parseScoreboard, WeekSchedule } from '../utils/scheduleIngestion';
+
+// Local scoreboard snapshots so schedules load offline. Files are named <year>-<seasonType>-<week>.json.
+const fixtures: WeekSchedule[] = [
+  parseScoreboard(scoreboard2024Week1),
+  parseScoreboard(scoreboard2025Week1)
+];
+
+export const getScoreboardFixture = (year: number, seasonType: number, week: number) => {
+  const key = getScheduleKey(year, seasonType, week);
+  return fixtures.find(fixture => getScheduleKey(fixture.year, fixture.seasonType, fixture.week) === key) ?? null;
+};
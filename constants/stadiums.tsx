@@ -0,0 +1,70 @@
+import { GamePrediction } from './mockData';
+
+export interface Stadium {
+  name: string;
+  // Teams that play their home games here; empty for international and other neutral venues
+  teams: string[];
+  roof: 'dome' | 'retractable' | 'open';
+  surface: 'grass' | 'turf';
+  altitude: number; // feet above sea level
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  timeZone: string;
+  // Late-season conditions the home team is used to; only meaningful for open-air stadiums
+  climate: 'cold' | 'mild' | 'warm';
+}
+
+export const stadiums: Stadium[] = [
+  { name: 'State Farm Stadium', teams: ['ARI'], roof: 'retractable', surface: 'grass', altitude: 1070, city: 'Glendale', country: 'USA', latitude: 33.5276, longitude: -112.2626, timeZone: 'America/Phoenix', climate: 'warm' },
+  { name: 'Mercedes-Benz Stadium', teams: ['ATL'], roof: 'retractable', surface: 'turf', altitude: 1050, city: 'Atlanta', country: 'USA', latitude: 33.7554, longitude: -84.4008, timeZone: 'America/New_York', climate: 'warm' },
+  { name: 'M&T Bank Stadium', teams: ['BAL'], roof: 'open', surface: 'grass', altitude: 50, city: 'Baltimore', country: 'USA', latitude: 39.2780, longitude: -76.6227, timeZone: 'America/New_York', climate: 'mild' },
+  { name: 'Highmark Stadium', teams: ['BUF'], roof: 'open', surface: 'turf', altitude: 650, city: 'Orchard Park', country: 'USA', latitude: 42.7738, longitude: -78.7870, timeZone: 'America/New_York', climate: 'cold' },
+  { name: 'Bank of America Stadium', teams: ['CAR'], roof: 'open', surface: 'turf', altitude: 750, city: 'Charlotte', country: 'USA', latitude: 35.2258, longitude: -80.8528, timeZone: 'America/New_York', climate: 'mild' },
+  { name: 'Soldier Field', teams: ['CHI'], roof: 'open', surface: 'grass', altitude: 600, city: 'Chicago', country: 'USA', latitude: 41.8623, longitude: -87.6167, timeZone: 'America/Chicago', climate: 'cold' },
+  { name: 'Paycor Stadium', teams: ['CIN'], roof: 'open', surface: 'turf', altitude: 490, city: 'Cincinnati', country: 'USA', latitude: 39.0955, longitude: -84.5161, timeZone: 'America/New_York', climate: 'cold' },
+  { name: 'Huntington Bank Field', teams: ['CLE'], roof: 'open', surface: 'grass', altitude: 580, city: 'Cleveland', country: 'USA', latitude: 41.5061, longitude: -81.6995, timeZone: 'America/New_York', climate: 'cold' },
+  { name: 'AT&T Stadium', teams: ['DAL'], roof: 'retractable', surface: 'turf', altitude: 600, city: 'Arlington', country: 'USA', latitude: 32.7473, longitude: -97.0945, timeZone: 'America/Chicago', climate: 'warm' },
+  { name: 'Empower Field at Mile High', teams: ['DEN'], roof: 'open', surface: 'grass', altitude: 5280, city: 'Denver', country: 'USA', latitude: 39.7439, longitude: -105.0201, timeZone: 'America/Denver', climate: 'cold' },
+  { name: 'Ford Field', teams: ['DET'], roof: 'dome', surface: 'turf', altitude: 600, city: 'Detroit', country: 'USA', latitude: 42.3400, longitude: -83.0456, timeZone: 'America/Detroit', climate: 'cold' },
+  { name: 'Lambeau Field', teams: ['GB'], roof: 'open', surface: 'grass', altitude: 640, city: 'Green Bay', country: 'USA', latitude: 44.5013, longitude: -88.0622, timeZone: 'America/Chicago', climate: 'cold' },
+  { name: 'NRG Stadium', teams: ['HOU'], roof: 'retractable', surface: 'turf', altitude: 50, city: 'Houston', country: 'USA', latitude: 29.6847, longitude: -95.4107, timeZone: 'America/Chicago', climate: 'warm' },
+  { name: 'Lucas Oil Stadium', teams: ['IND'], roof: 'retractable', surface: 'turf', altitude: 715, city: 'Indianapolis', country: 'USA', latitude: 39.7601, longitude: -86.1639, timeZone: 'America/Indiana/Indianapolis', climate: 'cold' },
+  { name: 'EverBank Stadium', teams: ['JAX'], roof: 'open', surface: 'grass', altitude: 15, city: 'Jacksonville', country: 'USA', latitude: 30.3239, longitude: -81.6373, timeZone: 'America/New_York', climate: 'warm' },
+  { name: 'GEHA Field at Arrowhead Stadium', teams: ['KC'], roof: 'open', surface: 'grass', altitude: 850, city: 'Kansas City', country: 'USA', latitude: 39.0489, longitude: -94.4839, timeZone: 'America/Chicago', climate: 'cold' },
+  { name: 'Allegiant Stadium', teams: ['LV'], roof: 'dome', surface: 'grass', altitude: 2000, city: 'Las Vegas', country: 'USA', latitude: 36.0909, longitude: -115.1833, timeZone: 'America/Los_Angeles', climate: 'warm' },
+  { name: 'SoFi Stadium', teams: ['LAC', 'LAR'], roof: 'dome', surface: 'turf', altitude: 100, city: 'Inglewood', country: 'USA', latitude: 33.9535, longitude: -118.3392, timeZone: 'America/Los_Angeles', climate: 'warm' },
+  { name: 'Hard Rock Stadium', teams: ['MIA'], roof: 'open', surface: 'grass', altitude: 10, city: 'Miami Gardens', country: 'USA', latitude: 25.9580, longitude: -80.2389, timeZone: 'America/New_York', climate: 'warm' },
+  { name: 'U.S. Bank Stadium', teams: ['MIN'], roof: 'dome', surface: 'turf', altitude: 830, city: 'Minneapolis', country: 'USA', latitude: 44.9737, longitude: -93.2577, timeZone: 'America/Chicago', climate: 'cold' },
+  { name: 'Gillette Stadium', teams: ['NE'], roof: 'open', surface: 'turf', altitude: 290, city: 'Foxborough', country: 'USA', latitude: 42.0909, longitude: -71.2643, timeZone: 'America/New_York', climate: 'cold' },
+  { name: 'Caesars Superdome', teams: ['NO'], roof: 'dome', surface: 'turf', altitude: 10, city: 'New Orleans', country: 'USA', latitude: 29.9511, longitude: -90.0812, timeZone: 'America/Chicago', climate: 'warm' },
+  { name: 'MetLife Stadium', teams: ['NYG', 'NYJ'], roof: 'open', surface: 'turf', altitude: 10, city: 'East Rutherford', country: 'USA', latitude: 40.8135, longitude: -74.0745, timeZone: 'America/New_York', climate: 'cold' },
+  { name: 'Lincoln Financial Field', teams: ['PHI'], roof: 'open', surface: 'grass', altitude: 40, city: 'Philadelphia', country: 'USA', latitude: 39.9008, longitude: -75.1675, timeZone: 'America/New_York', climate: 'mild' },
+  { name: 'Acrisure Stadium', teams: ['PIT'], roof: 'open', surface: 'grass', altitude: 730, city: 'Pittsburgh', country: 'USA', latitude: 40.4468, longitude: -80.0158, timeZone: 'America/New_York', climate: 'cold' },
+  { name: "Levi's Stadium", teams: ['SF'], roof: 'open', surface: 'grass', altitude: 20, city: 'Santa Clara', country: 'USA', latitude: 37.4030, longitude: -121.9700, timeZone: 'America/Los_Angeles', climate: 'mild' },
+  { name: 'Lumen Field', teams: ['SEA'], roof: 'open', surface: 'turf', altitude: 20, city: 'Seattle', country: 'USA', latitude: 47.5952, longitude: -122.3316, timeZone: 'America/Los_Angeles', climate: 'mild' },
+  { name: 'Raymond James Stadium', teams: ['TB'], roof: 'open', surface: 'grass', altitude: 30, city: 'Tampa', country: 'USA', latitude: 27.9759, longitude: -82.5033, timeZone: 'America/New_York', climate: 'warm' },
+  { name: 'Nissan Stadium', teams: ['TEN'], roof: 'open', surface: 'turf', altitude: 400, city: 'Nashville', country: 'USA', latitude: 36.1665, longitude: -86.7713, timeZone: 'America/Chicago', climate: 'mild' },
+  { name: 'Northwest Stadium', teams: ['WAS'], roof: 'open', surface: 'grass', altitude: 200, city: 'Landover', country: 'USA', latitude: 38.9078, longitude: -76.8645, timeZone: 'America/New_York', climate: 'mild' },
+  // International series venues
+  { name: 'Arena Corinthians', teams: [], roof: 'open', surface: 'grass', altitude: 2500, city: 'São Paulo', country: 'Brazil', latitude: -23.5453, longitude: -46.4742, timeZone: 'America/Sao_Paulo', climate: 'warm' },
+  { name: 'Tottenham Hotspur Stadium', teams: [], roof: 'open', surface: 'turf', altitude: 100, city: 'London', country: 'England', latitude: 51.6043, longitude: -0.0664, timeZone: 'Europe/London', climate: 'mild' },
+  { name: 'Wembley Stadium', teams: [], roof: 'open', surface: 'grass', altitude: 150, city: 'London', country: 'England', latitude: 51.5560, longitude: -0.2796, timeZone: 'Europe/London', climate: 'mild' },
+  { name: 'Allianz Arena', teams: [], roof: 'open', surface: 'grass', altitude: 1700, city: 'Munich', country: 'Germany', latitude: 48.2188, longitude: 11.6247, timeZone: 'Europe/Berlin', climate: 'cold' },
+  { name: 'Deutsche Bank Park', teams: [], roof: 'retractable', surface: 'grass', altitude: 360, city: 'Frankfurt', country: 'Germany', latitude: 50.0686, longitude: 8.6455, timeZone: 'Europe/Berlin', climate: 'mild' },
+  { name: 'Croke Park', teams: [], roof: 'open', surface: 'grass', altitude: 50, city: 'Dublin', country: 'Ireland', latitude: 53.3607, longitude: -6.2511, timeZone: 'Europe/Dublin', climate: 'mild' },
+  { name: 'Santiago Bernabéu', teams: [], roof: 'retractable', surface: 'grass', altitude: 2130, city: 'Madrid', country: 'Spain', latitude: 40.4531, longitude: -3.6883, timeZone: 'Europe/Madrid', climate: 'mild' },
+  { name: 'Estadio Azteca', teams: [], roof: 'open', surface: 'grass', altitude: 7350, city: 'Mexico City', country: 'Mexico', latitude: 19.3029, longitude: -99.1505, timeZone: 'America/Mexico_City', climate: 'mild' }
+];
+
+export const getHomeStadium = (team: string) => {
+  return stadiums.find(stadium => stadium.teams.includes(team));
+};
+
+// The game's listed venue when it's in the registry, otherwise the home team's own stadium
+export const getGameStadium = (game: Pick<GamePrediction, 'venue' | 'neutralSite' | 'homeTeam'>) => {
+  const venue = game.venue ? stadiums.find(stadium => stadium.name === game.venue) : undefined;
+  if (venue) return venue;
+  return game.neutralSite ? undefined : getHomeStadium(game.homeTeam.abbreviation);
+};
@@ -0,0 +1,46 @@
+export interface NflTeam {
+  abbreviation: string;
+  name: string;
+  logo: string;
+  conference: 'AFC' | 'NFC';
+  division: 'East' | 'North' | 'South' | 'West';
+}
+
+export const nflTeams: NflTeam[] = [
+  { abbreviation: 'BUF', name: 'Buffalo Bills', logo: '🦬', conference: 'AFC', division: 'East' },
+  { abbreviation: 'MIA', name: 'Miami Dolphins', logo: '🐬', conference: 'AFC', division: 'East' },
+  { abbreviation: 'NE', name: 'New England Patriots', logo: '🇺🇸', conference: 'AFC', division: 'East' },
+  { abbreviation: 'NYJ', name: 'New York Jets', logo: '✈️', conference: 'AFC', division: 'East' },
+  { abbreviation: 'BAL', name: 'Baltimore Ravens', logo: '🐦‍⬛', conference: 'AFC', division: 'North' },
+  { abbreviation: 'CIN', name: 'Cincinnati Bengals', logo: '🐅', conference: 'AFC', division: 'North' },
+  { abbreviation: 'CLE', name: 'Cleveland Browns', logo: '🟤', conference: 'AFC', division: 'North' },
+  { abbreviation: 'PIT', name: 'Pittsburgh Steelers', logo: '⚫', conference: 'AFC', division: 'North' },
+  { abbreviation: 'HOU', name: 'Houston Texans', logo: '🐂', conference: 'AFC', division: 'South' },
+  { abbreviation: 'IND', name: 'Indianapolis Colts', logo: '🐴', conference: 'AFC', division: 'South' },
+  { abbreviation: 'JAX', name: 'Jacksonville Jaguars', logo: '🐆', conference: 'AFC', division: 'South' },
+  { abbreviation: 'TEN', name: 'Tennessee Titans', logo: '🗡️', conference: 'AFC', division: 'South' },
+  { abbreviation: 'DEN', name: 'Denver Broncos', logo: '🐎', conference: 'AFC', division: 'West' },
+  { abbreviation: 'KC', name: 'Kansas City Chiefs', logo: '🏆', conference: 'AFC', division: 'West' },
+  { abbreviation: 'LV', name: 'Las Vegas Raiders', logo: '🏴‍☠️', conference: 'AFC', division: 'West' },
+  { abbreviation: 'LAC', name: 'Los Angeles Chargers', logo: '⚡', conference: 'AFC', division: 'West' },
+  { abbreviation: 'DAL', name: 'Dallas Cowboys', logo: '⭐', conference: 'NFC', division: 'East' },
+  { abbreviation: 'NYG', name: 'New York Giants', logo: '🗽', conference: 'NFC', division: 'East' },
+  { abbreviation: 'PHI', name: 'Philadelphia Eagles', logo: '🦅', conference: 'NFC', division: 'East' },
+  { abbreviation: 'WAS', name: 'Washington Commanders', logo: '🔴', conference: 'NFC', division: 'East' },
+  { abbreviation: 'CHI', name: 'Chicago Bears', logo: '🐻', conference: 'NFC', division: 'North' },
+  { abbreviation: 'DET', name: 'Detroit Lions', logo: '🦁', conference: 'NFC', division: 'North' },
+  { abbreviation: 'GB', name: 'Green Bay Packers', logo: '🟢', conference: 'NFC', division: 'North' },
+  { abbreviation: 'MIN', name: 'Minnesota Vikings', logo: '⚔️', conference: 'NFC', division: 'North' },
+  { abbreviation: 'ATL', name: 'Atlanta Falcons', logo: '🪶', conference: 'NFC', division: 'South' },
+  { abbreviation: 'CAR', name: 'Carolina Panthers', logo: '🐾', conference: 'NFC', division: 'South' },
+  { abbreviation: 'NO', name: 'New Orleans Saints', logo: '⚜️', conference: 'NFC', division: 'South' },
+  { abbreviation: 'TB', name: 'Tampa Bay Buccaneers', logo: '🏴‍☠️', conference: 'NFC', division: 'South' },
+  { abbreviation: 'ARI', name: 'Arizona Cardinals', logo: '🐦', conference: 'NFC', division: 'West' },
+  { abbreviation: 'LAR', name: 'Los Angeles Rams', logo: '🐏', conference: 'NFC', division: 'West' },
+  { abbreviation: 'SF', name: 'San Francisco 49ers', logo: '⭐', conference: 'NFC', division: 'West' },
+  { abbreviation: 'SEA', name: 'Seattle Seahawks', logo: '🌊', conference: 'NFC', division: 'West' }
+];
+
+export const getTeam = (abbreviation: string) => {
+  return nflTeams.find(team => team.abbreviation === abbreviation);
+};
@@ -0,0 +1,159 @@
+// Against-the-spread pick'em: line snapshots, pick validation, push-aware grading and leaderboards
+import { FinalScore } from './grading.tsx'
+import { isGameLocked } from './locks.tsx'
+import { PoolMember } from './pools.tsx'
+import { Season, seasonScope } from './seasons.tsx'
+
+// 'pick' snapshots the imported line when each pick is made; 'commissioner' grades everyone against the
+// lines the commissioner locks for the week
+export type AtsLineLock = 'pick' | 'commissioner'
+
+export interface AtsPick {
+  week: number
+  gameId: string
+  team: string
+  // The picked team's line at snapshot time, negative when they're favored
+  line: number
+  snapshotAt: string
+  result?: 'win' | 'loss' | 'push' | 'pending'
+}
+
+// Home lines keyed by game id, frozen when the commissioner locks the week
+export interface AtsLines {
+  week: number
+  lines: Record<string, number>
+  lockedAt: string
+}
+
+export const DEFAULT_ATS_PICKS_PER_WEEK = 5
+export const DEFAULT_ATS_LINE_LOCK: AtsLineLock = 'pick'
+
+// A push is worth half a win
+export const ATS_PUSH_POINTS = 0.5
+
+export const parseAtsLineLock = (value: unknown): AtsLineLock => {
+  return value === 'pick' || value === 'commissioner' ? value : DEFAULT_ATS_LINE_LOCK
+}
+
+export const atsPicksKey = (season: Season, userId: string, poolId?: string | null) => {
+  return `ats_picks_${seasonScope(season)}_${poolId ?? 'personal'}_${userId}`
+}
+
+// Everyone with personal ATS picks in a season, so the grading job can find them
+export const atsUsersKey = (season: Season) => `ats_users_${seasonScope(season)}`
+
+export const atsLinesKey = (season: Season, poolId: string, week: number) => {
+  return `ats_lines_${seasonScope(season)}_${poolId}_${week}`
+}
+
+export const getTeamLine = (game: any, team: string, homeSpread: number) => {
+  return game.homeTeam.abbreviation === team ? homeSpread : -homeSpread
+}
+
+const describeGame = (game: any) => `${game.awayTeam.abbreviation} @ ${game.homeTeam.abbreviation}`
+
+// Builds the week's picks from a request, or explains why it can't be saved. Unchanged picks keep the line
+// they were snapshotted at; picks for games that have kicked off can't be added, changed or dropped.
+export const buildAtsWeekPicks = (
+  requested: any,
+  week: number,
+  schedule: any,
+  odds: Record<string, any>,
+  lockedLines: AtsLines | null,
+  lineLock: AtsLineLock,
+  picksPerWeek: number,
+  existing: AtsPick[],
+  now = new Date()
+): { picks: AtsPick[] } | { error: string } => {
+  const games: any[] = schedule?.games ?? []
+  if (games.length === 0) return { error: 'No games scheduled this week' }
+  if (!Array.isArray(requested)) return { error: 'Picks must be an array' }
+  if (requested.length > picksPerWeek) return { error: `Pick at most ${picksPerWeek} games a week` }
+  if (lineLock === 'commissioner' && !lockedLines) {
+    return { error: `Lines for week ${week} haven't been locked by the commissioner yet` }
+  }
+
+  const picks: AtsPick[] = []
+  for (const pick of requested) {
+    const game = games.find(g => g.id === pick?.gameId)
+    if (!game) return { error: `Unknown game ${pick?.gameId}` }
+    if (game.awayTeam.abbreviation !== pick.team && game.homeTeam.abbreviation !== pick.team) {
+      return { error: `${pick.team} is not playing in ${describeGame(game)}` }
+    }
+    if (picks.some(p => p.gameId === game.id)) return { error: `${describeGame(game)} is picked more than once` }
+
+    const kept = existing.find(p => p.gameId === game.id && p.team === pick.team)
+    if (kept) {
+      picks.push(kept)
+      continue
+    }
+    if (isGameLocked(game, now)) return { error: `${describeGame(game)} has already kicked off` }
+
+    // Locked lines only apply to commissioner pools; otherwise each pick takes the line current when it's made
+    const homeSpread = lineLock === 'commissioner' ? lockedLines?.lines[game.id] : odds[game.id]?.spread
+    if (typeof homeSpread !== 'number') return { error: `No line available for ${describeGame(game)}` }
+
+    picks.push({
+      week,
+      gameId: game.id,
+      team: pick.team,
+      line: getTeamLine(game, pick.team, homeSpread),
+      snapshotAt: now.toISOString(),
+      result: 'pending'
+    })
+  }
+
+  for (const pick of existing) {
+    const game = games.find(g => g.id === pick.gameId)
+    if (game && isGameLocked(game, now) && !picks.includes(pick)) {
+      return { error: `${describeGame(game)} has already kicked off` }
+    }
+  }
+
+  return { picks }
+}
+
+export const getAtsResult = (pick: AtsPick, scores: FinalScore[]) => {
+  const score = scores.find(s => s.awayTeam === pick.team || s.homeTeam === pick.team)
+  if (!score) return 'pending'
+
+  const margin = score.homeTeam === pick.team
+    ? score.homeScore - score.awayScore
+    : score.awayScore - score.homeScore
+  const covered = margin + pick.line
+
+  if (covered === 0) return 'push'
+  return covered > 0 ? 'win' : 'loss'
+}
+
+export const gradeAtsPicks = (picks: AtsPick[], week: number, scores: FinalScore[]) => {
+  return picks.map(pick => pick.week === week ? { ...pick, result: getAtsResult(pick, scores) } : pick)
+}
+
+export const getAtsRecord = (picks: AtsPick[]) => {
+  const wins = picks.filter(pick => pick.result === 'win').length
+  const losses = picks.filter(pick => pick.result === 'loss').length
+  const pushes = picks.filter(pick => pick.result === 'push').length
+  return { wins, losses, pushes, points: wins + pushes * ATS_PUSH_POINTS }
+}
+
+export interface AtsLeaderboardEntry {
+  member: PoolMember
+  picks: AtsPick[]
+}
+
+// Season points with each graded week's points alongside; the better record breaks ties
+export const buildAtsLeaderboard = (commissionerId: string, entries: AtsLeaderboardEntry[]) => {
+  return entries
+    .map(({ member, picks }) => {
+      const weeks = Array.from(new Set(picks.map(pick => pick.week)))
+      return {
+        userId: member.userId,
+        name: member.name,
+        isCommissioner: member.userId === commissionerId,
+        ...getAtsRecord(picks),
+        weeklyPoints: Object.fromEntries(weeks.map(week => [week, getAtsRecord(picks.filter(pick => pick.week === week)).points]))
+      }
+    })
+    .sort((a, b) => b.points - a.points || b.wins - a.wins || a.losses - b.losses)
+}
@@ -0,0 +1,196 @@
+// Postseason bracket challenge: playoff seeds, NFL reseeding, bracket validation and per-round scoring
+import { isGameLocked } from './locks.tsx'
+import { PoolMember } from './pools.tsx'
+import { seasonScope } from './seasons.tsx'
+
+export const POSTSEASON = 3
+
+export type Conference = 'AFC' | 'NFC'
+
+export const CONFERENCES: Conference[] = ['AFC', 'NFC']
+
+// Seven teams per conference, 1 seed first
+export interface PlayoffSeeds {
+  year: number
+  seeds: Record<Conference, string[]>
+  updatedAt: string
+}
+
+// Teams picked to win their game in each round, keyed by round
+export interface Bracket {
+  winners: Record<number, string[]>
+  updatedAt: string
+}
+
+// The higher seed hosts; the Super Bowl lists the AFC champion first and is played at a neutral site
+export interface Matchup {
+  conference: Conference | null
+  higher: string
+  lower: string
+}
+
+// Rounds line up with postseason weeks: 6 Wild Card games, 4 Divisional, 2 Conference Championships, the Super Bowl
+export const BRACKET_ROUNDS = [1, 2, 3, 4]
+
+export const ROUND_NAMES: Record<number, string> = {
+  1: 'Wild Card',
+  2: 'Divisional',
+  3: 'Conference Championship',
+  4: 'Super Bowl'
+}
+
+// Points for each correct winner, by round
+export const DEFAULT_BRACKET_POINTS = [1, 2, 4, 8]
+
+// Seeds belong to a pool, set by its commissioner, or to one user's personal bracket
+export const playoffSeedsKey = (year: number, userId: string, poolId?: string | null) => {
+  return `playoff_seeds_${year}_${poolId ?? `personal_${userId}`}`
+}
+
+export const bracketKey = (year: number, userId: string, poolId?: string | null) => {
+  return `bracket_${seasonScope({ year, seasonType: POSTSEASON })}_${poolId ?? 'personal'}_${userId}`
+}
+
+export const parseBracketPoints = (value: unknown, base: number[]) => {
+  if (!Array.isArray(value) || value.length !== BRACKET_ROUNDS.length) return base
+  const points = value.map(Number)
+  return points.every(p => Number.isInteger(p) && p >= 0 && p <= 100) ? points : base
+}
+
+export const validateSeeds = (seeds: any) => {
+  for (const conference of CONFERENCES) {
+    const teams = seeds?.[conference]
+    if (!Array.isArray(teams) || teams.length !== 7 || teams.some(team => typeof team !== 'string' || !team)) {
+      return `${conference} needs seven seeded teams`
+    }
+  }
+  const all = CONFERENCES.flatMap(conference => seeds[conference])
+  if (new Set(all).size !== all.length) return 'A team can only be seeded once'
+  return null
+}
+
+// Round matchups implied by the picks before it. After the Wild Card round the 1 seed hosts the lowest
+// remaining seed, so a round's games only exist once the previous round is picked for that conference.
+export const getRoundMatchups = (seeds: Record<Conference, string[]>, winners: Record<number, string[]>, round: number): Matchup[] => {
+  if (round === 4) {
+    const [afc, nfc] = CONFERENCES.map(conference => (winners[3] ?? []).find(team => seeds[conference].includes(team)))
+    return afc && nfc ? [{ conference: null, higher: afc, lower: nfc }] : []
+  }
+
+  return CONFERENCES.flatMap(conference => {
+    const teams = seeds[conference]
+    if (round === 1) {
+      return [[1, 6], [2, 5], [3, 4]].map(([higher, lower]) => ({ conference, higher: teams[higher], lower: teams[lower] }))
+    }
+
+    const advanced = (winners[round - 1] ?? [])
+      .filter(team => teams.includes(team))
+      .sort((a, b) => teams.indexOf(a) - teams.indexOf(b))
+    if (round === 2 && advanced.length === 3) {
+      return [
+        { conference, higher: teams[0], lower: advanced[2] },
+        { conference, higher: advanced[0], lower: advanced[1] }
+      ]
+    }
+    if (round === 3 && advanced.length === 2) {
+      return [{ conference, higher: advanced[0], lower: advanced[1] }]
+    }
+    return []
+  })
+}
+
+// Partial brackets are fine; every pick just has to win a game the earlier picks set up
+export const validateBracket = (seeds: Record<Conference, string[]>, winners: any) => {
+  if (!winners || typeof winners !== 'object') return 'Bracket picks are required'
+
+  for (const round of BRACKET_ROUNDS) {
+    const picks = winners[round] ?? []
+    if (!Array.isArray(picks)) return `${ROUND_NAMES[round]} picks must be an array`
+
+    const matchups = getRoundMatchups(seeds, winners, round)
+    for (const team of picks) {
+      if (!matchups.some(m => m.higher === team || m.lower === team)) {
+        return `${team} has no ${ROUND_NAMES[round]} game in this bracket`
+      }
+    }
+    const doubled = matchups.find(m => picks.includes(m.higher) && picks.includes(m.lower))
+    if (doubled) return `${doubled.higher} and ${doubled.lower} can't both win`
+  }
+  return null
+}
+
+export const normalizeWinners = (winners: any): Record<number, string[]> => {
+  return Object.fromEntries(BRACKET_ROUNDS.map(round => [round, winners?.[round] ?? []]))
+}
+
+// Without a Wild Card schedule, brackets lock on the earliest date the Wild Card round has been played
+// (January 9, Eastern), so a missing schedule never leaves them open once games start
+export const getFallbackLockTime = (year: number) => new Date(Date.UTC(year + 1, 0, 9, 5))
+
+// Brackets lock for everyone at the first Wild Card kickoff
+export const isBracketLocked = (wildCardSchedule: any, year: number, now = new Date()) => {
+  const games: any[] = wildCardSchedule?.games ?? []
+  if (games.length === 0) return now >= getFallbackLockTime(year)
+  return games.some((game: any) => isGameLocked(game, now))
+}
+
+// Winners and eliminated teams from the stored postseason weeks, one schedule per round
+export const getPlayoffResults = (schedules: any[]) => {
+  const winners: Record<number, string[]> = {}
+  const eliminated: string[] = []
+
+  BRACKET_ROUNDS.forEach((round, i) => {
+    winners[round] = []
+    for (const game of schedules[i]?.games ?? []) {
+      if (game.status !== 'final' || !game.score || game.score.home === game.score.away) continue
+      const homeWon = game.score.home > game.score.away
+      winners[round].push(homeWon ? game.homeTeam.abbreviation : game.awayTeam.abbreviation)
+      eliminated.push(homeWon ? game.awayTeam.abbreviation : game.homeTeam.abbreviation)
+    }
+  })
+
+  return { winners, eliminated }
+}
+
+// Points so far, plus the most still reachable if every pick whose team is alive keeps winning
+export const scoreBracket = (bracket: Bracket | null, results: ReturnType<typeof getPlayoffResults>, points: number[]) => {
+  const roundPoints = BRACKET_ROUNDS.map(() => 0)
+  let possible = 0
+  let correct = 0
+
+  BRACKET_ROUNDS.forEach((round, i) => {
+    for (const team of bracket?.winners[round] ?? []) {
+      if (results.winners[round].includes(team)) {
+        roundPoints[i] += points[i]
+        correct++
+      } else if (!results.eliminated.includes(team)) {
+        possible += points[i]
+      }
+    }
+  })
+
+  const score = roundPoints.reduce((sum, p) => sum + p, 0)
+  return { score, possible: score + possible, correct, roundPoints }
+}
+
+export interface BracketLeaderboardEntry {
+  member: PoolMember
+  bracket: Bracket | null
+}
+
+export const buildBracketLeaderboard = (
+  commissionerId: string,
+  entries: BracketLeaderboardEntry[],
+  results: ReturnType<typeof getPlayoffResults>,
+  points: number[]
+) => {
+  return entries
+    .map(({ member, bracket }) => ({
+      userId: member.userId,
+      name: member.name,
+      isCommissioner: member.userId === commissionerId,
+      champion: bracket?.winners[4]?.[0] ?? null,
+      ...scoreBracket(bracket, results, points)
+    }))
+    .sort((a, b) => b.score - a.score || b.possible - a.possible)
+}
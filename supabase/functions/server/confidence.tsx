@@ -0,0 +1,142 @@
+// Confidence pick'em: weekly sheets ranking every game from 1 to N points, grading and the season leaderboard
+import { FinalScore, getPickResult, TieRule } from './grading.tsx'
+import { isGameLocked } from './locks.tsx'
+import { PoolMember } from './pools.tsx'
+import { Season, seasonScope } from './seasons.tsx'
+
+export interface ConfidencePick {
+  gameId: string
+  team: string
+  points: number
+  result?: 'win' | 'loss' | 'pending'
+}
+
+export interface ConfidenceSheet {
+  week: number
+  picks: ConfidencePick[]
+  // Filled in by grading
+  score?: number
+  maxScore?: number
+  updatedAt: string
+}
+
+// One key per user and season holds every week's sheet, like survivor picks
+export const confidencePicksKey = (season: Season, userId: string, poolId?: string | null) => {
+  return `confidence_picks_${seasonScope(season)}_${poolId ?? 'personal'}_${userId}`
+}
+
+// Everyone with personal confidence picks in a season, so the grading job can find them
+export const confidenceUsersKey = (season: Season) => `confidence_users_${seasonScope(season)}`
+
+const sameTeams = (game: any, team: string) => {
+  return game.awayTeam.abbreviation === team || game.homeTeam.abbreviation === team
+}
+
+const describeGame = (game: any) => `${game.awayTeam.abbreviation} @ ${game.homeTeam.abbreviation}`
+
+// A pick is locked once its game kicks off or it has been graded
+const isPickLocked = (game: any, pick: ConfidencePick | undefined, now: Date) => {
+  return isGameLocked(game, now) || pick?.result === 'win' || pick?.result === 'loss'
+}
+
+// Returns an error message, or null when the sheet can be saved. Points must be unique whole numbers from 1
+// to the number of games that week; a sheet may be partial until every game is picked. Locked picks must
+// match what was already saved, so the rest of a partly graded week stays open.
+export const validateConfidenceSheet = (
+  picks: any,
+  schedule: any,
+  existing: ConfidencePick[],
+  now = new Date()
+): string | null => {
+  const games: any[] = schedule?.games ?? []
+  if (games.length === 0) return 'No games scheduled this week'
+  if (!Array.isArray(picks)) return 'Picks must be an array'
+
+  const seenGames = new Set<string>()
+  const seenPoints = new Set<number>()
+  for (const pick of picks) {
+    const game = games.find(g => g.id === pick?.gameId)
+    if (!game) return `Unknown game ${pick?.gameId}`
+    if (!sameTeams(game, pick.team)) return `${pick.team} is not playing in ${describeGame(game)}`
+    if (!Number.isInteger(pick.points) || pick.points < 1 || pick.points > games.length) {
+      return `Points for ${describeGame(game)} must be between 1 and ${games.length}`
+    }
+    if (seenGames.has(game.id)) return `${describeGame(game)} is picked more than once`
+    if (seenPoints.has(pick.points)) return `${pick.points} points is used more than once`
+    seenGames.add(game.id)
+    seenPoints.add(pick.points)
+  }
+
+  for (const game of games) {
+    const before = existing.find(pick => pick.gameId === game.id)
+    if (!isPickLocked(game, before, now)) continue
+    const after = picks.find((pick: any) => pick.gameId === game.id)
+    if (before?.team !== after?.team || before?.points !== after?.points) {
+      return `${describeGame(game)} has already kicked off`
+    }
+  }
+
+  return null
+}
+
+// The saved sheet for a week: unchanged picks keep their results, and a graded week's score is recounted
+export const buildConfidenceSheet = (week: number, picks: any[], existing: ConfidenceSheet | undefined): ConfidenceSheet => {
+  const saved: ConfidencePick[] = picks.map(({ gameId, team, points }) => {
+    const before = existing?.picks.find(pick => pick.gameId === gameId && pick.team === team)
+    return { gameId, team, points, result: before?.result ?? 'pending' }
+  })
+  const sheet: ConfidenceSheet = { week, picks: saved, updatedAt: new Date().toISOString() }
+  if (existing?.score === undefined) return sheet
+
+  return {
+    ...sheet,
+    score: saved.filter(pick => pick.result === 'win').reduce((sum, pick) => sum + pick.points, 0),
+    maxScore: saved.reduce((sum, pick) => sum + pick.points, 0)
+  }
+}
+
+// Grades one week's sheet; its score counts points from the picks graded so far
+export const gradeConfidenceSheets = (
+  sheets: ConfidenceSheet[],
+  week: number,
+  scores: FinalScore[],
+  tieRule: TieRule
+) => {
+  return sheets.map(sheet => {
+    if (sheet.week !== week) return sheet
+
+    const picks = sheet.picks.map(pick => ({ ...pick, result: getPickResult(pick.team, scores, tieRule) }))
+    return {
+      ...sheet,
+      picks,
+      score: picks.filter(pick => pick.result === 'win').reduce((sum, pick) => sum + pick.points, 0),
+      maxScore: picks.reduce((sum, pick) => sum + pick.points, 0)
+    }
+  })
+}
+
+export interface ConfidenceLeaderboardEntry {
+  member: PoolMember
+  sheets: ConfidenceSheet[]
+}
+
+// Season totals, most points first; correct picks break ties
+export const buildConfidenceLeaderboard = (commissionerId: string, entries: ConfidenceLeaderboardEntry[]) => {
+  return entries
+    .map(({ member, sheets }) => {
+      const graded = sheets.filter(sheet => sheet.score !== undefined)
+      const picks = graded.flatMap(sheet => sheet.picks)
+      return {
+        userId: member.userId,
+        name: member.name,
+        isCommissioner: member.userId === commissionerId,
+        totalPoints: graded.reduce((sum, sheet) => sum + (sheet.score ?? 0), 0),
+        weeksPlayed: graded.length,
+        bestWeek: graded.reduce((best, sheet) => Math.max(best, sheet.score ?? 0), 0),
+        correctPicks: picks.filter(pick => pick.result === 'win').length,
+        gradedPicks: picks.filter(pick => pick.result === 'win' || pick.result === 'loss').length,
+        weeklyPoints: Object.fromEntries(graded.map(sheet => [sheet.week, sheet.score ?? 0]))
+      }
+    })
+    .sort((a, b) => b.totalPoints - a.totalPoints || b.correctPicks - a.correctPicks)
+}
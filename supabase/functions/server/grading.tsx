@@ -0,0 +1,75 @@
+// Survivor pick grading shared by the grading job routes
+
+export type TieRule = 'win' | 'loss'
+
+export interface FinalScore {
+  awayTeam: string
+  homeTeam: string
+  awayScore: number
+  homeScore: number
+}
+
+export interface PoolStatus {
+  wins: number
+  losses: number
+  isEliminated: boolean
+  eliminatedWeek: number | null
+  // Losses the entry can still absorb before it's out
+  livesRemaining: number
+  updatedAt: string
+}
+
+export const DEFAULT_TIE_RULE: TieRule = 'loss'
+
+export const parseTieRule = (value: unknown): TieRule => {
+  return value === 'win' || value === 'loss' ? value : DEFAULT_TIE_RULE
+}
+
+// Final scores from a stored schedule week; unfinished games are skipped
+export const getFinalScores = (schedule: any): FinalScore[] => {
+  return (schedule?.games ?? [])
+    .filter((game: any) => game.status === 'final' && game.score)
+    .map((game: any) => ({
+      awayTeam: game.awayTeam.abbreviation,
+      homeTeam: game.homeTeam.abbreviation,
+      awayScore: game.score.away,
+      homeScore: game.score.home
+    }))
+}
+
+// Results are from the entry's side: in a loser pool the pick wins when its team loses. Ties follow the tie rule either way.
+export const getPickResult = (team: string, scores: FinalScore[], tieRule: TieRule, pickToLose = false) => {
+  const score = scores.find(s => s.awayTeam === team || s.homeTeam === team)
+  if (!score) return 'pending'
+
+  const margin = score.homeTeam === team
+    ? score.homeScore - score.awayScore
+    : score.awayScore - score.homeScore
+
+  if (margin === 0) return tieRule
+  return (margin > 0) !== pickToLose ? 'win' : 'loss'
+}
+
+// Missed picks are recorded as losses when they're added, so they're left as they are
+export const gradePicks = (picks: any[], week: number, scores: FinalScore[], tieRule: TieRule, pickToLose = false) => {
+  return picks.map(pick => pick.week === week && !pick.missed
+    ? { ...pick, result: getPickResult(pick.team, scores, tieRule, pickToLose) }
+    : pick
+  )
+}
+
+// An entry with N lives is eliminated in the week of its Nth loss
+export const getPoolStatus = (picks: any[], lives = 1): PoolStatus => {
+  const graded = [...picks].sort((a, b) => a.week - b.week)
+  const losses = graded.filter(pick => pick.result === 'loss')
+  const finalLoss = losses[lives - 1]
+
+  return {
+    wins: graded.filter(pick => pick.result === 'win').length,
+    losses: losses.length,
+    isEliminated: !!finalLoss,
+    eliminatedWeek: finalLoss?.week ?? null,
+    livesRemaining: Math.max(0, lives - losses.length),
+    updatedAt: new Date().toISOString()
+  }
+}
@@ -3,6 +3,76 @@ import { cors } from 'npm:hono/cors'
 import { logger } from 'npm:hono/logger'
 import { createClient } from 'npm:@supabase/supabase-js@2'
 import * as kv from './kv_store.tsx'
+import { getFinalScores, getPoolStatus, gradePicks, parseTieRule } from './grading.tsx'
+import { findTeamGame, isGameLocked } from './locks.tsx'
+import {
+  buildPickPopularity,
+  buildStandings,
+  createJoinCode,
+  entriesKey,
+  getDefaultEntries,
+  getMemberName,
+  getPoolRules,
+  isMember,
+  legacyEntriesKey,
+  legacyPicksKey,
+  legacyStatusKey,
+  parsePoolRules,
+  picksKey,
+  poolUsersKey,
+  statusKey,
+  LEGACY_POOL_USERS_KEY,
+  MAIN_ENTRY_ID,
+  DEFAULT_POOL_RULES,
+  Pool,
+  PoolEntry,
+  PoolRules,
+  StandingEntry
+} from './pools.tsx'
+import {
+  atsLinesKey,
+  atsPicksKey,
+  atsUsersKey,
+  buildAtsLeaderboard,
+  buildAtsWeekPicks,
+  gradeAtsPicks,
+  AtsLines,
+  AtsPick
+} from './ats.tsx'
+import {
+  buildConfidenceLeaderboard,
+  buildConfidenceSheet,
+  confidencePicksKey,
+  confidenceUsersKey,
+  gradeConfidenceSheets,
+  validateConfidenceSheet,
+  ConfidenceSheet
+} from './confidence.tsx'
+import {
+  getBuybackError,
+  getEntryLives,
+  getPicksRequired,
+  getUsedTeams,
+  withMissedPicks
+} from './survivorRules.tsx'
+import {
+  bracketKey,
+  buildBracketLeaderboard,
+  getPlayoffResults,
+  isBracketLocked,
+  normalizeWinners,
+  playoffSeedsKey,
+  validateBracket,
+  validateSeeds,
+  Bracket,
+  BRACKET_ROUNDS,
+  PlayoffSeeds,
+  POSTSEASON
+} from './bracket.tsx'
+import { DEFAULT_ITERATIONS, MAX_ITERATIONS, parseSimulationGames, simulateSeason } from './simulation.tsx'
+import { getMaxWeeks, groupPicksBySeason, parseSeason, seasonScope, Season } from './seasons.tsx'
+import { feedKey, getTrusted, isServiceRole, scheduleKey, SERVICE_WRITER } from './trusted.tsx'
+import { fetchScoreboard, isScheduleStale, parseScheduleGames } from './schedule.tsx'
 
 const app = new Hono()
 
@@ -19,6 +89,35 @@ const supabase = createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 )
 
+// Stores a checked week of games as the service-written copy every pick and grading path reads
+const storeSchedule = async (year: number, seasonType: number, week: number, games: any[]) => {
+  const schedule = {
+    year,
+    seasonType,
+    week,
+    games,
+    writtenBy: SERVICE_WRITER,
+    updatedAt: new Date().toISOString()
+  }
+  await kv.set(scheduleKey(year, seasonType, week), schedule)
+  return schedule
+}
+
+// The week's stored schedule, ingested from the scoreboard when none is stored yet, when it's stale, or when
+// refresh asks for the latest scores. Falls back to the stored copy if the scoreboard can't be reached.
+const getSchedule = async (year: number | string, seasonType: number | string, week: number | string, refresh = false) => {
+  const stored = getTrusted(await kv.get(scheduleKey(year, seasonType, week)))
+  if (stored && !refresh && !isScheduleStale(stored)) return stored
+
+  try {
+    const games = await fetchScoreboard(Number(year), Number(seasonType), Number(week))
+    return await storeSchedule(Number(year), Number(seasonType), Number(week), games)
+  } catch (error) {
+    console.log(`Error ingesting schedule ${year} ${seasonType} week ${week}:`, error)
+    return stored
+  }
+}
+
 // User signup endpoint
 app.post('/make-server-c6567478/signup', async (c) => {
   try {
@@ -49,7 +148,8 @@ app.post('/make-server-c6567478/signup', async (c) => {
         defensive_power: 20,
         injury_impact: 15,
         weather_conditions: 10,
-        schedule_strength: 10
+        schedule_strength: 10,
+        market_probability: 0
       }
     }
 
@@ -76,7 +176,10 @@ app.get('/make-server-c6567478/user-settings', async (c) => {
       return c.text(`Unauthorized: ${error?.message}`, 401)
     }
 
-    const settings = await kv.get(`user_settings_${user.id}`)
+    // A season's snapshot wins so past seasons keep the weights they were predicted with
+    const { year, seasonType } = c.req.query()
+    const snapshot = year ? await kv.get(`user_settings_${user.id}_${seasonScope(parseSeason(year, seasonType))}`) : null
+    const settings = snapshot || await kv.get(`user_settings_${user.id}`)
     return c.json(settings || {})
   } catch (error) {
     console.log('Error getting user settings:', error)
@@ -98,8 +201,11 @@ app.post('/make-server-c6567478/user-settings', async (c) => {
       return c.text(`Unauthorized: ${error?.message}`, 401)
     }
 
-    const settings = await c.req.json()
+    const { year, seasonType, ...settings } = await c.req.json()
     await kv.set(`user_settings_${user.id}`, settings)
+    if (year) {
+      await kv.set(`user_settings_${user.id}_${seasonScope(parseSeason(year, seasonType))}`, settings)
+    }
 
     return c.json({ success: true })
   } catch (error) {
@@ -122,7 +228,12 @@ app.get('/make-server-c6567478/suicide-pool-picks', async (c) => {
       return c.text(`Unauthorized: ${error?.message}`, 401)
     }
 
-    const picks = await kv.get(`suicide_pool_picks_${user.id}`)
+    const { poolId, entryId, year, seasonType } = c.req.query()
+    if (poolId && !isMember(await kv.get(`pool_${poolId}`), user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const picks = await kv.get(picksKey(parseSeason(year, seasonType), user.id, poolId, entryId))
     return c.json(picks || [])
   } catch (error) {
     console.log('Error getting suicide pool picks:', error)
@@ -144,23 +255,97 @@ app.post('/make-server-c6567478/suicide-pool-pick', async (c) => {
       return c.text(`Unauthorized: ${error?.message}`, 401)
     }
 
-    const newPick = await c.req.json()
-    const existingPicks = await kv.get(`suicide_pool_picks_${user.id}`) || []
-    
+    const { poolId, entryId, replaceTeam, id, week, team, teamName, confidence, year, seasonType } = await c.req.json()
+    // Used teams and elimination only carry within a season
+    const season = parseSeason(year, seasonType)
+    if (!Number.isInteger(week) || week < 1 || week > getMaxWeeks(season.seasonType)) {
+      return c.text('A valid week is required', 400)
+    }
+    if (typeof team !== 'string' || typeof teamName !== 'string' || !Number.isFinite(confidence)) {
+      return c.text('A pick needs a team, teamName and confidence', 400)
+    }
+
+    const pool: Pool | null = poolId ? await kv.get(`pool_${poolId}`) : null
+    if (poolId && !isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+    const rules = getPoolRules(pool)
+    if (pool && week < rules.startWeek) {
+      return c.text(`${pool.name} starts in week ${rules.startWeek}`, 400)
+    }
+
+    const entries: PoolEntry[] = await kv.get(entriesKey(season, user.id, poolId)) || getDefaultEntries('')
+    const entry = entries.find(e => e.id === (entryId || MAIN_ENTRY_ID))
+    if (!entry) {
+      return c.text('Entry not found', 404)
+    }
+
+    const existingPicks = await kv.get(picksKey(season, user.id, poolId, entryId)) || []
+
+    const status = getPoolStatus(existingPicks, getEntryLives(rules, entry))
+    if (status.isEliminated) {
+      return c.text(`Eliminated from suicide pool in week ${status.eliminatedWeek}`, 400)
+    }
+
+    // Picks lock at the kickoff of the picked team's game, taken only from the ingested schedule
+    const schedule = await getSchedule(season.year, season.seasonType, week)
+    const game = findTeamGame(schedule, team)
+    if (!game) {
+      return c.text(`${team} has no game scheduled in week ${week}`, 400)
+    }
+    if (isGameLocked(game)) {
+      return c.text(`${team} game has already kicked off`, 400)
+    }
+
+    // A pick can be changed until its team kicks off. With one pick a week the week's pick is swapped;
+    // weeks needing more name the team being replaced.
+    const required = getPicksRequired(rules, week)
+    const weekPicks = existingPicks.filter((pick: any) => pick.week === week)
+    const replacedPick = replaceTeam
+      ? weekPicks.find((pick: any) => pick.team === replaceTeam)
+      : required === 1 ? weekPicks[0] : undefined
+    if (replaceTeam && !replacedPick) {
+      return c.text(`${replaceTeam} is not picked in week ${week}`, 400)
+    }
+    // A replaced pick with no game on the schedule can't be shown to be unlocked, so it stays
+    const replacedGame = replacedPick ? findTeamGame(schedule, replacedPick.team) : null
+    if (replacedPick && (!replacedGame || isGameLocked(replacedGame))) {
+      return c.text(`Week ${week} ${replacedPick.team} pick is locked`, 400)
+    }
+    if (!replacedPick && weekPicks.length >= required) {
+      return c.text(`Week ${week} already has ${required} pick${required === 1 ? '' : 's'}`, 400)
+    }
+    if (weekPicks.some((pick: any) => pick !== replacedPick && pick.team === team)) {
+      return c.text(`${team} is already picked in week ${week}`, 400)
+    }
+
     // Check if team was already used
-    const usedTeams = existingPicks.map((pick: any) => pick.team)
-    if (usedTeams.includes(newPick.team)) {
+    if (getUsedTeams(existingPicks, week, rules).includes(team)) {
       return c.text('Team already used in suicide pool', 400)
     }
 
-    // Check if pick already exists for this week
-    const existingWeekPick = existingPicks.find((pick: any) => pick.week === newPick.week)
-    if (existingWeekPick) {
-      return c.text('Pick already made for this week', 400)
-    }
+    const updatedPicks = [
+      ...existingPicks.filter((pick: any) => pick !== replacedPick),
+      // Only the pick itself is taken from the request; its result and game date are the server's
+      {
+        id: typeof id === 'string' && id ? id : crypto.randomUUID(),
+        week,
+        team,
+        teamName,
+        confidence: Math.min(100, Math.max(0, confidence)),
+        result: 'pending',
+        gameDate: game.gameDate,
+        ...season
+      }
+    ].sort((a: any, b: any) => a.week - b.week)
+    await kv.set(picksKey(season, user.id, poolId, entryId), updatedPicks)
 
-    const updatedPicks = [...existingPicks, newPick]
-    await kv.set(`suicide_pool_picks_${user.id}`, updatedPicks)
+    if (!poolId) {
+      const poolUsers = await kv.get(poolUsersKey(season)) || []
+      if (!poolUsers.includes(user.id)) {
+        await kv.set(poolUsersKey(season), [...poolUsers, user.id])
+      }
+    }
 
     return c.json({ success: true })
   } catch (error) {
@@ -169,4 +354,1536 @@ app.post('/make-server-c6567478/suicide-pool-pick', async (c) => {
   }
 })
 
+// Get suicide pool record and elimination status
+app.get('/make-server-c6567478/suicide-pool-status', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting suicide pool status:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, entryId, year, seasonType } = c.req.query()
+    const pool: Pool | null = poolId ? await kv.get(`pool_${poolId}`) : null
+    if (poolId && !isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const season = parseSeason(year, seasonType)
+    const status = await kv.get(statusKey(season, user.id, poolId, entryId))
+    if (status) {
+      return c.json(status)
+    }
+
+    const entries: PoolEntry[] = await kv.get(entriesKey(season, user.id, poolId)) || []
+    const entry = entries.find(e => e.id === (entryId || MAIN_ENTRY_ID))
+    const picks = await kv.get(picksKey(season, user.id, poolId, entryId)) || []
+    return c.json(getPoolStatus(picks, getEntryLives(getPoolRules(pool), entry)))
+  } catch (error) {
+    console.log('Error getting suicide pool status:', error)
+    return c.text(`Error getting suicide pool status: ${error}`, 500)
+  }
+})
+
+// List the caller's entries for a pool (or personal picks) with each entry's picks and status
+app.get('/make-server-c6567478/suicide-pool-entries', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting suicide pool entries:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, year, seasonType } = c.req.query()
+    const pool: Pool | null = poolId ? await kv.get(`pool_${poolId}`) : null
+    if (poolId && !isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const season = parseSeason(year, seasonType)
+    const rules = getPoolRules(pool)
+    const entries: PoolEntry[] = await kv.get(entriesKey(season, user.id, poolId)) || getDefaultEntries(user.created_at)
+    const withPicks = await Promise.all(entries.map(async entry => {
+      const picks = await kv.get(picksKey(season, user.id, poolId, entry.id)) || []
+      const status = await kv.get(statusKey(season, user.id, poolId, entry.id)) || getPoolStatus(picks, getEntryLives(rules, entry))
+      return { ...entry, picks, status }
+    }))
+
+    return c.json(withPicks)
+  } catch (error) {
+    console.log('Error getting suicide pool entries:', error)
+    return c.text(`Error getting suicide pool entries: ${error}`, 500)
+  }
+})
+
+// Add a named entry, up to the pool's entry limit
+app.post('/make-server-c6567478/suicide-pool-entries', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error creating suicide pool entry:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, name, year, seasonType } = await c.req.json()
+    const pool: Pool | null = poolId ? await kv.get(`pool_${poolId}`) : null
+    if (poolId && !isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const season = parseSeason(year, seasonType)
+    const entries: PoolEntry[] = await kv.get(entriesKey(season, user.id, poolId)) || getDefaultEntries(user.created_at)
+    const maxEntries = pool?.rules.maxEntries ?? DEFAULT_POOL_RULES.maxEntries
+    if (entries.length >= maxEntries) {
+      return c.text(`Entry limit reached (${maxEntries})`, 400)
+    }
+
+    const entry: PoolEntry = {
+      id: crypto.randomUUID(),
+      name: name?.trim() || `Entry ${entries.length + 1}`,
+      createdAt: new Date().toISOString()
+    }
+    await kv.set(entriesKey(season, user.id, poolId), [...entries, entry])
+
+    // Personal entries are graded through the personal user index
+    if (!poolId) {
+      const poolUsers = await kv.get(poolUsersKey(season)) || []
+      if (!poolUsers.includes(user.id)) {
+        await kv.set(poolUsersKey(season), [...poolUsers, user.id])
+      }
+    }
+
+    return c.json(entry)
+  } catch (error) {
+    console.log('Error creating suicide pool entry:', error)
+    return c.text(`Error creating suicide pool entry: ${error}`, 500)
+  }
+})
+
+// Grade every user's pick for a week from final scores. Called by a scheduled job with the service role key.
+app.post('/make-server-c6567478/grade-week', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken || accessToken !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      return c.text('Unauthorized: Grading requires the service role key', 401)
+    }
+
+    const { year, seasonType, week, scores, tieRule } = await c.req.json()
+    if (!Number.isInteger(week)) {
+      return c.text('Missing week to grade', 400)
+    }
+    const invalidScores = Array.isArray(scores) && scores.some((score: any) =>
+      typeof score?.awayTeam !== 'string' || typeof score?.homeTeam !== 'string' ||
+      !Number.isFinite(score?.awayScore) || !Number.isFinite(score?.homeScore)
+    )
+    if (invalidScores) {
+      return c.text('Every score needs awayTeam, homeTeam, awayScore and homeScore', 400)
+    }
+
+    // Results come from the job's own scores or a fresh ingest of the scoreboard, never a user-written copy
+    const season = parseSeason(year, seasonType)
+    const schedule = await getSchedule(season.year, season.seasonType, week, true)
+    const finalScores = Array.isArray(scores) ? scores : getFinalScores(schedule)
+    if (finalScores.length === 0) {
+      return c.text(`No final scores available for week ${week}`, 400)
+    }
+
+    // Missing pool picks only count against an entry once every game of the week is final
+    const weekComplete = (schedule?.games ?? []).length > 0 && schedule.games.every((game: any) => game.status === 'final')
+
+    const rule = parseTieRule(tieRule ?? Deno.env.get('SURVIVOR_TIE_RULE'))
+    const personalRules: PoolRules = { ...DEFAULT_POOL_RULES, tieRule: rule }
+    let graded = 0
+
+    const gradeUser = async (userId: string, poolId: string | null, rules: PoolRules) => {
+      const entries: PoolEntry[] = await kv.get(entriesKey(season, userId, poolId)) || getDefaultEntries('')
+
+      for (const entry of entries) {
+        const lives = getEntryLives(rules, entry)
+        let picks = await kv.get(picksKey(season, userId, poolId, entry.id)) || []
+
+        const aliveGoingIn = !getPoolStatus(picks.filter((pick: any) => pick.week < week), lives).isEliminated
+        if (poolId && weekComplete && aliveGoingIn && picks.length > 0 && week >= rules.startWeek) {
+          picks = withMissedPicks(picks, week, getPicksRequired(rules, week), season.year, season.seasonType)
+        }
+        if (!picks.some((pick: any) => pick.week === week)) continue
+
+        const gradedPicks = gradePicks(picks, week, finalScores, rules.tieRule, rules.poolType === 'loser')
+        await kv.mset(
+          [picksKey(season, userId, poolId, entry.id), statusKey(season, userId, poolId, entry.id)],
+          [gradedPicks, getPoolStatus(gradedPicks, lives)]
+        )
+        graded++
+      }
+    }
+
+    // Confidence sheets are graded alongside survivor picks, with the same tie rules
+    let confidenceGraded = 0
+    const gradeConfidence = async (userId: string, poolId: string | null, entryTieRule: typeof rule) => {
+      const sheets: ConfidenceSheet[] = await kv.get(confidencePicksKey(season, userId, poolId)) || []
+      if (!sheets.some(sheet => sheet.week === week)) return
+
+      await kv.set(confidencePicksKey(season, userId, poolId), gradeConfidenceSheets(sheets, week, finalScores, entryTieRule))
+      confidenceGraded++
+    }
+
+    // ATS picks grade against their snapshotted lines, so ties with the line are pushes rather than a tie rule
+    let atsGraded = 0
+    const gradeAts = async (userId: string, poolId: string | null) => {
+      const picks: AtsPick[] = await kv.get(atsPicksKey(season, userId, poolId)) || []
+      if (!picks.some(pick => pick.week === week)) return
+
+      await kv.set(atsPicksKey(season, userId, poolId), gradeAtsPicks(picks, week, finalScores))
+      atsGraded++
+    }
+
+    const poolUsers: string[] = await kv.get(poolUsersKey(season)) || []
+    for (const userId of poolUsers) {
+      await gradeUser(userId, null, personalRules)
+    }
+
+    const confidenceUsers: string[] = await kv.get(confidenceUsersKey(season)) || []
+    for (const userId of confidenceUsers) {
+      await gradeConfidence(userId, null, rule)
+    }
+
+    const atsUsers: string[] = await kv.get(atsUsersKey(season)) || []
+    for (const userId of atsUsers) {
+      await gradeAts(userId, null)
+    }
+
+    // Pools grade ties, strikes, missed picks and loser-pool picks by their own rules
+    const poolIds: string[] = await kv.get('pool_ids') || []
+    const pools: Pool[] = poolIds.length > 0 ? await kv.mget(poolIds.map(id => `pool_${id}`)) : []
+    for (const pool of pools) {
+      for (const member of pool.members) {
+        await gradeUser(member.userId, pool.id, getPoolRules(pool))
+        await gradeConfidence(member.userId, pool.id, pool.rules.tieRule)
+        await gradeAts(member.userId, pool.id)
+      }
+    }
+
+    return c.json({ success: true, ...season, week, tieRule: rule, graded, confidenceGraded, atsGraded })
+  } catch (error) {
+    console.log('Error grading week:', error)
+    return c.text(`Error grading week: ${error}`, 500)
+  }
+})
+
+// One-off migration of picks stored before season scoping. Splits each entry's picks by season into the
+// scoped keys, recomputes status and removes the legacy keys, so running it again is a no-op.
+app.post('/make-server-c6567478/migrations/season-scoped-picks', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken || accessToken !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      return c.text('Unauthorized: Migrations require the service role key', 401)
+    }
+
+    let migrated = 0
+    const migrateUser = async (userId: string, poolId: string | null, rules: PoolRules) => {
+      const legacyEntries: PoolEntry[] = await kv.get(legacyEntriesKey(userId, poolId)) || getDefaultEntries(new Date().toISOString())
+
+      for (const entry of legacyEntries) {
+        const legacyPicks = await kv.get(legacyPicksKey(userId, poolId, entry.id)) || []
+
+        for (const { season, picks } of groupPicksBySeason(legacyPicks)) {
+          // Anything already saved under the scoped key is newer than the legacy copy
+          const scopedPicks = await kv.get(picksKey(season, userId, poolId, entry.id)) || []
+          const mergedPicks = [
+            ...scopedPicks,
+            ...picks.filter((pick: any) => !scopedPicks.some((scoped: any) => scoped.week === pick.week))
+          ].sort((a: any, b: any) => a.week - b.week)
+
+          // Status counts the entry's lives and any buybacks, as the pick and grading routes do
+          const scopedEntries: PoolEntry[] = await kv.get(entriesKey(season, userId, poolId)) || getDefaultEntries(entry.createdAt)
+          const scopedEntry = scopedEntries.find(scoped => scoped.id === entry.id) ?? entry
+          await kv.mset(
+            [picksKey(season, userId, poolId, entry.id), statusKey(season, userId, poolId, entry.id), entriesKey(season, userId, poolId)],
+            [
+              mergedPicks,
+              getPoolStatus(mergedPicks, getEntryLives(rules, scopedEntry)),
+              scopedEntries.some(scoped => scoped.id === entry.id) ? scopedEntries : [...scopedEntries, entry]
+            ]
+          )
+
+          if (!poolId) {
+            const poolUsers = await kv.get(poolUsersKey(season)) || []
+            if (!poolUsers.includes(userId)) {
+              await kv.set(poolUsersKey(season), [...poolUsers, userId])
+            }
+          }
+          migrated++
+        }
+
+        await kv.mdel([legacyPicksKey(userId, poolId, entry.id), legacyStatusKey(userId, poolId, entry.id)])
+      }
+
+      await kv.del(legacyEntriesKey(userId, poolId))
+    }
+
+    const legacyUsers: string[] = await kv.get(LEGACY_POOL_USERS_KEY) || []
+    for (const userId of legacyUsers) {
+      await migrateUser(userId, null, DEFAULT_POOL_RULES)
+    }
+
+    const poolIds: string[] = await kv.get('pool_ids') || []
+    const pools: Pool[] = poolIds.length > 0 ? await kv.mget(poolIds.map(id => `pool_${id}`)) : []
+    for (const pool of pools) {
+      for (const member of pool.members) {
+        await migrateUser(member.userId, pool.id, getPoolRules(pool))
+      }
+    }
+
+    await kv.del(LEGACY_POOL_USERS_KEY)
+    return c.json({ success: true, migrated })
+  } catch (error) {
+    console.log('Error migrating season-scoped picks:', error)
+    return c.text(`Error migrating season-scoped picks: ${error}`, 500)
+  }
+})
+
+// Create a survivor pool with the caller as commissioner
+app.post('/make-server-c6567478/pools', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error creating pool:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { name, rules } = await c.req.json()
+    if (!name?.trim()) {
+      return c.text('Pool name is required', 400)
+    }
+
+    let joinCode = createJoinCode()
+    while (await kv.get(`pool_code_${joinCode}`)) {
+      joinCode = createJoinCode()
+    }
+
+    const now = new Date().toISOString()
+    const pool: Pool = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      commissionerId: user.id,
+      joinCode,
+      members: [{ userId: user.id, name: getMemberName(user), joinedAt: now }],
+      rules: parsePoolRules(rules),
+      createdAt: now
+    }
+
+    const poolIds = await kv.get('pool_ids') || []
+    const userPools = await kv.get(`user_pools_${user.id}`) || []
+    await kv.mset(
+      [`pool_${pool.id}`, `pool_code_${joinCode}`, 'pool_ids', `user_pools_${user.id}`],
+      [pool, pool.id, [...poolIds, pool.id], [...userPools, pool.id]]
+    )
+
+    return c.json(pool)
+  } catch (error) {
+    console.log('Error creating pool:', error)
+    return c.text(`Error creating pool: ${error}`, 500)
+  }
+})
+
+// List the pools the caller belongs to
+app.get('/make-server-c6567478/pools', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting pools:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const poolIds: string[] = await kv.get(`user_pools_${user.id}`) || []
+    const pools = poolIds.length > 0 ? await kv.mget(poolIds.map(id => `pool_${id}`)) : []
+    return c.json(pools)
+  } catch (error) {
+    console.log('Error getting pools:', error)
+    return c.text(`Error getting pools: ${error}`, 500)
+  }
+})
+
+// Join a pool with its join code
+app.post('/make-server-c6567478/pools/join', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error joining pool:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { joinCode } = await c.req.json()
+    const poolId = joinCode ? await kv.get(`pool_code_${String(joinCode).trim().toUpperCase()}`) : null
+    const pool: Pool | null = poolId ? await kv.get(`pool_${poolId}`) : null
+    if (!pool) {
+      return c.text('No pool found for that join code', 404)
+    }
+
+    if (isMember(pool, user.id)) {
+      return c.json(pool)
+    }
+
+    const updatedPool = {
+      ...pool,
+      members: [...pool.members, { userId: user.id, name: getMemberName(user), joinedAt: new Date().toISOString() }]
+    }
+    const userPools = await kv.get(`user_pools_${user.id}`) || []
+    await kv.mset(
+      [`pool_${pool.id}`, `user_pools_${user.id}`],
+      [updatedPool, [...userPools, pool.id]]
+    )
+
+    return c.json(updatedPool)
+  } catch (error) {
+    console.log('Error joining pool:', error)
+    return c.text(`Error joining pool: ${error}`, 500)
+  }
+})
+
+// Update pool rules (commissioner only)
+app.put('/make-server-c6567478/pools/:poolId/rules', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error updating pool rules:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const pool: Pool | null = await kv.get(`pool_${c.req.param('poolId')}`)
+    if (!pool) {
+      return c.text('Pool not found', 404)
+    }
+    if (pool.commissionerId !== user.id) {
+      return c.text('Only the commissioner can change pool rules', 403)
+    }
+
+    const updatedPool = { ...pool, rules: parsePoolRules(await c.req.json(), pool.rules) }
+    await kv.set(`pool_${pool.id}`, updatedPool)
+
+    return c.json(updatedPool)
+  } catch (error) {
+    console.log('Error updating pool rules:', error)
+    return c.text(`Error updating pool rules: ${error}`, 500)
+  }
+})
+
+// Remove a member from a pool (commissioner only, or a member leaving)
+app.delete('/make-server-c6567478/pools/:poolId/members/:userId', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error removing pool member:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const pool: Pool | null = await kv.get(`pool_${c.req.param('poolId')}`)
+    const memberId = c.req.param('userId')
+    if (!pool || !isMember(pool, memberId)) {
+      return c.text('Pool member not found', 404)
+    }
+    if (pool.commissionerId !== user.id && memberId !== user.id) {
+      return c.text('Only the commissioner can remove other members', 403)
+    }
+    if (memberId === pool.commissionerId) {
+      return c.text('The commissioner cannot leave their own pool', 400)
+    }
+
+    const userPools: string[] = await kv.get(`user_pools_${memberId}`) || []
+    await kv.mset(
+      [`pool_${pool.id}`, `user_pools_${memberId}`],
+      [
+        { ...pool, members: pool.members.filter(member => member.userId !== memberId) },
+        userPools.filter(id => id !== pool.id)
+      ]
+    )
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.log('Error removing pool member:', error)
+    return c.text(`Error removing pool member: ${error}`, 500)
+  }
+})
+
+// Every entry of every member with its picks for one season
+const loadStandingEntries = async (pool: Pool, season: Season) => {
+  const standingEntries: StandingEntry[] = []
+  for (const member of pool.members) {
+    const entries: PoolEntry[] = await kv.get(entriesKey(season, member.userId, pool.id)) || getDefaultEntries(member.joinedAt)
+    for (const entry of entries) {
+      const picks = await kv.get(picksKey(season, member.userId, pool.id, entry.id)) || []
+      standingEntries.push({ member, entry, picks })
+    }
+  }
+  return standingEntries
+}
+
+// Standings: who is alive, who is eliminated and when
+app.get('/make-server-c6567478/pools/:poolId/standings', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting pool standings:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const pool: Pool | null = await kv.get(`pool_${c.req.param('poolId')}`)
+    if (!isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const season = parseSeason(c.req.query('year'), c.req.query('seasonType'))
+    return c.json(buildStandings(pool!, await loadStandingEntries(pool!, season)))
+  } catch (error) {
+    console.log('Error getting pool standings:', error)
+    return c.text(`Error getting pool standings: ${error}`, 500)
+  }
+})
+
+// Pick popularity: share of the pool's live entries on each team for a week
+app.get('/make-server-c6567478/pools/:poolId/popularity', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting pick popularity:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const pool: Pool | null = await kv.get(`pool_${c.req.param('poolId')}`)
+    if (!isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const week = Number(c.req.query('week'))
+    if (!Number.isInteger(week) || week < 1) {
+      return c.text('A valid week is required', 400)
+    }
+
+    const season = parseSeason(c.req.query('year'), c.req.query('seasonType'))
+    return c.json(buildPickPopularity(pool!, week, await loadStandingEntries(pool!, season)))
+  } catch (error) {
+    console.log('Error getting pick popularity:', error)
+    return c.text(`Error getting pick popularity: ${error}`, 500)
+  }
+})
+
+// Play out the rest of a season from the caller's per-game win probabilities
+app.post('/make-server-c6567478/simulate-season', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error simulating season:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { games, plan, iterations } = await c.req.json()
+    const simulationGames = parseSimulationGames(games)
+    if (simulationGames.length === 0) {
+      return c.text('Simulation requires games with win probabilities', 400)
+    }
+
+    const planPicks = Array.isArray(plan)
+      ? plan.filter((pick: any) => Number.isInteger(pick?.week) && typeof pick?.team === 'string')
+      : []
+    const runs = Number.isInteger(iterations)
+      ? Math.min(Math.max(iterations, 1), MAX_ITERATIONS)
+      : DEFAULT_ITERATIONS
+
+    return c.json(simulateSeason(simulationGames, planPicks, runs))
+  } catch (error) {
+    console.log('Error simulating season:', error)
+    return c.text(`Error simulating season: ${error}`, 500)
+  }
+})
+
+// Get the stored schedule for a single week
+app.get('/make-server-c6567478/schedule', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting schedule:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { year, seasonType, week } = c.req.query()
+    if (!year || !seasonType || !week) {
+      return c.text('Missing year, seasonType or week', 400)
+    }
+
+    return c.json(await getSchedule(year, seasonType, week))
+  } catch (error) {
+    console.log('Error getting schedule:', error)
+    return c.text(`Error getting schedule: ${error}`, 500)
+  }
+})
+
+// Get every stored week of a season
+app.get('/make-server-c6567478/schedule/season', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting season schedule:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { year, seasonType, weeks } = c.req.query()
+    if (!year || !seasonType) {
+      return c.text('Missing year or seasonType', 400)
+    }
+
+    // Asking for weeks ingests any that aren't stored yet; otherwise only stored weeks come back
+    if (weeks) {
+      const requested = weeks.split(',').map(Number).filter((week: number) => Number.isInteger(week) && week > 0).slice(0, 25)
+      const schedules = await Promise.all(requested.map((week: number) => getSchedule(year, seasonType, week)))
+      return c.json(schedules.filter(schedule => schedule?.games?.length > 0))
+    }
+
+    const stored = (await kv.getByPrefix(`schedule_${year}_${seasonType}_`)).filter(getTrusted)
+    return c.json(stored.sort((a: any, b: any) => a.week - b.week))
+  } catch (error) {
+    console.log('Error getting season schedule:', error)
+    return c.text(`Error getting season schedule: ${error}`, 500)
+  }
+})
+
+// Store a week of games, e.g. a correction the scoreboard doesn't have yet. Locks and grading read it, so
+// only the service role may write it, and every game is checked and stripped to the fields the app reads.
+app.post('/make-server-c6567478/schedule', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!isServiceRole(accessToken)) {
+      return c.text('Unauthorized: Storing schedules requires the service role key', 401)
+    }
+
+    const { year, seasonType, week, games } = await c.req.json()
+    if (!Number.isInteger(year) || !Number.isInteger(seasonType) || !Number.isInteger(week) || week < 1) {
+      return c.text('Schedule requires integer year, seasonType and week', 400)
+    }
+    const parsed = parseScheduleGames(games, week)
+    if ('error' in parsed) {
+      return c.text(parsed.error, 400)
+    }
+
+    await storeSchedule(year, seasonType, week, parsed.games)
+    return c.json({ success: true, games: parsed.games.length })
+  } catch (error) {
+    console.log('Error saving schedule:', error)
+    return c.text(`Error saving schedule: ${error}`, 500)
+  }
+})
+
+// Fetch weeks from the scoreboard and store them. The scheduled job calls this to keep scores current.
+app.post('/make-server-c6567478/schedule/ingest', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!isServiceRole(accessToken)) {
+      return c.text('Unauthorized: Ingesting schedules requires the service role key', 401)
+    }
+
+    const { year, seasonType, weeks } = await c.req.json()
+    if (!Number.isInteger(year) || !Number.isInteger(seasonType) || !Array.isArray(weeks) ||
+      !weeks.every((week: any) => Number.isInteger(week) && week > 0)) {
+      return c.text('Ingesting requires integer year and seasonType and a weeks array', 400)
+    }
+
+    const ingested: { week: number; games: number }[] = []
+    for (const week of weeks) {
+      const games = await fetchScoreboard(year, seasonType, week)
+      await storeSchedule(year, seasonType, week, games)
+      ingested.push({ week, games: games.length })
+    }
+
+    return c.json({ success: true, ingested })
+  } catch (error) {
+    console.log('Error ingesting schedule:', error)
+    return c.text(`Error ingesting schedule: ${error}`, 500)
+  }
+})
+
+// Get the betting lines for a week, keyed by game id: the shared feed plus the caller's own imports
+app.get('/make-server-c6567478/odds', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting odds:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { year, seasonType, week } = c.req.query()
+    if (!year || !seasonType || !week) {
+      return c.text('Missing year, seasonType or week', 400)
+    }
+
+    // The caller's own lines win over the shared feed for the same game, unless only the feed is asked for
+    const feed = getTrusted(await kv.get(feedKey('odds', year, seasonType, week)))
+    const imported = c.req.query('feed') ? null : await kv.get(feedKey('odds', year, seasonType, week, user.id))
+    if (!feed && !imported) {
+      return c.json(null)
+    }
+    return c.json({
+      year: Number(year),
+      seasonType: Number(seasonType),
+      week: Number(week),
+      odds: { ...feed?.odds, ...imported?.odds },
+      updatedAt: imported?.updatedAt ?? feed.updatedAt
+    })
+  } catch (error) {
+    console.log('Error getting odds:', error)
+    return c.text(`Error getting odds: ${error}`, 500)
+  }
+})
+
+// Store imported betting lines for a week; kept apart from the schedule so re-ingesting games keeps them.
+// The service role replaces the shared feed; a user's import is merged into their own lines only.
+app.post('/make-server-c6567478/odds', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    let userId: string | null = null
+    if (!isServiceRole(accessToken)) {
+      const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+      if (error || !user?.id) {
+        console.log('Auth error saving odds:', error)
+        return c.text(`Unauthorized: ${error?.message}`, 401)
+      }
+      userId = user.id
+    }
+
+    const { year, seasonType, week, odds } = await c.req.json()
+    if (!Number.isInteger(year) || !Number.isInteger(seasonType) || !Number.isInteger(week) || !odds || typeof odds !== 'object') {
+      return c.text('Odds require integer year, seasonType and week and an odds object keyed by game id', 400)
+    }
+
+    const invalid = Object.values(odds).some((line: any) =>
+      typeof line?.homeMarketProbability !== 'number' || line.homeMarketProbability <= 0 || line.homeMarketProbability >= 1
+    )
+    if (invalid) {
+      return c.text('Every line needs a homeMarketProbability between 0 and 1', 400)
+    }
+
+    const key = feedKey('odds', year, seasonType, week, userId)
+    const existing = userId ? await kv.get(key) : null
+    await kv.set(key, {
+      year,
+      seasonType,
+      week,
+      odds: { ...existing?.odds, ...odds },
+      ...(userId ? {} : { writtenBy: SERVICE_WRITER }),
+      updatedAt: new Date().toISOString()
+    })
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.log('Error saving odds:', error)
+    return c.text(`Error saving odds: ${error}`, 500)
+  }
+})
+
+// Get the injury report for a week
+app.get('/make-server-c6567478/injuries', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting injury report:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { year, seasonType, week } = c.req.query()
+    if (!year || !seasonType || !week) {
+      return c.text('Missing year, seasonType or week', 400)
+    }
+
+    // A report the caller imported replaces the shared one for them
+    const report = await kv.get(feedKey('injuries', year, seasonType, week, user.id)) ??
+      getTrusted(await kv.get(feedKey('injuries', year, seasonType, week)))
+    return c.json(report)
+  } catch (error) {
+    console.log('Error getting injury report:', error)
+    return c.text(`Error getting injury report: ${error}`, 500)
+  }
+})
+
+// Store an imported injury report; a new report replaces the week's previous one. The service role writes
+// the shared report; a user's import only replaces their own.
+app.post('/make-server-c6567478/injuries', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    let userId: string | null = null
+    if (!isServiceRole(accessToken)) {
+      const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+      if (error || !user?.id) {
+        console.log('Auth error saving injury report:', error)
+        return c.text(`Unauthorized: ${error?.message}`, 401)
+      }
+      userId = user.id
+    }
+
+    const { year, seasonType, week, players, source } = await c.req.json()
+    if (!Number.isInteger(year) || !Number.isInteger(seasonType) || !Number.isInteger(week) || !Array.isArray(players)) {
+      return c.text('Injury report requires integer year, seasonType and week and a players array', 400)
+    }
+
+    const invalid = players.some((player: any) =>
+      typeof player?.team !== 'string' ||
+      typeof player?.player !== 'string' ||
+      typeof player?.position !== 'string' ||
+      !['Out', 'Doubtful', 'Questionable'].includes(player?.status)
+    )
+    if (invalid) {
+      return c.text('Every player needs a team, player, position and an Out, Doubtful or Questionable status', 400)
+    }
+
+    await kv.set(feedKey('injuries', year, seasonType, week, userId), {
+      year,
+      seasonType,
+      week,
+      players,
+      source: typeof source === 'string' ? source : 'import',
+      ...(userId ? {} : { writtenBy: SERVICE_WRITER }),
+      updatedAt: new Date().toISOString()
+    })
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.log('Error saving injury report:', error)
+    return c.text(`Error saving injury report: ${error}`, 500)
+  }
+})
+
+// Get the imported kickoff forecasts for a week, keyed by game id
+app.get('/make-server-c6567478/forecasts', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting forecasts:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { year, seasonType, week } = c.req.query()
+    if (!year || !seasonType || !week) {
+      return c.text('Missing year, seasonType or week', 400)
+    }
+
+    // The caller's own forecasts win over the shared feed for the same game
+    const feed = getTrusted(await kv.get(feedKey('forecasts', year, seasonType, week)))
+    const imported = await kv.get(feedKey('forecasts', year, seasonType, week, user.id))
+    if (!feed && !imported) {
+      return c.json(null)
+    }
+    return c.json({
+      year: Number(year),
+      seasonType: Number(seasonType),
+      week: Number(week),
+      forecasts: { ...feed?.forecasts, ...imported?.forecasts },
+      updatedAt: imported?.updatedAt ?? feed.updatedAt
+    })
+  } catch (error) {
+    console.log('Error getting forecasts:', error)
+    return c.text(`Error getting forecasts: ${error}`, 500)
+  }
+})
+
+// Store imported kickoff forecasts for a week. The service role replaces the shared feed; a user's import is
+// merged into their own forecasts only.
+app.post('/make-server-c6567478/forecasts', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    let userId: string | null = null
+    if (!isServiceRole(accessToken)) {
+      const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+      if (error || !user?.id) {
+        console.log('Auth error saving forecasts:', error)
+        return c.text(`Unauthorized: ${error?.message}`, 401)
+      }
+      userId = user.id
+    }
+
+    const { year, seasonType, week, forecasts } = await c.req.json()
+    if (!Number.isInteger(year) || !Number.isInteger(seasonType) || !Number.isInteger(week) || !forecasts || typeof forecasts !== 'object') {
+      return c.text('Forecasts require integer year, seasonType and week and a forecasts object keyed by game id', 400)
+    }
+
+    const invalid = Object.values(forecasts).some((forecast: any) =>
+      typeof forecast?.temperature !== 'number' ||
+      typeof forecast?.windSpeed !== 'number' ||
+      !['none', 'rain', 'snow'].includes(forecast?.precipitation)
+    )
+    if (invalid) {
+      return c.text('Every forecast needs a temperature, windSpeed and none, rain or snow precipitation', 400)
+    }
+
+    const key = feedKey('forecasts', year, seasonType, week, userId)
+    const existing = userId ? await kv.get(key) : null
+    await kv.set(key, {
+      year,
+      seasonType,
+      week,
+      forecasts: { ...existing?.forecasts, ...forecasts },
+      ...(userId ? {} : { writtenBy: SERVICE_WRITER }),
+      updatedAt: new Date().toISOString()
+    })
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.log('Error saving forecasts:', error)
+    return c.text(`Error saving forecasts: ${error}`, 500)
+  }
+})
+
+// Get the caller's confidence pick'em sheets for a season, one per week
+app.get('/make-server-c6567478/confidence-picks', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting confidence picks:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, year, seasonType } = c.req.query()
+    if (poolId && !isMember(await kv.get(`pool_${poolId}`), user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const sheets = await kv.get(confidencePicksKey(parseSeason(year, seasonType), user.id, poolId))
+    return c.json(sheets || [])
+  } catch (error) {
+    console.log('Error getting confidence picks:', error)
+    return c.text(`Error getting confidence picks: ${error}`, 500)
+  }
+})
+
+// Save a week's confidence sheet. Games lock at their own kickoff, so the rest stay editable.
+app.post('/make-server-c6567478/confidence-picks', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error saving confidence picks:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, year, seasonType, week, picks } = await c.req.json()
+    if (poolId && !isMember(await kv.get(`pool_${poolId}`), user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+    if (!Number.isInteger(week) || week < 1) {
+      return c.text('A valid week is required', 400)
+    }
+
+    const season = parseSeason(year, seasonType)
+    const sheets: ConfidenceSheet[] = await kv.get(confidencePicksKey(season, user.id, poolId)) || []
+    const existing = sheets.find(sheet => sheet.week === week)
+    const schedule = await getSchedule(season.year, season.seasonType, week)
+
+    // Games lock one at a time, so games that haven't started stay open after an early game is graded
+    const invalid = validateConfidenceSheet(picks, schedule, existing?.picks ?? [])
+    if (invalid) {
+      return c.text(invalid, 400)
+    }
+
+    const sheet = buildConfidenceSheet(week, picks, existing)
+    await kv.set(
+      confidencePicksKey(season, user.id, poolId),
+      [...sheets.filter(s => s.week !== week), sheet].sort((a, b) => a.week - b.week)
+    )
+
+    if (!poolId) {
+      const confidenceUsers = await kv.get(confidenceUsersKey(season)) || []
+      if (!confidenceUsers.includes(user.id)) {
+        await kv.set(confidenceUsersKey(season), [...confidenceUsers, user.id])
+      }
+    }
+
+    return c.json(sheet)
+  } catch (error) {
+    console.log('Error saving confidence picks:', error)
+    return c.text(`Error saving confidence picks: ${error}`, 500)
+  }
+})
+
+// Confidence pick'em leaderboard: season points from graded weeks for every member
+app.get('/make-server-c6567478/pools/:poolId/confidence-leaderboard', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting confidence leaderboard:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const pool: Pool | null = await kv.get(`pool_${c.req.param('poolId')}`)
+    if (!isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const season = parseSeason(c.req.query('year'), c.req.query('seasonType'))
+    const entries = await Promise.all(pool!.members.map(async member => ({
+      member,
+      sheets: await kv.get(confidencePicksKey(season, member.userId, pool!.id)) || []
+    })))
+
+    return c.json(buildConfidenceLeaderboard(pool!.commissionerId, entries))
+  } catch (error) {
+    console.log('Error getting confidence leaderboard:', error)
+    return c.text(`Error getting confidence leaderboard: ${error}`, 500)
+  }
+})
+
+// Get the caller's against-the-spread picks for a season
+app.get('/make-server-c6567478/ats-picks', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting ATS picks:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, year, seasonType } = c.req.query()
+    if (poolId && !isMember(await kv.get(`pool_${poolId}`), user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const picks = await kv.get(atsPicksKey(parseSeason(year, seasonType), user.id, poolId))
+    return c.json(picks || [])
+  } catch (error) {
+    console.log('Error getting ATS picks:', error)
+    return c.text(`Error getting ATS picks: ${error}`, 500)
+  }
+})
+
+// Save a week's against-the-spread picks. New picks snapshot their line now, or use the commissioner's locked lines.
+app.post('/make-server-c6567478/ats-picks', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error saving ATS picks:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, year, seasonType, week, picks } = await c.req.json()
+    const pool: Pool | null = poolId ? await kv.get(`pool_${poolId}`) : null
+    if (poolId && !isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+    if (!Number.isInteger(week) || week < 1) {
+      return c.text('A valid week is required', 400)
+    }
+
+    const season = parseSeason(year, seasonType)
+    const rules = getPoolRules(pool)
+    // Lines snapshot from the shared feed only, so a player's own import can't set the line they pick against
+    const schedule = await getSchedule(season.year, season.seasonType, week)
+    const odds = getTrusted(await kv.get(feedKey('odds', season.year, season.seasonType, week)))
+    const lineLock = pool ? rules.atsLineLock : 'pick'
+    const lockedLines: AtsLines | null = lineLock === 'commissioner' ? await kv.get(atsLinesKey(season, pool!.id, week)) : null
+    const seasonPicks: AtsPick[] = await kv.get(atsPicksKey(season, user.id, poolId)) || []
+
+    // Personal picks have no commissioner, so they always snapshot at pick time
+    const built = buildAtsWeekPicks(
+      picks,
+      week,
+      schedule,
+      odds?.odds ?? {},
+      lockedLines,
+      lineLock,
+      rules.atsPicksPerWeek,
+      seasonPicks.filter(pick => pick.week === week)
+    )
+    if ('error' in built) {
+      return c.text(built.error, 400)
+    }
+
+    await kv.set(
+      atsPicksKey(season, user.id, poolId),
+      [...seasonPicks.filter(pick => pick.week !== week), ...built.picks].sort((a, b) => a.week - b.week)
+    )
+
+    if (!poolId) {
+      const atsUsers = await kv.get(atsUsersKey(season)) || []
+      if (!atsUsers.includes(user.id)) {
+        await kv.set(atsUsersKey(season), [...atsUsers, user.id])
+      }
+    }
+
+    return c.json(built.picks)
+  } catch (error) {
+    console.log('Error saving ATS picks:', error)
+    return c.text(`Error saving ATS picks: ${error}`, 500)
+  }
+})
+
+// Get a pool's locked ATS lines for a week, or null before the commissioner locks them
+app.get('/make-server-c6567478/pools/:poolId/ats-lines', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting ATS lines:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const pool: Pool | null = await kv.get(`pool_${c.req.param('poolId')}`)
+    if (!isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const week = Number(c.req.query('week'))
+    if (!Number.isInteger(week) || week < 1) {
+      return c.text('A valid week is required', 400)
+    }
+
+    const season = parseSeason(c.req.query('year'), c.req.query('seasonType'))
+    const lines = await kv.get(atsLinesKey(season, pool!.id, week))
+    return c.json(lines || null)
+  } catch (error) {
+    console.log('Error getting ATS lines:', error)
+    return c.text(`Error getting ATS lines: ${error}`, 500)
+  }
+})
+
+// Freeze the week's imported spreads as the pool's ATS lines (commissioner only). Lines lock once.
+app.post('/make-server-c6567478/pools/:poolId/ats-lines', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error locking ATS lines:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const pool: Pool | null = await kv.get(`pool_${c.req.param('poolId')}`)
+    if (!pool) {
+      return c.text('Pool not found', 404)
+    }
+    if (pool.commissionerId !== user.id) {
+      return c.text('Only the commissioner can lock lines', 403)
+    }
+    if (getPoolRules(pool).atsLineLock !== 'commissioner') {
+      return c.text('This pool takes each pick\'s line when the pick is made', 400)
+    }
+
+    const { year, seasonType, week } = await c.req.json()
+    if (!Number.isInteger(week) || week < 1) {
+      return c.text('A valid week is required', 400)
+    }
+
+    const season = parseSeason(year, seasonType)
+    if (await kv.get(atsLinesKey(season, pool.id, week))) {
+      return c.text(`Lines for week ${week} are already locked`, 400)
+    }
+
+    const odds = getTrusted(await kv.get(feedKey('odds', season.year, season.seasonType, week)))
+    const lines: Record<string, number> = {}
+    for (const [gameId, gameOdds] of Object.entries(odds?.odds ?? {})) {
+      if (typeof (gameOdds as any)?.spread === 'number') lines[gameId] = (gameOdds as any).spread
+    }
+    if (Object.keys(lines).length === 0) {
+      return c.text(`No spreads in the odds feed for week ${week}`, 400)
+    }
+
+    const locked: AtsLines = { week, lines, lockedAt: new Date().toISOString() }
+    await kv.set(atsLinesKey(season, pool.id, week), locked)
+
+    return c.json(locked)
+  } catch (error) {
+    console.log('Error locking ATS lines:', error)
+    return c.text(`Error locking ATS lines: ${error}`, 500)
+  }
+})
+
+// ATS leaderboard: season record and points, with each week's points, for every member
+app.get('/make-server-c6567478/pools/:poolId/ats-leaderboard', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting ATS leaderboard:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const pool: Pool | null = await kv.get(`pool_${c.req.param('poolId')}`)
+    if (!isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const season = parseSeason(c.req.query('year'), c.req.query('seasonType'))
+    const entries = await Promise.all(pool!.members.map(async member => ({
+      member,
+      picks: await kv.get(atsPicksKey(season, member.userId, pool!.id)) || []
+    })))
+
+    return c.json(buildAtsLeaderboard(pool!.commissionerId, entries))
+  } catch (error) {
+    console.log('Error getting ATS leaderboard:', error)
+    return c.text(`Error getting ATS leaderboard: ${error}`, 500)
+  }
+})
+
+// Buy an eliminated entry back into a pool that allows it. The cost is recorded for the commissioner to collect.
+app.post('/make-server-c6567478/suicide-pool-buyback', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error buying back suicide pool entry:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, entryId, year, seasonType } = await c.req.json()
+    const pool: Pool | null = await kv.get(`pool_${poolId}`)
+    if (!isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const season = parseSeason(year, seasonType)
+    const rules = getPoolRules(pool)
+    const entries: PoolEntry[] = await kv.get(entriesKey(season, user.id, poolId)) || getDefaultEntries(user.created_at)
+    const entry = entries.find(e => e.id === (entryId || MAIN_ENTRY_ID))
+    if (!entry) {
+      return c.text('Entry not found', 404)
+    }
+
+    const picks = await kv.get(picksKey(season, user.id, poolId, entry.id)) || []
+    const { eliminatedWeek } = getPoolStatus(picks, getEntryLives(rules, entry))
+    const buybackError = getBuybackError(rules, entry, eliminatedWeek)
+    if (buybackError) {
+      return c.text(buybackError, 400)
+    }
+
+    const updatedEntry: PoolEntry = {
+      ...entry,
+      buybacks: [...(entry.buybacks ?? []), { week: eliminatedWeek!, cost: rules.buyback!.cost, createdAt: new Date().toISOString() }]
+    }
+    const status = getPoolStatus(picks, getEntryLives(rules, updatedEntry))
+    await kv.mset(
+      [entriesKey(season, user.id, poolId), statusKey(season, user.id, poolId, entry.id)],
+      [entries.map(e => e === entry ? updatedEntry : e), status]
+    )
+
+    return c.json({ ...updatedEntry, picks, status })
+  } catch (error) {
+    console.log('Error buying back suicide pool entry:', error)
+    return c.text(`Error buying back suicide pool entry: ${error}`, 500)
+  }
+})
+
+// Get the playoff seeds for a pool's bracket challenge, or the caller's personal seeds
+app.get('/make-server-c6567478/playoff-seeds', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting playoff seeds:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, year } = c.req.query()
+    if (poolId && !isMember(await kv.get(`pool_${poolId}`), user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const season = parseSeason(year, POSTSEASON)
+    return c.json(await kv.get(playoffSeedsKey(season.year, user.id, poolId)) ?? null)
+  } catch (error) {
+    console.log('Error getting playoff seeds:', error)
+    return c.text(`Error getting playoff seeds: ${error}`, 500)
+  }
+})
+
+// Save playoff seeds, for a pool (commissioner only) or the caller's personal bracket. They're fixed once
+// the Wild Card round kicks off.
+app.post('/make-server-c6567478/playoff-seeds', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error saving playoff seeds:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, year, seeds } = await c.req.json()
+    const pool: Pool | null = poolId ? await kv.get(`pool_${poolId}`) : null
+    if (poolId) {
+      if (!pool) {
+        return c.text('Pool not found', 404)
+      }
+      if (pool.commissionerId !== user.id) {
+        return c.text('Only the commissioner can set playoff seeds', 403)
+      }
+    }
+    if (!Number.isInteger(year)) {
+      return c.text('Playoff seeds require an integer year', 400)
+    }
+    const invalid = validateSeeds(seeds)
+    if (invalid) {
+      return c.text(invalid, 400)
+    }
+    if (isBracketLocked(await getSchedule(year, POSTSEASON, 1), year)) {
+      return c.text('Playoff seeds are locked once the Wild Card round kicks off', 400)
+    }
+
+    // Saved brackets were checked against the current seeds, so the seeds are fixed once anyone has one
+    const current: PlayoffSeeds | null = await kv.get(playoffSeedsKey(year, user.id, poolId))
+    const changed = JSON.stringify(current?.seeds) !== JSON.stringify({ AFC: seeds.AFC, NFC: seeds.NFC })
+    if (current && changed) {
+      const bracketKeys = pool
+        ? pool.members.map(member => bracketKey(year, member.userId, poolId))
+        : [bracketKey(year, user.id, null)]
+      const brackets = await kv.mget(bracketKeys)
+      if (brackets.some(bracket => !!bracket)) {
+        return c.text('Playoff seeds can\'t change once a bracket has been saved', 400)
+      }
+    }
+
+    const saved: PlayoffSeeds = { year, seeds: { AFC: seeds.AFC, NFC: seeds.NFC }, updatedAt: new Date().toISOString() }
+    await kv.set(playoffSeedsKey(year, user.id, poolId), saved)
+
+    return c.json(saved)
+  } catch (error) {
+    console.log('Error saving playoff seeds:', error)
+    return c.text(`Error saving playoff seeds: ${error}`, 500)
+  }
+})
+
+// Get the caller's postseason bracket, personal or for a pool
+app.get('/make-server-c6567478/bracket', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting bracket:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, year } = c.req.query()
+    if (poolId && !isMember(await kv.get(`pool_${poolId}`), user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const season = parseSeason(year, POSTSEASON)
+    return c.json(await kv.get(bracketKey(season.year, user.id, poolId)) ?? null)
+  } catch (error) {
+    console.log('Error getting bracket:', error)
+    return c.text(`Error getting bracket: ${error}`, 500)
+  }
+})
+
+// Save the caller's bracket until the first Wild Card kickoff
+app.post('/make-server-c6567478/bracket', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error saving bracket:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const { poolId, year, winners } = await c.req.json()
+    if (poolId && !isMember(await kv.get(`pool_${poolId}`), user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const season = parseSeason(year, POSTSEASON)
+    const seeds: PlayoffSeeds | null = await kv.get(playoffSeedsKey(season.year, user.id, poolId))
+    if (!seeds) {
+      return c.text(`Playoff seeds for ${season.year} haven't been set`, 400)
+    }
+    if (isBracketLocked(await getSchedule(season.year, POSTSEASON, 1), season.year)) {
+      return c.text('Brackets locked at the first Wild Card kickoff', 400)
+    }
+
+    const invalid = validateBracket(seeds.seeds, winners)
+    if (invalid) {
+      return c.text(invalid, 400)
+    }
+
+    const bracket: Bracket = { winners: normalizeWinners(winners), updatedAt: new Date().toISOString() }
+    await kv.set(bracketKey(season.year, user.id, poolId), bracket)
+
+    return c.json(bracket)
+  } catch (error) {
+    console.log('Error saving bracket:', error)
+    return c.text(`Error saving bracket: ${error}`, 500)
+  }
+})
+
+// Bracket leaderboard: points per round from final postseason scores, with the most each member can still reach
+app.get('/make-server-c6567478/pools/:poolId/bracket-leaderboard', async (c) => {
+  try {
+    const accessToken = c.req.header('Authorization')?.split(' ')[1]
+    if (!accessToken) {
+      return c.text('Unauthorized: No access token', 401)
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user?.id) {
+      console.log('Auth error getting bracket leaderboard:', error)
+      return c.text(`Unauthorized: ${error?.message}`, 401)
+    }
+
+    const pool: Pool | null = await kv.get(`pool_${c.req.param('poolId')}`)
+    if (!isMember(pool, user.id)) {
+      return c.text('Not a member of this pool', 403)
+    }
+
+    const season = parseSeason(c.req.query('year'), POSTSEASON)
+    const schedules = await Promise.all(BRACKET_ROUNDS.map(round => getSchedule(season.year, POSTSEASON, round)))
+    const entries = await Promise.all(pool!.members.map(async member => ({
+      member,
+      bracket: await kv.get(bracketKey(season.year, member.userId, pool!.id)) ?? null
+    })))
+
+    return c.json(buildBracketLeaderboard(pool!.commissionerId, entries, getPlayoffResults(schedules), getPoolRules(pool).bracketPoints))
+  } catch (error) {
+    console.log('Error getting bracket leaderboard:', error)
+    return c.text(`Error getting bracket leaderboard: ${error}`, 500)
+  }
+})
+
 Deno.serve(app.fetch)
\ No newline at end of file
@@ -0,0 +1,39 @@
+// Kickoff-based pick locking
+
+const TIMEZONE_OFFSETS: Record<string, number> = {
+  EST: -5, EDT: -4,
+  CST: -6, CDT: -5,
+  MST: -7, MDT: -6,
+  PST: -8, PDT: -7
+}
+
+// Uses the ingested ISO kickoff, falling back to gameDate plus a "4:30 PM EST" style gameTime
+export const getKickoffTime = (game: any): Date | null => {
+  if (game?.kickoff) {
+    const kickoff = new Date(game.kickoff)
+    return isNaN(kickoff.getTime()) ? null : kickoff
+  }
+
+  const match = /^(\d{1,2}):(\d{2})\s*(AM|PM)\s*([A-Z]{3})?$/i.exec(game?.gameTime?.trim() ?? '')
+  const [year, month, day] = (game?.gameDate ?? '').split('-').map(Number)
+  if (!match || !year || !month || !day) return null
+
+  let hours = Number(match[1]) % 12
+  if (match[3].toUpperCase() === 'PM') hours += 12
+  const offset = TIMEZONE_OFFSETS[(match[4] ?? 'EST').toUpperCase()] ?? -5
+
+  return new Date(Date.UTC(year, month - 1, day, hours - offset, Number(match[2])))
+}
+
+export const findTeamGame = (schedule: any, team: string) => {
+  return (schedule?.games ?? []).find((game: any) =>
+    game.awayTeam.abbreviation === team || game.homeTeam.abbreviation === team
+  ) ?? null
+}
+
+// A game the feed reports as started or final stays locked even if a later ingest moves its kickoff
+export const isGameLocked = (game: any, now = new Date()) => {
+  if (game?.status === 'in_progress' || game?.status === 'final') return true
+  const kickoff = getKickoffTime(game)
+  return kickoff ? kickoff.getTime() <= now.getTime() : false
+}
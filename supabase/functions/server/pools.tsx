@@ -0,0 +1,201 @@
+// Survivor pool entities, membership and standings
+import { AtsLineLock, DEFAULT_ATS_LINE_LOCK, DEFAULT_ATS_PICKS_PER_WEEK, parseAtsLineLock } from './ats.tsx'
+import { DEFAULT_BRACKET_POINTS, parseBracketPoints } from './bracket.tsx'
+import { getPoolStatus, parseTieRule, TieRule } from './grading.tsx'
+import { Season, seasonScope } from './seasons.tsx'
+import {
+  Buyback,
+  BuybackRule,
+  DEFAULT_PICKS_PER_WEEK,
+  DEFAULT_POOL_TYPE,
+  getEntryLives,
+  PickRequirement,
+  parseBuybackRule,
+  parsePicksPerWeek,
+  parsePoolType,
+  parseTeamReuseFromWeek,
+  PoolType
+} from './survivorRules.tsx'
+
+export interface PoolRules {
+  poolType: PoolType
+  tieRule: TieRule
+  startWeek: number
+  maxEntries: number
+  // Survivor variants: extra picks in later weeks, strikes before elimination, buybacks and team reuse
+  picksPerWeek: PickRequirement[]
+  lives: number
+  buyback: BuybackRule | null
+  teamReuseFromWeek: number | null
+  // Against-the-spread pick'em settings
+  atsPicksPerWeek: number
+  atsLineLock: AtsLineLock
+  // Postseason bracket points for each correct winner, Wild Card through Super Bowl
+  bracketPoints: number[]
+}
+
+export interface PoolMember {
+  userId: string
+  name: string
+  joinedAt: string
+}
+
+export interface PoolEntry {
+  id: string
+  name: string
+  createdAt: string
+  buybacks?: Buyback[]
+}
+
+export interface Pool {
+  id: string
+  name: string
+  commissionerId: string
+  joinCode: string
+  members: PoolMember[]
+  rules: PoolRules
+  createdAt: string
+}
+
+export const DEFAULT_POOL_RULES: PoolRules = {
+  poolType: DEFAULT_POOL_TYPE,
+  tieRule: 'loss',
+  startWeek: 1,
+  maxEntries: 3,
+  picksPerWeek: DEFAULT_PICKS_PER_WEEK,
+  lives: 1,
+  buyback: null,
+  teamReuseFromWeek: null,
+  atsPicksPerWeek: DEFAULT_ATS_PICKS_PER_WEEK,
+  atsLineLock: DEFAULT_ATS_LINE_LOCK,
+  bracketPoints: DEFAULT_BRACKET_POINTS
+}
+
+// Every user starts with this entry; its keys carry no entry id
+export const MAIN_ENTRY_ID = 'main'
+
+// Personal picks are keyed by user; pool picks are namespaced by pool id, extra entries by entry id
+const entryScope = (userId: string, poolId?: string | null, entryId?: string | null) => {
+  const base = poolId ? `${poolId}_${userId}` : userId
+  return entryId && entryId !== MAIN_ENTRY_ID ? `${base}_${entryId}` : base
+}
+
+export const picksKey = (season: Season, userId: string, poolId?: string | null, entryId?: string | null) => {
+  return `suicide_pool_picks_${seasonScope(season)}_${entryScope(userId, poolId, entryId)}`
+}
+
+export const statusKey = (season: Season, userId: string, poolId?: string | null, entryId?: string | null) => {
+  return `suicide_pool_status_${seasonScope(season)}_${entryScope(userId, poolId, entryId)}`
+}
+
+export const entriesKey = (season: Season, userId: string, poolId?: string | null) => {
+  return `suicide_pool_entries_${seasonScope(season)}_${poolId ?? 'personal'}_${userId}`
+}
+
+// Everyone with personal picks in a season, so the grading job can find them; pools list their own members
+export const poolUsersKey = (season: Season) => `suicide_pool_users_${seasonScope(season)}`
+
+// Keys used before picks were scoped by season; only the migration reads them
+export const legacyPicksKey = (userId: string, poolId?: string | null, entryId?: string | null) => {
+  return `suicide_pool_picks_${entryScope(userId, poolId, entryId)}`
+}
+
+export const legacyStatusKey = (userId: string, poolId?: string | null, entryId?: string | null) => {
+  return `suicide_pool_status_${entryScope(userId, poolId, entryId)}`
+}
+
+export const legacyEntriesKey = (userId: string, poolId?: string | null) => {
+  return `suicide_pool_entries_${poolId ?? 'personal'}_${userId}`
+}
+
+export const LEGACY_POOL_USERS_KEY = 'suicide_pool_users'
+
+export const getDefaultEntries = (createdAt: string): PoolEntry[] => {
+  return [{ id: MAIN_ENTRY_ID, name: 'Entry 1', createdAt }]
+}
+
+// Unambiguous characters only so codes can be read aloud across the office
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+export const createJoinCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(6))
+  return Array.from(bytes, byte => JOIN_CODE_ALPHABET[byte % JOIN_CODE_ALPHABET.length]).join('')
+}
+
+// Pools created before a rule existed fall back to its default
+export const getPoolRules = (pool: Pool | null): PoolRules => ({ ...DEFAULT_POOL_RULES, ...pool?.rules })
+
+export const parsePoolRules = (rules: any, current: PoolRules = DEFAULT_POOL_RULES): PoolRules => {
+  const base = { ...DEFAULT_POOL_RULES, ...current }
+  const startWeek = Number(rules?.startWeek ?? base.startWeek)
+  const maxEntries = Number(rules?.maxEntries ?? base.maxEntries)
+  const lives = Number(rules?.lives ?? base.lives)
+  const atsPicksPerWeek = Number(rules?.atsPicksPerWeek ?? base.atsPicksPerWeek)
+  return {
+    poolType: parsePoolType(rules?.poolType ?? base.poolType),
+    tieRule: parseTieRule(rules?.tieRule ?? base.tieRule),
+    startWeek: Number.isInteger(startWeek) && startWeek >= 1 ? startWeek : base.startWeek,
+    maxEntries: Number.isInteger(maxEntries) && maxEntries >= 1 ? maxEntries : base.maxEntries,
+    picksPerWeek: parsePicksPerWeek(rules?.picksPerWeek, base.picksPerWeek),
+    lives: Number.isInteger(lives) && lives >= 1 && lives <= 5 ? lives : base.lives,
+    buyback: parseBuybackRule(rules?.buyback, base.buyback),
+    teamReuseFromWeek: parseTeamReuseFromWeek(rules?.teamReuseFromWeek, base.teamReuseFromWeek),
+    atsPicksPerWeek: Number.isInteger(atsPicksPerWeek) && atsPicksPerWeek >= 1 ? atsPicksPerWeek : base.atsPicksPerWeek,
+    atsLineLock: parseAtsLineLock(rules?.atsLineLock ?? base.atsLineLock),
+    bracketPoints: parseBracketPoints(rules?.bracketPoints, base.bracketPoints)
+  }
+}
+
+export const getMemberName = (user: any) => {
+  return user.user_metadata?.name || user.email || 'Unknown player'
+}
+
+export const isMember = (pool: Pool | null, userId: string) => {
+  return !!pool?.members.some(member => member.userId === userId)
+}
+
+export interface StandingEntry {
+  member: PoolMember
+  entry: PoolEntry
+  picks: any[]
+}
+
+// One row per entry: alive entries first, then the longest-surviving eliminated ones
+export const buildStandings = (pool: Pool, entries: StandingEntry[]) => {
+  return entries
+    .map(({ member, entry, picks }) => ({
+      userId: member.userId,
+      entryId: entry.id,
+      name: member.name,
+      entryName: entry.name,
+      isCommissioner: member.userId === pool.commissionerId,
+      picksMade: picks.filter((pick: any) => !pick.missed).length,
+      buybacks: entry.buybacks?.length ?? 0,
+      ...getPoolStatus(picks, getEntryLives(getPoolRules(pool), entry))
+    }))
+    .sort((a, b) => {
+      if (a.isEliminated !== b.isEliminated) return a.isEliminated ? 1 : -1
+      if (a.isEliminated) return (b.eliminatedWeek ?? 0) - (a.eliminatedWeek ?? 0)
+      return b.wins - a.wins
+    })
+}
+
+// Counts only entries still alive going into the week; shares are of the entries that have picked so far
+export const buildPickPopularity = (pool: Pool, week: number, entries: StandingEntry[]) => {
+  const rules = getPoolRules(pool)
+  const liveEntries = entries.filter(({ entry, picks }) => {
+    const status = getPoolStatus(picks, getEntryLives(rules, entry))
+    return !status.isEliminated || (status.eliminatedWeek ?? 0) >= week
+  })
+
+  const counts: Record<string, number> = {}
+  for (const { picks } of liveEntries) {
+    for (const pick of picks.filter((p: any) => p.week === week && !p.missed)) {
+      counts[pick.team] = (counts[pick.team] || 0) + 1
+    }
+  }
+
+  const picked = Object.values(counts).reduce((sum, count) => sum + count, 0)
+  const shares = Object.fromEntries(Object.entries(counts).map(([team, count]) => [team, count / picked]))
+  return { week, totalEntries: liveEntries.length, shares, source: 'pool' }
+}
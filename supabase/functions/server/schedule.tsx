@@ -0,0 +1,236 @@
+// Weekly schedules. The server fetches ESPN's public scoreboard and parses it itself, and checks the shape of
+// every game it stores, so locks and grading never read games a browser made up.
+
+export const SCOREBOARD_URL = 'https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard'
+
+// While a stored week has started games that aren't final (or no games yet), it's fetched again this long
+// after the last ingest so scores and statuses keep up
+export const SCHEDULE_REFRESH_MS = 10 * 60 * 1000
+
+export type GameStatus = 'scheduled' | 'in_progress' | 'final'
+
+const GAME_STATUSES: GameStatus[] = ['scheduled', 'in_progress', 'final']
+
+export const NFL_TEAMS: Record<string, string> = {
+  ARI: 'Arizona Cardinals', ATL: 'Atlanta Falcons', BAL: 'Baltimore Ravens', BUF: 'Buffalo Bills',
+  CAR: 'Carolina Panthers', CHI: 'Chicago Bears', CIN: 'Cincinnati Bengals', CLE: 'Cleveland Browns',
+  DAL: 'Dallas Cowboys', DEN: 'Denver Broncos', DET: 'Detroit Lions', GB: 'Green Bay Packers',
+  HOU: 'Houston Texans', IND: 'Indianapolis Colts', JAX: 'Jacksonville Jaguars', KC: 'Kansas City Chiefs',
+  LAC: 'Los Angeles Chargers', LAR: 'Los Angeles Rams', LV: 'Las Vegas Raiders', MIA: 'Miami Dolphins',
+  MIN: 'Minnesota Vikings', NE: 'New England Patriots', NO: 'New Orleans Saints', NYG: 'New York Giants',
+  NYJ: 'New York Jets', PHI: 'Philadelphia Eagles', PIT: 'Pittsburgh Steelers', SEA: 'Seattle Seahawks',
+  SF: 'San Francisco 49ers', TB: 'Tampa Bay Buccaneers', TEN: 'Tennessee Titans', WAS: 'Washington Commanders'
+}
+
+// ESPN abbreviations that differ from the ones used across the app
+const TEAM_ALIASES: Record<string, string> = {
+  WSH: 'WAS',
+  JAC: 'JAX',
+  LA: 'LAR'
+}
+
+const normalizeTeam = (abbreviation: unknown) => {
+  if (typeof abbreviation !== 'string') return null
+  const upper = abbreviation.toUpperCase()
+  const team = TEAM_ALIASES[upper] ?? upper
+  return NFL_TEAMS[team] ? team : null
+}
+
+const formatEasternKickoff = (kickoff: Date) => {
+  const gameDate = kickoff.toLocaleDateString('en-CA', { timeZone: 'America/New_York' })
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  }).formatToParts(kickoff)
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? ''
+
+  return {
+    gameDate,
+    gameTime: `${part('hour')}:${part('minute')} ${part('dayPeriod')} ${part('timeZoneName')}`
+  }
+}
+
+const isValidDate = (value: unknown) => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  return !isNaN(new Date(`${value}T00:00:00Z`).getTime())
+}
+
+// Neutral ratings and predictions, the same the app's own scoreboard parser starts from; the client rates
+// games with its Elo ratings and the user's weights
+const createBaselineMetrics = () => ({
+  teamStrength: 50,
+  offensivePower: 50,
+  defensivePower: 50,
+  injuries: 50,
+  weather: 50,
+  schedule: 50,
+  overall: 50
+})
+
+// Rebuilds a game from only the fields the app reads, or returns why it can't be stored
+const parseGame = (game: any, week: number): { game: any } | { error: string } => {
+  const id = typeof game?.id === 'number' ? String(game.id) : game?.id
+  if (typeof id !== 'string' || id.trim() === '') {
+    return { error: 'Every game needs an id' }
+  }
+  if (game.week !== undefined && game.week !== week) {
+    return { error: `Game ${id} is listed for week ${game.week}, not week ${week}` }
+  }
+
+  const away = normalizeTeam(game.awayTeam?.abbreviation)
+  const home = normalizeTeam(game.homeTeam?.abbreviation)
+  if (!away || !home || away === home) {
+    return { error: `Game ${id} needs two different NFL teams` }
+  }
+
+  let kickoff: Date | null = null
+  if (game.kickoff !== undefined) {
+    kickoff = new Date(game.kickoff)
+    if (typeof game.kickoff !== 'string' || isNaN(kickoff.getTime())) {
+      return { error: `Game ${id} has an invalid kickoff` }
+    }
+  }
+  const eastern = kickoff ? formatEasternKickoff(kickoff) : null
+  const gameDate = game.gameDate ?? eastern?.gameDate
+  if (!isValidDate(gameDate)) {
+    return { error: `Game ${id} needs a gameDate like 2025-09-07` }
+  }
+
+  const status: GameStatus = game.status ?? 'scheduled'
+  if (!GAME_STATUSES.includes(status)) {
+    return { error: `Game ${id} has an unknown status` }
+  }
+  const score = game.score
+  if (score !== undefined && (!Number.isFinite(score?.away) || !Number.isFinite(score?.home))) {
+    return { error: `Game ${id} has an invalid score` }
+  }
+  if (status === 'final' && score === undefined) {
+    return { error: `Final game ${id} needs a score` }
+  }
+
+  const team = (abbreviation: string, logo: unknown) => ({
+    name: NFL_TEAMS[abbreviation],
+    abbreviation,
+    logo: typeof logo === 'string' ? logo : '🏈'
+  })
+
+  return {
+    game: {
+      id,
+      awayTeam: team(away, game.awayTeam.logo),
+      homeTeam: team(home, game.homeTeam.logo),
+      gameDate,
+      gameTime: typeof game.gameTime === 'string' ? game.gameTime : eastern?.gameTime ?? '',
+      kickoff: kickoff?.toISOString(),
+      venue: typeof game.venue === 'string' ? game.venue : undefined,
+      neutralSite: !!game.neutralSite,
+      status,
+      score: score === undefined ? undefined : { away: Number(score.away), home: Number(score.home) },
+      predictions: {
+        awayWinProbability: 50,
+        homeWinProbability: 50,
+        confidence: 'low',
+        recommendation: 'none'
+      },
+      metrics: {
+        teamStrength: 50,
+        injuries: 50,
+        weather: 50,
+        schedule: 50,
+        overall: 50,
+        awayTeam: createBaselineMetrics(),
+        homeTeam: createBaselineMetrics()
+      }
+    }
+  }
+}
+
+// Checks and normalizes a week of games: unique ids, and no team playing twice
+export const parseScheduleGames = (games: unknown, week: number): { games: any[] } | { error: string } => {
+  if (!Array.isArray(games)) {
+    return { error: 'Schedule requires a games array' }
+  }
+
+  const parsed: any[] = []
+  for (const game of games) {
+    const result = parseGame(game, week)
+    if ('error' in result) return result
+    if (parsed.some(other => other.id === result.game.id)) {
+      return { error: `Game ${result.game.id} is listed twice` }
+    }
+    const teams = [result.game.awayTeam.abbreviation, result.game.homeTeam.abbreviation]
+    const clash = parsed.find(other => teams.includes(other.awayTeam.abbreviation) || teams.includes(other.homeTeam.abbreviation))
+    if (clash) {
+      return { error: `Games ${clash.id} and ${result.game.id} share a team` }
+    }
+    parsed.push(result.game)
+  }
+
+  return { games: parsed.sort((a, b) => (a.kickoff ?? a.gameDate).localeCompare(b.kickoff ?? b.gameDate)) }
+}
+
+const parseStatus = (status: any): GameStatus => {
+  const state = status?.type?.state
+  if (status?.type?.completed || state === 'post') return 'final'
+  if (state === 'in') return 'in_progress'
+  return 'scheduled'
+}
+
+// One scoreboard event in the shape parseScheduleGames checks
+const fromScoreboardEvent = (event: any) => {
+  const competition = event?.competitions?.[0]
+  const competitors: any[] = competition?.competitors ?? []
+  const home = competitors.find(c => c.homeAway === 'home')
+  const away = competitors.find(c => c.homeAway === 'away')
+  const status = parseStatus(competition?.status ?? event?.status)
+  const hasScore = status !== 'scheduled' && home?.score !== undefined && away?.score !== undefined
+
+  return {
+    id: event?.id,
+    awayTeam: { abbreviation: away?.team?.abbreviation },
+    homeTeam: { abbreviation: home?.team?.abbreviation },
+    kickoff: competition?.date ?? event?.date,
+    venue: competition?.venue?.fullName,
+    neutralSite: competition?.neutralSite,
+    status,
+    score: hasScore ? { away: Number(away.score), home: Number(home.score) } : undefined
+  }
+}
+
+// Parses a scoreboard payload shaped like site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard
+export const parseScoreboard = (json: any, year: number, seasonType: number, week: number) => {
+  if (json?.season?.year !== year || json?.season?.type !== seasonType || json?.week?.number !== week) {
+    throw new Error(`Scoreboard is not for ${year} season type ${seasonType} week ${week}`)
+  }
+  if (!Array.isArray(json.events)) {
+    throw new Error('Scoreboard is missing its events array')
+  }
+
+  const parsed = parseScheduleGames(json.events.map(fromScoreboardEvent), week)
+  if ('error' in parsed) {
+    throw new Error(`Scoreboard for week ${week}: ${parsed.error}`)
+  }
+  return parsed.games
+}
+
+export const fetchScoreboard = async (year: number, seasonType: number, week: number) => {
+  const response = await fetch(`${SCOREBOARD_URL}?dates=${year}&seasontype=${seasonType}&week=${week}`)
+  if (!response.ok) {
+    throw new Error(`Scoreboard request failed with ${response.status}`)
+  }
+  return parseScoreboard(await response.json(), year, seasonType, week)
+}
+
+// A stored week worth fetching again: nothing was published yet, or games have started without going final
+export const isScheduleStale = (schedule: any, now = new Date()) => {
+  const updatedAt = new Date(schedule?.updatedAt ?? 0).getTime()
+  if (now.getTime() - updatedAt < SCHEDULE_REFRESH_MS) return false
+
+  const games: any[] = schedule?.games ?? []
+  return games.length === 0 || games.some(game => {
+    const kickoff = new Date(game.kickoff ?? `${game.gameDate}T23:59:59Z`)
+    return game.status !== 'final' && kickoff <= now
+  })
+}
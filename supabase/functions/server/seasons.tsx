@@ -0,0 +1,55 @@
+// Season scoping for stored picks, entries, settings snapshots and standings
+
+export interface Season {
+  year: number
+  seasonType: number
+}
+
+export const REGULAR_SEASON = 2
+
+// January and February games belong to the season that started the previous fall
+export const getSeasonYear = (date: Date) => {
+  return date.getUTCMonth() < 2 ? date.getUTCFullYear() - 1 : date.getUTCFullYear()
+}
+
+export const getCurrentSeason = (now = new Date()): Season => {
+  return { year: getSeasonYear(now), seasonType: REGULAR_SEASON }
+}
+
+// Query strings and request bodies carry year and seasonType; anything missing falls back to the current season
+export const parseSeason = (year: any, seasonType: any): Season => {
+  const current = getCurrentSeason()
+  const parsedYear = Number(year)
+  const parsedType = Number(seasonType)
+  return {
+    year: Number.isInteger(parsedYear) && parsedYear > 1900 ? parsedYear : current.year,
+    seasonType: [1, 2, 3].includes(parsedType) ? parsedType : current.seasonType
+  }
+}
+
+// Weeks in each season type, matching the app's week selector
+export const getMaxWeeks = (seasonType: number) => {
+  if (seasonType === 1) return 4
+  if (seasonType === 2) return 18
+  return 4
+}
+
+export const seasonScope = (season: Season) => `${season.year}_${season.seasonType}`
+
+// Picks saved before season scoping may lack year/seasonType; their game date still identifies the season
+export const getPickSeason = (pick: any): Season => {
+  const year = Number.isInteger(pick.year) ? pick.year : getSeasonYear(new Date(pick.gameDate))
+  return parseSeason(year, pick.seasonType ?? REGULAR_SEASON)
+}
+
+export const groupPicksBySeason = (picks: any[]) => {
+  const groups = new Map<string, { season: Season, picks: any[] }>()
+  for (const pick of picks) {
+    const season = getPickSeason(pick)
+    const scope = seasonScope(season)
+    const group = groups.get(scope) ?? { season, picks: [] }
+    group.picks.push({ ...pick, year: season.year, seasonType: season.seasonType })
+    groups.set(scope, group)
+  }
+  return Array.from(groups.values())
+}
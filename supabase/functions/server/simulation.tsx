@@ -0,0 +1,165 @@
+// Monte Carlo season simulation: win totals, playoff odds and survivor plan survival
+
+export interface SimulationGame {
+  id: string
+  week: number
+  awayTeam: string
+  homeTeam: string
+  homeWinProbability: number // 0-1
+  // Completed games replay their real outcome instead of being simulated
+  status?: 'scheduled' | 'in_progress' | 'final'
+  score?: { away: number, home: number }
+}
+
+export interface PlanPick {
+  week: number
+  team: string
+}
+
+export interface TeamProjection {
+  team: string
+  projectedWins: number
+  playoffOdds: number
+  divisionOdds: number
+}
+
+export interface WeekSurvival {
+  week: number
+  team: string
+  probability: number
+}
+
+export interface SeasonSimulation {
+  iterations: number
+  teams: TeamProjection[]
+  survival: WeekSurvival[]
+}
+
+export const DEFAULT_ITERATIONS = 5000
+export const MAX_ITERATIONS = 20000
+
+// Division winners plus three wild cards per conference
+const WILD_CARDS = 3
+
+export const DIVISIONS: Record<string, string[]> = {
+  'AFC East': ['BUF', 'MIA', 'NE', 'NYJ'],
+  'AFC North': ['BAL', 'CIN', 'CLE', 'PIT'],
+  'AFC South': ['HOU', 'IND', 'JAX', 'TEN'],
+  'AFC West': ['DEN', 'KC', 'LV', 'LAC'],
+  'NFC East': ['DAL', 'NYG', 'PHI', 'WAS'],
+  'NFC North': ['CHI', 'DET', 'GB', 'MIN'],
+  'NFC South': ['ATL', 'CAR', 'NO', 'TB'],
+  'NFC West': ['ARI', 'LAR', 'SF', 'SEA']
+}
+
+// 1 home win, 0 away win, 0.5 tie
+const getFinalResult = (game: SimulationGame) => {
+  if (game.status !== 'final' || !game.score) return null
+  if (game.score.home === game.score.away) return 0.5
+  return game.score.home > game.score.away ? 1 : 0
+}
+
+// Ties between teams on the same record are broken by a coin flip; full NFL tiebreakers need
+// head-to-head and strength-of-victory data the simulation doesn't track
+const rankTeams = (teams: string[], wins: Record<string, number>) => {
+  return teams
+    .map(team => ({ team, wins: wins[team] ?? 0, tiebreak: Math.random() }))
+    .sort((a, b) => b.wins - a.wins || b.tiebreak - a.tiebreak)
+    .map(({ team }) => team)
+}
+
+const CONFERENCES = ['AFC', 'NFC'].map(conference =>
+  Object.entries(DIVISIONS).filter(([name]) => name.startsWith(conference)).map(([, teams]) => teams)
+)
+
+const getPlayoffTeams = (wins: Record<string, number>) => {
+  const divisionWinners = new Set<string>()
+  const playoffTeams = new Set<string>()
+
+  for (const divisions of CONFERENCES) {
+    const winners = divisions.map(teams => rankTeams(teams, wins)[0])
+    const others = divisions.flat().filter(team => !winners.includes(team))
+
+    for (const team of [...winners, ...rankTeams(others, wins).slice(0, WILD_CARDS)]) {
+      playoffTeams.add(team)
+    }
+    winners.forEach(team => divisionWinners.add(team))
+  }
+
+  return { divisionWinners, playoffTeams }
+}
+
+export const simulateSeason = (
+  games: SimulationGame[],
+  plan: PlanPick[],
+  iterations = DEFAULT_ITERATIONS
+): SeasonSimulation => {
+  const teams = Object.values(DIVISIONS).flat()
+  const totals: Record<string, { wins: number, playoffs: number, division: number }> = Object.fromEntries(
+    teams.map(team => [team, { wins: 0, playoffs: 0, division: 0 }])
+  )
+  const sortedPlan = [...plan].sort((a, b) => a.week - b.week)
+  const survivedThrough = sortedPlan.map(() => 0)
+
+  for (let i = 0; i < iterations; i++) {
+    const wins: Record<string, number> = Object.fromEntries(teams.map(team => [team, 0]))
+    const winners = new Map<string, Set<string>>()
+
+    for (const game of games) {
+      const result = getFinalResult(game) ?? (Math.random() < game.homeWinProbability ? 1 : 0)
+      wins[game.homeTeam] = (wins[game.homeTeam] ?? 0) + result
+      wins[game.awayTeam] = (wins[game.awayTeam] ?? 0) + 1 - result
+
+      // Survivor picks need an outright win; ties count against the plan
+      if (result !== 0.5) {
+        const key = String(game.week)
+        const weekWinners = winners.get(key) ?? new Set<string>()
+        weekWinners.add(result === 1 ? game.homeTeam : game.awayTeam)
+        winners.set(key, weekWinners)
+      }
+    }
+
+    const { divisionWinners, playoffTeams } = getPlayoffTeams(wins)
+    for (const team of teams) {
+      totals[team].wins += wins[team]
+      if (playoffTeams.has(team)) totals[team].playoffs++
+      if (divisionWinners.has(team)) totals[team].division++
+    }
+
+    for (let p = 0; p < sortedPlan.length; p++) {
+      if (!winners.get(String(sortedPlan[p].week))?.has(sortedPlan[p].team)) break
+      survivedThrough[p]++
+    }
+  }
+
+  return {
+    iterations,
+    teams: teams
+      .map(team => ({
+        team,
+        projectedWins: totals[team].wins / iterations,
+        playoffOdds: totals[team].playoffs / iterations,
+        divisionOdds: totals[team].division / iterations
+      }))
+      .sort((a, b) => b.projectedWins - a.projectedWins),
+    survival: sortedPlan.map((pick, index) => ({
+      week: pick.week,
+      team: pick.team,
+      probability: survivedThrough[index] / iterations
+    }))
+  }
+}
+
+// Accepts the request body's games, dropping anything malformed rather than failing the whole run
+export const parseSimulationGames = (games: any): SimulationGame[] => {
+  if (!Array.isArray(games)) return []
+  return games.filter(game =>
+    game &&
+    Number.isInteger(game.week) &&
+    typeof game.awayTeam === 'string' &&
+    typeof game.homeTeam === 'string' &&
+    typeof game.homeWinProbability === 'number' &&
+    game.homeWinProbability >= 0 &&
+    game.homeWinProbability <= 1
+  )
+}
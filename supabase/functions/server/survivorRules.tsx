@@ -0,0 +1,113 @@
+// Survivor rule variants: picks required per week, lives, buybacks, team reuse and loser pools
+import { PoolEntry, PoolRules } from './pools.tsx'
+
+// A loser pool inverts survivor: each pick is a team expected to lose, and the entry survives when it does
+export type PoolType = 'survivor' | 'loser'
+
+export const DEFAULT_POOL_TYPE: PoolType = 'survivor'
+
+export const parsePoolType = (value: unknown): PoolType => {
+  return value === 'survivor' || value === 'loser' ? value : DEFAULT_POOL_TYPE
+}
+
+// From fromWeek on, each entry needs this many picks a week until a later requirement takes over
+export interface PickRequirement {
+  fromWeek: number
+  picks: number
+}
+
+// Eliminated entries can buy another life while they went out no later than untilWeek
+export interface BuybackRule {
+  untilWeek: number
+  cost: number
+  maxBuybacks: number
+}
+
+export interface Buyback {
+  // The week the entry was eliminated in when it bought back
+  week: number
+  cost: number
+  createdAt: string
+}
+
+export const DEFAULT_PICKS_PER_WEEK: PickRequirement[] = [{ fromWeek: 1, picks: 1 }]
+
+export const getPicksRequired = (rules: Pick<PoolRules, 'picksPerWeek'>, week: number) => {
+  return rules.picksPerWeek
+    .filter(requirement => requirement.fromWeek <= week)
+    .reduce((latest, requirement) => requirement.fromWeek >= latest.fromWeek ? requirement : latest, DEFAULT_PICKS_PER_WEEK[0])
+    .picks
+}
+
+// Teams already used going into a week. Once reuse opens, only picks from that week on count.
+export const getUsedTeams = (picks: any[], week: number, rules: Pick<PoolRules, 'teamReuseFromWeek'>) => {
+  const reuseFrom = rules.teamReuseFromWeek
+  return picks
+    .filter(pick => pick.week !== week && !pick.missed)
+    .filter(pick => reuseFrom === null || week < reuseFrom || pick.week >= reuseFrom)
+    .map(pick => pick.team)
+}
+
+export const getEntryLives = (rules: Pick<PoolRules, 'lives'>, entry?: Pick<PoolEntry, 'buybacks'> | null) => {
+  return rules.lives + (entry?.buybacks?.length ?? 0)
+}
+
+// Returns why an eliminated entry can't buy back in, or null when it can
+export const getBuybackError = (rules: Pick<PoolRules, 'buyback'>, entry: PoolEntry, eliminatedWeek: number | null) => {
+  if (!rules.buyback) return 'This pool does not allow buybacks'
+  if (eliminatedWeek === null) return `${entry.name} is still alive`
+  if (eliminatedWeek > rules.buyback.untilWeek) {
+    return `Buybacks closed after week ${rules.buyback.untilWeek}`
+  }
+  if ((entry.buybacks?.length ?? 0) >= rules.buyback.maxBuybacks) {
+    return `${entry.name} has used all ${rules.buyback.maxBuybacks} buyback${rules.buyback.maxBuybacks === 1 ? '' : 's'}`
+  }
+  return null
+}
+
+// Picks an entry still owed once a week is over count as losses, one per missing pick
+export const withMissedPicks = (picks: any[], week: number, required: number, year: number, seasonType: number) => {
+  const made = picks.filter(pick => pick.week === week).length
+  const missed = Array.from({ length: Math.max(0, required - made) }, (_, i) => ({
+    id: `missed_${week}_${i + 1}`,
+    week,
+    team: '',
+    teamName: 'Missed pick',
+    confidence: 0,
+    result: 'loss',
+    missed: true,
+    gameDate: '',
+    year,
+    seasonType
+  }))
+  return missed.length > 0 ? [...picks, ...missed].sort((a, b) => a.week - b.week) : picks
+}
+
+export const parsePicksPerWeek = (value: unknown, base: PickRequirement[]) => {
+  if (!Array.isArray(value)) return base
+  const requirements = value
+    .map(raw => ({ fromWeek: Number(raw?.fromWeek), picks: Number(raw?.picks) }))
+    .filter(r => Number.isInteger(r.fromWeek) && r.fromWeek >= 1 && Number.isInteger(r.picks) && r.picks >= 1 && r.picks <= 4)
+    .sort((a, b) => a.fromWeek - b.fromWeek)
+  return requirements.length > 0 ? requirements : base
+}
+
+export const parseBuybackRule = (value: any, base: BuybackRule | null): BuybackRule | null => {
+  if (value === null) return null
+  if (value === undefined) return base
+  const untilWeek = Number(value.untilWeek)
+  const cost = Number(value.cost ?? 0)
+  const maxBuybacks = Number(value.maxBuybacks ?? 1)
+  if (!Number.isInteger(untilWeek) || untilWeek < 1 || !(cost >= 0) || !Number.isInteger(maxBuybacks) || maxBuybacks < 1) {
+    return base
+  }
+  return { untilWeek, cost, maxBuybacks }
+}
+
+// Null keeps every team single-use all season
+export const parseTeamReuseFromWeek = (value: unknown, base: number | null) => {
+  if (value === null) return null
+  if (value === undefined) return base
+  const week = Number(value)
+  return Number.isInteger(week) && week >= 2 ? week : base
+}
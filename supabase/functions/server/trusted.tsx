@@ -0,0 +1,24 @@
+// Shared records every user reads. Only the service role (the scheduled ingestion jobs) writes them, and each
+// copy it writes is stamped so records stored before writes were restricted are never trusted.
+
+export const SERVICE_WRITER = 'service'
+
+export const isServiceRole = (accessToken?: string) => {
+  return !!accessToken && accessToken === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+}
+
+export const scheduleKey = (year: number | string, seasonType: number | string, week: number | string) => {
+  return `schedule_${year}_${seasonType}_${week}`
+}
+
+// The record when the service role wrote it, otherwise null
+export const getTrusted = (record: any) => {
+  return record?.writtenBy === SERVICE_WRITER ? record : null
+}
+
+// Imported odds, injury reports and forecasts: the shared feed, or a user's own import that only changes
+// their predictions
+export const feedKey = (feed: string, year: number | string, seasonType: number | string, week: number | string, userId?: string | null) => {
+  const key = `${feed}_${year}_${seasonType}_${week}`
+  return userId ? `${key}_user_${userId}` : key
+}
@@ -0,0 +1,173 @@
+import { AtsLines, AtsPick, AtsStanding, GamePrediction, Pool, PoolRules } from '../constants/mockData';
+import { projectId } from './supabase/info';
+import { getHomeCoverProbability } from './spreads';
+
+const ATS_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/ats-picks`;
+const POOLS_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/pools`;
+
+// Match the server's defaults for personal picks and pools created before ATS
+export const DEFAULT_ATS_PICKS_PER_WEEK = 5;
+export const ATS_PUSH_POINTS = 0.5;
+
+export const getAtsRules = (pool: Pool | null) => ({
+  picksPerWeek: pool?.rules.atsPicksPerWeek ?? DEFAULT_ATS_PICKS_PER_WEEK,
+  lineLock: pool?.rules.atsLineLock ?? 'pick'
+});
+
+export const getTeamLine = (game: GamePrediction, team: string, homeSpread: number) => {
+  return game.homeTeam.abbreviation === team ? homeSpread : -homeSpread;
+};
+
+export const formatLine = (line: number) => {
+  if (line === 0) return 'PK';
+  return line > 0 ? `+${line}` : `${line}`;
+};
+
+// Model's chance (0-100) the team covers its line, from the projected margin
+export const getTeamCoverProbability = (game: GamePrediction, team: string, homeSpread: number) => {
+  const margin = game.predictions.projectedMargin;
+  if (margin === undefined) return null;
+  const home = getHomeCoverProbability(margin, homeSpread);
+  return Math.round((game.homeTeam.abbreviation === team ? home : 1 - home) * 100);
+};
+
+export const getAtsRecord = (picks: AtsPick[]) => {
+  const wins = picks.filter(pick => pick.result === 'win').length;
+  const losses = picks.filter(pick => pick.result === 'loss').length;
+  const pushes = picks.filter(pick => pick.result === 'push').length;
+  return { wins, losses, pushes, points: wins + pushes * ATS_PUSH_POINTS };
+};
+
+export const loadAtsPicks = async (
+  supabase: any,
+  year: number,
+  seasonType: number,
+  poolId?: string | null
+): Promise<AtsPick[]> => {
+  try {
+    const poolQuery = poolId ? `&poolId=${poolId}` : '';
+    const response = await fetch(`${ATS_URL}?year=${year}&seasonType=${seasonType}${poolQuery}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    console.error('Error loading ATS picks:', error);
+  }
+  return [];
+};
+
+// Returns the week's picks as saved, with the lines the server snapshotted
+export const saveAtsPicks = async (
+  supabase: any,
+  year: number,
+  seasonType: number,
+  week: number,
+  picks: Pick<AtsPick, 'gameId' | 'team'>[],
+  poolId?: string | null
+): Promise<AtsPick[]> => {
+  const response = await fetch(ATS_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify({ poolId, year, seasonType, week, picks })
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text() || 'Failed to save ATS picks');
+  }
+  return await response.json();
+};
+
+export const loadAtsLines = async (
+  supabase: any,
+  poolId: string,
+  year: number,
+  seasonType: number,
+  week: number
+): Promise<AtsLines | null> => {
+  try {
+    const response = await fetch(`${POOLS_URL}/${poolId}/ats-lines?year=${year}&seasonType=${seasonType}&week=${week}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    console.error('Error loading ATS lines:', error);
+  }
+  return null;
+};
+
+export const lockAtsLines = async (
+  supabase: any,
+  poolId: string,
+  year: number,
+  seasonType: number,
+  week: number
+): Promise<AtsLines> => {
+  const response = await fetch(`${POOLS_URL}/${poolId}/ats-lines`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify({ year, seasonType, week })
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text() || 'Failed to lock lines');
+  }
+  return await response.json();
+};
+
+export const saveAtsRules = async (
+  supabase: any,
+  poolId: string,
+  rules: Pick<PoolRules, 'atsPicksPerWeek' | 'atsLineLock'>
+): Promise<Pool> => {
+  const response = await fetch(`${POOLS_URL}/${poolId}/rules`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify(rules)
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text() || 'Failed to save pool rules');
+  }
+  return await response.json();
+};
+
+export const loadAtsLeaderboard = async (
+  supabase: any,
+  poolId: string,
+  year: number,
+  seasonType: number
+): Promise<AtsStanding[]> => {
+  try {
+    const response = await fetch(`${POOLS_URL}/${poolId}/ats-leaderboard?year=${year}&seasonType=${seasonType}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    console.error('Error loading ATS leaderboard:', error);
+  }
+  return [];
+};
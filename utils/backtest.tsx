@@ -0,0 +1,202 @@
+import { GamePrediction } from '../constants/mockData';
+import { getTeam } from '../constants/teams';
+import { applyEloTeamStrength, GameResult, replayResults, ResultsFile } from './eloRatings';
+import { getHomeWinProbability, METRIC_INPUTS, MetricWeights, predictGames } from './predictionEngine';
+import { createBaselineMetrics } from './scheduleIngestion';
+import { buildSurvivorWeek, rankWeekRecommendations } from './survivorOptimizer';
+
+export interface HistoricalGame {
+  year: number;
+  seasonType: number;
+  week: number;
+  game: GamePrediction;
+  // 1 home win, 0 away win, 0.5 tie
+  homeResult: number;
+}
+
+export interface BacktestWindow {
+  startYear: number;
+  endYear: number;
+}
+
+export interface SurvivorBacktest {
+  year: number;
+  weeksPlayed: number;
+  weeksSurvived: number;
+  eliminatedWeek: number | null;
+}
+
+export interface BacktestReport {
+  games: number;
+  accuracy: number;
+  brierScore: number;
+  logLoss: number;
+  survivor: SurvivorBacktest[];
+  averageWeeksSurvived: number;
+}
+
+// Keeps log loss finite when a profile is certain and wrong
+const PROBABILITY_EPSILON = 1e-6;
+
+const toGamePrediction = (year: number, result: GameResult): GamePrediction => {
+  const team = (abbreviation: string) => ({
+    name: getTeam(abbreviation)?.name ?? abbreviation,
+    abbreviation,
+    logo: getTeam(abbreviation)?.logo ?? '🏈'
+  });
+
+  return {
+    id: `${year}_${result.seasonType}_${result.week}_${result.awayTeam}_${result.homeTeam}`,
+    awayTeam: team(result.awayTeam),
+    homeTeam: team(result.homeTeam),
+    gameDate: result.gameDate,
+    gameTime: '',
+    neutralSite: !!result.neutralSite,
+    status: 'final',
+    score: { away: result.awayScore, home: result.homeScore },
+    predictions: {
+      awayWinProbability: 50,
+      homeWinProbability: 50,
+      confidence: 'low',
+      recommendation: 'none'
+    },
+    metrics: {
+      teamStrength: 50,
+      injuries: 50,
+      weather: 50,
+      schedule: 50,
+      overall: 50,
+      awayTeam: createBaselineMetrics(),
+      homeTeam: createBaselineMetrics()
+    }
+  };
+};
+
+const getHomeResult = (result: GameResult) => {
+  if (result.homeScore === result.awayScore) return 0.5;
+  return result.homeScore > result.awayScore ? 1 : 0;
+};
+
+const inWindow = (year: number, window?: BacktestWindow) => {
+  return !window || (year >= window.startYear && year <= window.endYear);
+};
+
+// Every completed non-preseason game in the window, rated only with results from before its own week
+export const getHistoricalGames = (files: ResultsFile[], window?: BacktestWindow): HistoricalGame[] => {
+  return files
+    .filter(file => inWindow(file.season, window))
+    .flatMap(file => {
+      const weeks = new Map<string, GameResult[]>();
+      file.games
+        .filter(result => result.seasonType !== 1)
+        .forEach(result => {
+          const key = `${result.seasonType}_${result.week}`;
+          weeks.set(key, [...(weeks.get(key) ?? []), result]);
+        });
+
+      return Array.from(weeks.values()).flatMap(results => {
+        const { seasonType, week } = results[0];
+        const ratings = replayResults(files, { year: file.season, seasonType, week });
+        const games = applyEloTeamStrength(results.map(result => toGamePrediction(file.season, result)), ratings);
+
+        return games.map((game, index) => ({
+          year: file.season,
+          seasonType,
+          week,
+          game,
+          homeResult: getHomeResult(results[index])
+        }));
+      });
+    })
+    .sort((a, b) => a.year - b.year || a.seasonType - b.seasonType || a.week - b.week);
+};
+
+// Metrics that differ between the two teams in at least one past game. The bundled results only rate
+// team strength; every other input is the same baseline for both sides, so its weight can dilute
+// team strength but never pick a side.
+export const getMeasuredMetrics = (games: HistoricalGame[]) => {
+  return Object.keys(METRIC_INPUTS).filter(id => games.some(({ game }) => {
+    const key = METRIC_INPUTS[id];
+    return game.metrics.homeTeam[key] !== game.metrics.awayTeam[key];
+  }));
+};
+
+const clampProbability = (p: number) => Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, p));
+
+export const getLogLoss = (games: HistoricalGame[], weights: MetricWeights) => {
+  if (games.length === 0) return 0;
+  const total = games.reduce((sum, { game, homeResult }) => {
+    const p = clampProbability(getHomeWinProbability(game, weights));
+    return sum - (homeResult * Math.log(p) + (1 - homeResult) * Math.log(1 - p));
+  }, 0);
+  return total / games.length;
+};
+
+// Plays each regular season with the tracker's own top recommendation every week, using only
+// the ratings available at the time of each pick. Ties count as losses, the default pool rule.
+const simulateSurvivor = (games: HistoricalGame[], weights: MetricWeights): SurvivorBacktest[] => {
+  const seasons = Array.from(new Set(games.filter(g => g.seasonType === 2).map(g => g.year)));
+
+  return seasons.map(year => {
+    const seasonGames = games.filter(g => g.year === year && g.seasonType === 2);
+    const weeks = Array.from(new Set(seasonGames.map(g => g.week))).sort((a, b) => a - b);
+    const usedTeams: string[] = [];
+    let eliminatedWeek: number | null = null;
+    let weeksSurvived = 0;
+
+    for (const week of weeks) {
+      const survivorWeeks = weeks
+        .filter(w => w >= week)
+        .map(w => buildSurvivorWeek(w, predictGames(seasonGames.filter(g => g.week === w).map(g => g.game), weights)));
+      const pick = rankWeekRecommendations(survivorWeeks, usedTeams, week)[0];
+      const result = seasonGames.find(g => g.week === week &&
+        (g.game.awayTeam.abbreviation === pick?.team || g.game.homeTeam.abbreviation === pick?.team));
+
+      if (!pick || !result) {
+        eliminatedWeek = week;
+        break;
+      }
+
+      const pickedHome = result.game.homeTeam.abbreviation === pick.team;
+      const won = pickedHome ? result.homeResult === 1 : result.homeResult === 0;
+      if (!won) {
+        eliminatedWeek = week;
+        break;
+      }
+      usedTeams.push(pick.team);
+      weeksSurvived++;
+    }
+
+    return { year, weeksPlayed: weeks.length, weeksSurvived, eliminatedWeek };
+  });
+};
+
+export const backtestWeights = (games: HistoricalGame[], weights: MetricWeights): BacktestReport => {
+  let correct = 0;
+  let brier = 0;
+
+  games.forEach(({ game, homeResult }) => {
+    const p = getHomeWinProbability(game, weights);
+    brier += (p - homeResult) ** 2;
+    // A coin-flip prediction or a tie earns half credit
+    if (p === 0.5 || homeResult === 0.5) {
+      correct += 0.5;
+    } else if ((p > 0.5) === (homeResult === 1)) {
+      correct += 1;
+    }
+  });
+
+  const survivor = simulateSurvivor(games, weights);
+  const count = Math.max(games.length, 1);
+
+  return {
+    games: games.length,
+    accuracy: correct / count,
+    brierScore: brier / count,
+    logLoss: getLogLoss(games, weights),
+    survivor,
+    averageWeeksSurvived: survivor.length > 0
+      ? survivor.reduce((sum, season) => sum + season.weeksSurvived, 0) / survivor.length
+      : 0
+  };
+};
@@ -0,0 +1,391 @@
+import { Bracket, BracketMatchup, BracketStanding, Conference, GamePrediction, PlayoffSeeds, Pool, PoolRules } from '../constants/mockData';
+import { getTeam } from '../constants/teams';
+import { projectId } from './supabase/info';
+import { getCalibratedThresholds } from './calibration';
+import { getKickoffTime, isLocked } from './pickLocks';
+import { predictGames, MetricWeights } from './predictionEngine';
+import { withTeamRatings } from './schedule';
+import { createBaselineMetrics, WeekSchedule } from './scheduleIngestion';
+
+const SEEDS_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/playoff-seeds`;
+const BRACKET_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/bracket`;
+const POOLS_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/pools`;
+
+export const POSTSEASON = 3;
+
+export const CONFERENCES: Conference[] = ['AFC', 'NFC'];
+
+// Rounds line up with postseason weeks, Wild Card through Super Bowl
+export const BRACKET_ROUNDS = [1, 2, 3, 4];
+
+export const ROUND_NAMES: Record<number, string> = {
+  1: 'Wild Card',
+  2: 'Divisional',
+  3: 'Conference Championship',
+  4: 'Super Bowl'
+};
+
+// Match the server's default for pools created before brackets
+export const DEFAULT_BRACKET_POINTS = [1, 2, 4, 8];
+
+export const getBracketPoints = (pool: Pool | null) => pool?.rules.bracketPoints ?? DEFAULT_BRACKET_POINTS;
+
+export const emptyWinners = (): Record<number, string[]> => {
+  return Object.fromEntries(BRACKET_ROUNDS.map(round => [round, []]));
+};
+
+// Mirrors the server: after the Wild Card round the 1 seed hosts the lowest remaining seed,
+// so a round's games only exist once the previous round is picked for that conference
+export const getRoundMatchups = (
+  seeds: Record<Conference, string[]>,
+  winners: Record<number, string[]>,
+  round: number
+): BracketMatchup[] => {
+  if (round === 4) {
+    const [afc, nfc] = CONFERENCES.map(conference => (winners[3] ?? []).find(team => seeds[conference].includes(team)));
+    return afc && nfc ? [{ conference: null, higher: afc, lower: nfc }] : [];
+  }
+
+  return CONFERENCES.flatMap(conference => {
+    const teams = seeds[conference];
+    if (round === 1) {
+      return [[1, 6], [2, 5], [3, 4]].map(([higher, lower]) => ({ conference, higher: teams[higher], lower: teams[lower] }));
+    }
+
+    const advanced = (winners[round - 1] ?? [])
+      .filter(team => teams.includes(team))
+      .sort((a, b) => teams.indexOf(a) - teams.indexOf(b));
+    if (round === 2 && advanced.length === 3) {
+      return [
+        { conference, higher: teams[0], lower: advanced[2] },
+        { conference, higher: advanced[0], lower: advanced[1] }
+      ];
+    }
+    if (round === 3 && advanced.length === 2) {
+      return [{ conference, higher: advanced[0], lower: advanced[1] }];
+    }
+    return [];
+  });
+};
+
+export const getSeed = (seeds: Record<Conference, string[]>, team: string) => {
+  const conference = CONFERENCES.find(c => seeds[c].includes(team));
+  return conference ? seeds[conference].indexOf(team) + 1 : null;
+};
+
+// Drops picks an earlier change left without a game, keeping at most one winner per matchup
+export const pruneBracket = (seeds: Record<Conference, string[]>, winners: Record<number, string[]>) => {
+  const pruned = emptyWinners();
+  for (const round of BRACKET_ROUNDS) {
+    const picks = winners[round] ?? [];
+    pruned[round] = getRoundMatchups(seeds, pruned, round)
+      .map(matchup => picks.find(team => team === matchup.higher || team === matchup.lower))
+      .filter((team): team is string => !!team);
+  }
+  return pruned;
+};
+
+// Setting a matchup's winner clears any later picks that depended on the other team
+export const pickWinner = (
+  seeds: Record<Conference, string[]>,
+  winners: Record<number, string[]>,
+  round: number,
+  matchup: BracketMatchup,
+  team: string
+) => {
+  const picks = (winners[round] ?? []).filter(pick => pick !== matchup.higher && pick !== matchup.lower);
+  return pruneBracket(seeds, { ...winners, [round]: [...picks, team] });
+};
+
+export const isBracketComplete = (winners: Record<number, string[]>) => {
+  return (winners[1]?.length ?? 0) === 6 && (winners[2]?.length ?? 0) === 4 &&
+    (winners[3]?.length ?? 0) === 2 && (winners[4]?.length ?? 0) === 1;
+};
+
+// Home team's chance (0-1) of beating each possible visitor, keyed `${away}@${home}`
+export type MatchupModel = Record<string, number>;
+
+const matchupKey = (away: string, home: string) => `${away}@${home}`;
+
+const createMatchupGame = (away: string, home: string): GamePrediction => {
+  const team = (abbreviation: string) => {
+    const info = getTeam(abbreviation);
+    return { name: info?.name ?? abbreviation, abbreviation, logo: info?.logo ?? '🏈' };
+  };
+
+  return {
+    id: matchupKey(away, home),
+    awayTeam: team(away),
+    homeTeam: team(home),
+    gameDate: '',
+    gameTime: '',
+    predictions: {
+      awayWinProbability: 50,
+      homeWinProbability: 50,
+      confidence: 'low',
+      recommendation: 'none'
+    },
+    metrics: {
+      teamStrength: 50,
+      injuries: 50,
+      weather: 50,
+      schedule: 50,
+      overall: 50,
+      awayTeam: createBaselineMetrics(),
+      homeTeam: createBaselineMetrics()
+    }
+  };
+};
+
+// Predicts every pairing of playoff teams with each side hosting, from the ratings entering the postseason
+export const buildMatchupModel = (
+  seeds: Record<Conference, string[]>,
+  year: number,
+  metricWeights?: MetricWeights | null
+): MatchupModel => {
+  const teams = CONFERENCES.flatMap(conference => seeds[conference]);
+  const games = teams.flatMap(home => teams.filter(away => away !== home).map(away => createMatchupGame(away, home)));
+  const predicted = predictGames(withTeamRatings(games, year, POSTSEASON, 1), metricWeights, getCalibratedThresholds(metricWeights));
+  return Object.fromEntries(predicted.map(game => [game.id, game.predictions.homeWinProbability / 100]));
+};
+
+// Chance (0-1) the higher seed wins; the Super Bowl is neutral, so both home orientations are averaged
+export const getMatchupProbability = (model: MatchupModel, matchup: BracketMatchup) => {
+  const hosting = model[matchupKey(matchup.lower, matchup.higher)] ?? 0.5;
+  if (matchup.conference !== null) return hosting;
+  const visiting = 1 - (model[matchupKey(matchup.higher, matchup.lower)] ?? 0.5);
+  return (hosting + visiting) / 2;
+};
+
+export const getTeamWinProbability = (model: MatchupModel, matchup: BracketMatchup, team: string) => {
+  const higher = getMatchupProbability(model, matchup);
+  return team === matchup.higher ? higher : 1 - higher;
+};
+
+// Fills every open matchup with the model favorite, round by round, keeping the picks already made
+export const fillFromModel = (
+  seeds: Record<Conference, string[]>,
+  winners: Record<number, string[]>,
+  model: MatchupModel
+) => {
+  const filled = pruneBracket(seeds, winners);
+  for (const round of BRACKET_ROUNDS) {
+    filled[round] = getRoundMatchups(seeds, filled, round).map(matchup => {
+      const picked = filled[round].find(team => team === matchup.higher || team === matchup.lower);
+      if (picked) return picked;
+      return getMatchupProbability(model, matchup) >= 0.5 ? matchup.higher : matchup.lower;
+    });
+  }
+  return filled;
+};
+
+// Chance (0-1) each team wins its game in each round, over every path through the bracket.
+// Byes count as a Wild Card win for the 1 seeds.
+export const getAdvancementOdds = (seeds: Record<Conference, string[]>, model: MatchupModel) => {
+  const odds: Record<string, number[]> = {};
+  for (const team of CONFERENCES.flatMap(conference => seeds[conference])) {
+    odds[team] = BRACKET_ROUNDS.map(() => 0);
+  }
+  for (const conference of CONFERENCES) {
+    odds[seeds[conference][0]][0] = 1;
+  }
+
+  const visit = (round: number, winners: Record<number, string[]>, probability: number) => {
+    if (round > BRACKET_ROUNDS.length) return;
+    const matchups = getRoundMatchups(seeds, winners, round);
+    const chances = matchups.map(matchup => getMatchupProbability(model, matchup));
+
+    for (let outcome = 0; outcome < 1 << matchups.length; outcome++) {
+      let weight = probability;
+      const roundWinners = matchups.map((matchup, i) => {
+        const higherWins = (outcome & (1 << i)) === 0;
+        weight *= higherWins ? chances[i] : 1 - chances[i];
+        return higherWins ? matchup.higher : matchup.lower;
+      });
+      if (weight === 0) continue;
+
+      roundWinners.forEach(team => { odds[team][round - 1] += weight; });
+      visit(round + 1, { ...winners, [round]: roundWinners }, weight);
+    }
+  };
+
+  visit(1, emptyWinners(), 1);
+  return odds;
+};
+
+// Winners and eliminated teams from the postseason weeks, one schedule per round
+export const getPlayoffResults = (schedules: WeekSchedule[]) => {
+  const winners = emptyWinners();
+  const eliminated: string[] = [];
+
+  for (const round of BRACKET_ROUNDS) {
+    for (const game of schedules.find(schedule => schedule.week === round)?.games ?? []) {
+      if (game.status !== 'final' || !game.score || game.score.home === game.score.away) continue;
+      const homeWon = game.score.home > game.score.away;
+      winners[round].push(homeWon ? game.homeTeam.abbreviation : game.awayTeam.abbreviation);
+      eliminated.push(homeWon ? game.awayTeam.abbreviation : game.homeTeam.abbreviation);
+    }
+  }
+
+  return { winners, eliminated };
+};
+
+// Mirrors the server's scoring: points so far, plus the most still reachable while picked teams stay alive
+export const scoreBracket = (
+  winners: Record<number, string[]>,
+  results: ReturnType<typeof getPlayoffResults>,
+  points: number[]
+) => {
+  const roundPoints = BRACKET_ROUNDS.map(() => 0);
+  let remaining = 0;
+
+  BRACKET_ROUNDS.forEach((round, i) => {
+    for (const team of winners[round] ?? []) {
+      if (results.winners[round].includes(team)) {
+        roundPoints[i] += points[i];
+      } else if (!results.eliminated.includes(team)) {
+        remaining += points[i];
+      }
+    }
+  });
+
+  const score = roundPoints.reduce((sum, p) => sum + p, 0);
+  return { score, possible: score + remaining, roundPoints };
+};
+
+// Mirrors the server: with no Wild Card schedule, brackets lock on the earliest date the round has been played
+const getFallbackLockTime = (year: number) => new Date(Date.UTC(year + 1, 0, 9, 5));
+
+// Brackets lock for everyone at the first Wild Card kickoff
+export const getBracketLockTime = (wildCardGames: GamePrediction[], year: number) => {
+  const kickoffs = wildCardGames
+    .map(game => getKickoffTime(game))
+    .filter((kickoff): kickoff is Date => kickoff !== null)
+    .sort((a, b) => a.getTime() - b.getTime());
+  return kickoffs[0] ?? (wildCardGames.length === 0 ? getFallbackLockTime(year) : null);
+};
+
+export const isBracketLocked = (wildCardGames: GamePrediction[], year: number, now: Date) => {
+  if (wildCardGames.length === 0) return now >= getFallbackLockTime(year);
+  return wildCardGames.some(game => isLocked(getKickoffTime(game), now));
+};
+
+// A pool's seeds come from its commissioner; personal brackets use the user's own seeds
+export const loadPlayoffSeeds = async (supabase: any, year: number, poolId?: string | null): Promise<PlayoffSeeds | null> => {
+  try {
+    const poolQuery = poolId ? `&poolId=${poolId}` : '';
+    const response = await fetch(`${SEEDS_URL}?year=${year}${poolQuery}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    console.error('Error loading playoff seeds:', error);
+  }
+  return null;
+};
+
+export const savePlayoffSeeds = async (
+  supabase: any,
+  year: number,
+  seeds: Record<Conference, string[]>,
+  poolId?: string | null
+): Promise<PlayoffSeeds> => {
+  const response = await fetch(SEEDS_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify({ poolId, year, seeds })
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text() || 'Failed to save playoff seeds');
+  }
+  return await response.json();
+};
+
+export const loadBracket = async (supabase: any, year: number, poolId?: string | null): Promise<Bracket | null> => {
+  try {
+    const poolQuery = poolId ? `&poolId=${poolId}` : '';
+    const response = await fetch(`${BRACKET_URL}?year=${year}${poolQuery}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    console.error('Error loading bracket:', error);
+  }
+  return null;
+};
+
+export const saveBracket = async (
+  supabase: any,
+  year: number,
+  winners: Record<number, string[]>,
+  poolId?: string | null
+): Promise<Bracket> => {
+  const response = await fetch(BRACKET_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify({ poolId, year, winners })
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text() || 'Failed to save bracket');
+  }
+  return await response.json();
+};
+
+export const saveBracketPoints = async (
+  supabase: any,
+  poolId: string,
+  rules: Pick<PoolRules, 'bracketPoints'>
+): Promise<Pool> => {
+  const response = await fetch(`${POOLS_URL}/${poolId}/rules`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify(rules)
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text() || 'Failed to save pool rules');
+  }
+  return await response.json();
+};
+
+export const loadBracketLeaderboard = async (
+  supabase: any,
+  poolId: string,
+  year: number
+): Promise<BracketStanding[]> => {
+  try {
+    const response = await fetch(`${POOLS_URL}/${poolId}/bracket-leaderboard?year=${year}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    console.error('Error loading bracket leaderboard:', error);
+  }
+  return [];
+};
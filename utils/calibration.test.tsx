@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { GamePrediction } from '../constants/mockData';
+import { HistoricalGame } from './backtest';
+import { buildCalibrationReport } from './calibration';
+import { DEFAULT_CONFIDENCE_THRESHOLDS, getConfidenceTier, getDefaultWeights } from './predictionEngine';
+import { createBaselineMetrics } from './scheduleIngestion';
+
+// A past game whose home side is rated homeStrength against a neutral away side
+const historicalGame = (index: number, homeStrength: number, homeResult: number): HistoricalGame => {
+  const game: GamePrediction = {
+    id: `game_${index}`,
+    awayTeam: { name: 'Away', abbreviation: 'AWY', logo: '' },
+    homeTeam: { name: 'Home', abbreviation: 'HOM', logo: '' },
+    gameDate: '2024-09-08',
+    gameTime: '',
+    status: 'final',
+    predictions: { awayWinProbability: 50, homeWinProbability: 50, confidence: 'low', recommendation: 'none' },
+    metrics: {
+      teamStrength: 50,
+      injuries: 50,
+      weather: 50,
+      schedule: 50,
+      overall: 50,
+      awayTeam: createBaselineMetrics(),
+      homeTeam: { ...createBaselineMetrics(), teamStrength: homeStrength }
+    }
+  };
+  return { year: 2024, seasonType: 2, week: 1, game, homeResult };
+};
+
+const tiersIn = (thresholds: typeof DEFAULT_CONFIDENCE_THRESHOLDS) => {
+  return new Set([0, thresholds.medium, thresholds.high].map(edge => getConfidenceTier(50 + edge, thresholds)));
+};
+
+describe('buildCalibrationReport', () => {
+  it('keeps the default tiers when the history is too small to calibrate', () => {
+    const games = Array.from({ length: 5 }, (_, i) => historicalGame(i, 90, 1));
+    const report = buildCalibrationReport(games, getDefaultWeights());
+
+    expect(report.calibrated).toBe(false);
+    expect(report.defaultTiers).toEqual(['high', 'medium']);
+    expect(report.thresholds).toEqual(DEFAULT_CONFIDENCE_THRESHOLDS);
+    expect(tiersIn(report.thresholds)).toEqual(new Set(['low', 'medium', 'high']));
+  });
+
+  it('never lets a calibrated tier swallow the low tier', () => {
+    // Every favorite wins, so any threshold meets the targets
+    const games = Array.from({ length: 40 }, (_, i) => historicalGame(i, 100, 1));
+    const report = buildCalibrationReport(games, getDefaultWeights());
+
+    expect(report.calibrated).toBe(true);
+    expect(report.thresholds.medium).toBeGreaterThan(0);
+    expect(report.thresholds.high).toBeGreaterThan(report.thresholds.medium);
+    expect(tiersIn(report.thresholds)).toEqual(new Set(['low', 'medium', 'high']));
+  });
+});
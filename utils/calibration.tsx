@@ -0,0 +1,143 @@
+import { historicalResults } from '../constants/historicalResults';
+import { getHistoricalGames, HistoricalGame } from './backtest';
+import {
+  ConfidenceThresholds,
+  DEFAULT_CONFIDENCE_THRESHOLDS,
+  getDefaultWeights,
+  getHomeWinProbability,
+  MetricWeights
+} from './predictionEngine';
+
+export interface CalibrationBucket {
+  // Favorite's stated win probability range, in percent
+  min: number;
+  max: number;
+  games: number;
+  meanPredicted: number; // 0-1
+  observed: number; // 0-1, ties count half
+}
+
+export interface CalibrationReport {
+  games: number;
+  buckets: CalibrationBucket[];
+  thresholds: ConfidenceThresholds;
+  // False when there wasn't enough history for either tier and the default thresholds are in use
+  calibrated: boolean;
+  // Tiers the history couldn't measure on their own, which keep their default threshold
+  defaultTiers: ConfidenceTier[];
+}
+
+type ConfidenceTier = keyof ConfidenceThresholds;
+
+const BUCKET_WIDTH = 5;
+
+// A tier has to deliver this favorite win rate in past games to earn its label
+const TIER_TARGETS = { high: 0.7, medium: 0.6 };
+
+// Fewest games at or above a candidate threshold before its win rate is trusted
+const MIN_TIER_GAMES = 20;
+
+// Candidate thresholds are tried every point of edge; bucket-width steps skip straight past the
+// narrow edges early-season ratings produce. A threshold of zero would put every game in the tier and
+// leave none for the one below, so the search starts one step up.
+const THRESHOLD_STEP = 1;
+
+interface FavoritePrediction {
+  edge: number; // percentage points over 50
+  probability: number; // 0-1
+  result: number; // 1 favorite won, 0 lost, 0.5 tie
+}
+
+const getFavoritePredictions = (games: HistoricalGame[], weights: MetricWeights): FavoritePrediction[] => {
+  return games.map(({ game, homeResult }) => {
+    const home = getHomeWinProbability(game, weights);
+    const homeFavored = home >= 0.5;
+    const probability = homeFavored ? home : 1 - home;
+    return {
+      edge: (probability - 0.5) * 100,
+      probability,
+      result: homeFavored ? homeResult : 1 - homeResult
+    };
+  });
+};
+
+const winRate = (predictions: FavoritePrediction[]) => {
+  return predictions.reduce((sum, p) => sum + p.result, 0) / Math.max(predictions.length, 1);
+};
+
+// Lowest whole-point edge from which favorites have historically won at the target rate
+const findThreshold = (predictions: FavoritePrediction[], target: number) => {
+  for (let edge = THRESHOLD_STEP; edge < 50; edge += THRESHOLD_STEP) {
+    const qualifying = predictions.filter(p => p.edge >= edge);
+    if (qualifying.length < MIN_TIER_GAMES) return null;
+    if (winRate(qualifying) >= target) return edge;
+  }
+  return null;
+};
+
+// Each tier is calibrated on its own, and a tier the history can't support keeps its default threshold.
+// Thresholds stay above zero and the high tier stays above the medium one, so all three tiers can occur.
+const deriveConfidenceThresholds = (predictions: FavoritePrediction[]) => {
+  const fittedMedium = findThreshold(predictions, TIER_TARGETS.medium);
+  const medium = fittedMedium ?? DEFAULT_CONFIDENCE_THRESHOLDS.medium;
+  const fittedHigh = findThreshold(predictions, TIER_TARGETS.high);
+  const high = fittedHigh !== null && fittedHigh > medium
+    ? fittedHigh
+    : Math.max(DEFAULT_CONFIDENCE_THRESHOLDS.high, medium + THRESHOLD_STEP);
+
+  const defaultTiers: ConfidenceTier[] = [];
+  if (high !== fittedHigh) defaultTiers.push('high');
+  if (fittedMedium === null) defaultTiers.push('medium');
+  return { thresholds: { high, medium }, defaultTiers };
+};
+
+export const buildCalibrationReport = (games: HistoricalGame[], weights: MetricWeights): CalibrationReport => {
+  const predictions = getFavoritePredictions(games, weights);
+
+  const buckets: CalibrationBucket[] = [];
+  for (let min = 50; min < 100; min += BUCKET_WIDTH) {
+    const max = min + BUCKET_WIDTH;
+    const inBucket = predictions.filter(p => {
+      const percent = p.probability * 100;
+      return percent >= min && (percent < max || max === 100);
+    });
+    if (inBucket.length === 0) continue;
+
+    buckets.push({
+      min,
+      max,
+      games: inBucket.length,
+      meanPredicted: inBucket.reduce((sum, p) => sum + p.probability, 0) / inBucket.length,
+      observed: winRate(inBucket)
+    });
+  }
+
+  const { thresholds, defaultTiers } = deriveConfidenceThresholds(predictions);
+  return {
+    games: games.length,
+    buckets,
+    thresholds,
+    calibrated: defaultTiers.length < 2,
+    defaultTiers
+  };
+};
+
+// Replaying history is the expensive part, so it happens once. Only the latest weight profile's report
+// is kept: dragging a slider produces a new profile on every step.
+let historicalGames: HistoricalGame[] | null = null;
+let cachedReport: { key: string; report: CalibrationReport } | null = null;
+
+export const getCalibrationReport = (weights?: MetricWeights | null) => {
+  const activeWeights = weights ?? getDefaultWeights();
+  const key = JSON.stringify(activeWeights);
+  if (cachedReport?.key === key) return cachedReport.report;
+
+  historicalGames = historicalGames ?? getHistoricalGames(historicalResults);
+  const report = buildCalibrationReport(historicalGames, activeWeights);
+  cachedReport = { key, report };
+  return report;
+};
+
+export const getCalibratedThresholds = (weights?: MetricWeights | null) => {
+  return getCalibrationReport(weights).thresholds;
+};
@@ -0,0 +1,139 @@
+import { ConfidencePick, ConfidenceSheet, ConfidenceStanding, GamePrediction } from '../constants/mockData';
+import { projectId } from './supabase/info';
+
+const CONFIDENCE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/confidence-picks`;
+const POOLS_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/pools`;
+
+export const getPickedProbability = (game: GamePrediction, team: string) => {
+  return game.homeTeam.abbreviation === team
+    ? game.predictions.homeWinProbability
+    : game.predictions.awayWinProbability;
+};
+
+const getFavorite = (game: GamePrediction) => {
+  return game.predictions.awayWinProbability > game.predictions.homeWinProbability
+    ? game.awayTeam.abbreviation
+    : game.homeTeam.abbreviation;
+};
+
+// Takes every favorite and stacks the points on the surest games, which maximizes expected points.
+// Games that have kicked off keep whatever was picked for them; the open games share the remaining
+// points, highest first when a locked game was left unpicked.
+export const getSuggestedPicks = (
+  games: GamePrediction[],
+  lockedPicks: ConfidencePick[] = [],
+  lockedGameIds: string[] = lockedPicks.map(pick => pick.gameId)
+): ConfidencePick[] => {
+  const usedPoints = new Set(lockedPicks.map(pick => pick.points));
+  const openGames = games.filter(game => !lockedGameIds.includes(game.id));
+  const freePoints = Array.from({ length: games.length }, (_, i) => i + 1)
+    .filter(points => !usedPoints.has(points))
+    .slice(-openGames.length);
+
+  const suggested = openGames
+    .map(game => {
+      const team = getFavorite(game);
+      return { game, team, probability: getPickedProbability(game, team) };
+    })
+    .sort((a, b) => a.probability - b.probability)
+    .map(({ game, team }, i) => ({ gameId: game.id, team, points: freePoints[i] }));
+
+  return [...lockedPicks, ...suggested];
+};
+
+export const getExpectedPoints = (picks: ConfidencePick[], games: GamePrediction[]) => {
+  const expected = picks.reduce((sum, pick) => {
+    const game = games.find(g => g.id === pick.gameId);
+    return game ? sum + pick.points * getPickedProbability(game, pick.team) / 100 : sum;
+  }, 0);
+  return Math.round(expected * 10) / 10;
+};
+
+// Problems that keep a sheet from being complete; the server accepts partial sheets, so these are warnings
+export const getSheetWarnings = (picks: ConfidencePick[], games: GamePrediction[]) => {
+  const warnings: string[] = [];
+  const missing = games.filter(game => !picks.some(pick => pick.gameId === game.id));
+  if (missing.length > 0) {
+    warnings.push(`${missing.length} game${missing.length === 1 ? '' : 's'} still to pick`);
+  }
+
+  const counts = picks.reduce<Record<number, number>>((acc, pick) => {
+    acc[pick.points] = (acc[pick.points] || 0) + 1;
+    return acc;
+  }, {});
+  const duplicated = Object.keys(counts).filter(points => counts[Number(points)] > 1);
+  if (duplicated.length > 0) {
+    warnings.push(`Points used more than once: ${duplicated.join(', ')}`);
+  }
+
+  return warnings;
+};
+
+export const loadConfidenceSheets = async (
+  supabase: any,
+  year: number,
+  seasonType: number,
+  poolId?: string | null
+): Promise<ConfidenceSheet[]> => {
+  try {
+    const poolQuery = poolId ? `&poolId=${poolId}` : '';
+    const response = await fetch(`${CONFIDENCE_URL}?year=${year}&seasonType=${seasonType}${poolQuery}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    console.error('Error loading confidence picks:', error);
+  }
+  return [];
+};
+
+// Rejections come back as the server's message so the user sees which game or point value is wrong
+export const saveConfidenceSheet = async (
+  supabase: any,
+  year: number,
+  seasonType: number,
+  week: number,
+  picks: ConfidencePick[],
+  poolId?: string | null
+): Promise<ConfidenceSheet> => {
+  const response = await fetch(CONFIDENCE_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify({ poolId, year, seasonType, week, picks })
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text() || 'Failed to save confidence picks');
+  }
+  return await response.json();
+};
+
+export const loadConfidenceLeaderboard = async (
+  supabase: any,
+  poolId: string,
+  year: number,
+  seasonType: number
+): Promise<ConfidenceStanding[]> => {
+  try {
+    const response = await fetch(`${POOLS_URL}/${poolId}/confidence-leaderboard?year=${year}&seasonType=${seasonType}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    console.error('Error loading confidence leaderboard:', error);
+  }
+  return [];
+};
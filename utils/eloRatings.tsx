@@ -0,0 +1,211 @@
+import { nflTeams } from '../constants/teams';
+import { GamePrediction } from '../constants/mockData';
+
+export interface GameResult {
+  seasonType: number;
+  week: number;
+  gameDate: string;
+  awayTeam: string;
+  homeTeam: string;
+  awayScore: number;
+  homeScore: number;
+  neutralSite?: boolean;
+}
+
+export interface ResultsFile {
+  season: number;
+  games: GameResult[];
+}
+
+export type EloRatings = Record<string, number>;
+
+export interface RatingCutoff {
+  year: number;
+  seasonType: number;
+  week: number;
+}
+
+export const ELO_MEAN = 1505;
+export const ELO_K_FACTOR = 20;
+export const ELO_HOME_ADVANTAGE = 48;
+// Fraction of each team's distance from the mean removed between seasons
+export const ELO_SEASON_REGRESSION = 1 / 3;
+
+// Ratings in this band are mapped onto the 0-100 teamStrength scale
+const ELO_STRENGTH_FLOOR = 1300;
+const ELO_STRENGTH_CEILING = 1700;
+
+export const createInitialRatings = (): EloRatings => {
+  return nflTeams.reduce((acc, team) => {
+    acc[team.abbreviation] = ELO_MEAN;
+    return acc;
+  }, {} as EloRatings);
+};
+
+export const getExpectedScore = (rating: number, opponentRating: number) => {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+};
+
+// Dampens blowouts by favorites so ratings don't run away with a few big wins
+export const getMarginMultiplier = (margin: number, winnerEloDiff: number) => {
+  return Math.log(Math.abs(margin) + 1) * (2.2 / (winnerEloDiff * 0.001 + 2.2));
+};
+
+export const updateRatings = (ratings: EloRatings, game: GameResult): EloRatings => {
+  const homeRating = ratings[game.homeTeam] ?? ELO_MEAN;
+  const awayRating = ratings[game.awayTeam] ?? ELO_MEAN;
+  const homeAdvantage = game.neutralSite ? 0 : ELO_HOME_ADVANTAGE;
+
+  const homeExpected = getExpectedScore(homeRating + homeAdvantage, awayRating);
+  const margin = game.homeScore - game.awayScore;
+  const homeActual = margin > 0 ? 1 : margin < 0 ? 0 : 0.5;
+
+  const homeEloDiff = homeRating + homeAdvantage - awayRating;
+  const winnerEloDiff = margin >= 0 ? homeEloDiff : -homeEloDiff;
+  const multiplier = margin === 0 ? 1 : getMarginMultiplier(margin, winnerEloDiff);
+
+  const shift = ELO_K_FACTOR * multiplier * (homeActual - homeExpected);
+
+  return {
+    ...ratings,
+    [game.homeTeam]: homeRating + shift,
+    [game.awayTeam]: awayRating - shift
+  };
+};
+
+export const regressToMean = (ratings: EloRatings): EloRatings => {
+  return Object.entries(ratings).reduce((acc, [team, rating]) => {
+    acc[team] = rating + (ELO_MEAN - rating) * ELO_SEASON_REGRESSION;
+    return acc;
+  }, {} as EloRatings);
+};
+
+const isBeforeCutoff = (season: number, game: GameResult, cutoff: RatingCutoff) => {
+  if (season !== cutoff.year) return season < cutoff.year;
+  if (game.seasonType !== cutoff.seasonType) return game.seasonType < cutoff.seasonType;
+  return game.week < cutoff.week;
+};
+
+const compareGames = (a: GameResult, b: GameResult) => {
+  return a.seasonType - b.seasonType || a.week - b.week || a.gameDate.localeCompare(b.gameDate);
+};
+
+// Replays every completed non-preseason game before the cutoff, regressing between seasons
+export const replayResults = (files: ResultsFile[], cutoff?: RatingCutoff): EloRatings => {
+  const seasons = [...files]
+    .filter(file => !cutoff || file.season <= cutoff.year)
+    .sort((a, b) => a.season - b.season);
+  let ratings = createInitialRatings();
+  let lastSeason: number | null = null;
+
+  const carryOver = (season: number) => {
+    for (let year = (lastSeason ?? season) + 1; year <= season; year++) {
+      ratings = regressToMean(ratings);
+    }
+    lastSeason = season;
+  };
+
+  seasons.forEach(file => {
+    carryOver(file.season);
+
+    [...file.games]
+      .filter(game => game.seasonType !== 1)
+      .filter(game => !cutoff || isBeforeCutoff(file.season, game, cutoff))
+      .sort(compareGames)
+      .forEach(game => {
+        ratings = updateRatings(ratings, game);
+      });
+  });
+
+  if (cutoff && lastSeason !== null) {
+    carryOver(cutoff.year);
+  }
+
+  return ratings;
+};
+
+export interface ResultsCoverage {
+  season: number;
+  seasonType: number;
+  weeks: number[];
+  games: number;
+}
+
+// Which weeks of each season the results files actually include, so features built on them can say so
+export const getResultsCoverage = (files: ResultsFile[]): ResultsCoverage[] => {
+  return files
+    .flatMap(file => Array.from(new Set(file.games.map(game => game.seasonType))).map(seasonType => {
+      const games = file.games.filter(game => game.seasonType === seasonType);
+      return {
+        season: file.season,
+        seasonType,
+        weeks: Array.from(new Set(games.map(game => game.week))).sort((a, b) => a - b),
+        games: games.length
+      };
+    }))
+    .sort((a, b) => a.season - b.season || a.seasonType - b.seasonType);
+};
+
+// "2024 Week 1" or "2024 Weeks 1–18", one entry per season
+export const describeResultsCoverage = (coverage: ResultsCoverage[]) => {
+  return coverage
+    .filter(entry => entry.seasonType === 2)
+    .map(({ season, weeks }) => {
+      const contiguous = weeks[weeks.length - 1] - weeks[0] === weeks.length - 1;
+      if (weeks.length === 1) return `${season} Week ${weeks[0]}`;
+      return contiguous ? `${season} Weeks ${weeks[0]}–${weeks[weeks.length - 1]}` : `${season} Weeks ${weeks.join(', ')}`;
+    })
+    .join(' and ');
+};
+
+// Last week of the season type with results, or null when the season has none
+export const getLastResultsWeek = (files: ResultsFile[], year: number, seasonType: number) => {
+  const entry = getResultsCoverage(files).find(c => c.season === year && c.seasonType === seasonType);
+  return entry ? entry.weeks[entry.weeks.length - 1] : null;
+};
+
+export const parseResultsFile = (json: any): ResultsFile => {
+  if (typeof json?.season !== 'number' || !Array.isArray(json.games)) {
+    throw new Error('Results file must have a numeric season and a games array');
+  }
+
+  const games = json.games.map((game: any, index: number) => {
+    if (!game.awayTeam || !game.homeTeam || typeof game.awayScore !== 'number' || typeof game.homeScore !== 'number') {
+      throw new Error(`Invalid result at index ${index} in ${json.season} results`);
+    }
+    return {
+      seasonType: game.seasonType ?? 2,
+      week: game.week,
+      gameDate: game.gameDate ?? '',
+      awayTeam: game.awayTeam,
+      homeTeam: game.homeTeam,
+      awayScore: game.awayScore,
+      homeScore: game.homeScore,
+      neutralSite: !!game.neutralSite
+    };
+  });
+
+  return { season: json.season, games };
+};
+
+export const eloToTeamStrength = (rating: number) => {
+  const scaled = (rating - ELO_STRENGTH_FLOOR) / (ELO_STRENGTH_CEILING - ELO_STRENGTH_FLOOR) * 100;
+  return Math.round(Math.min(100, Math.max(0, scaled)));
+};
+
+export const applyEloTeamStrength = (games: GamePrediction[], ratings: EloRatings): GamePrediction[] => {
+  return games.map(game => {
+    const awayStrength = eloToTeamStrength(ratings[game.awayTeam.abbreviation] ?? ELO_MEAN);
+    const homeStrength = eloToTeamStrength(ratings[game.homeTeam.abbreviation] ?? ELO_MEAN);
+
+    return {
+      ...game,
+      metrics: {
+        ...game.metrics,
+        teamStrength: Math.round((awayStrength + homeStrength) / 2),
+        awayTeam: { ...game.metrics.awayTeam, teamStrength: awayStrength },
+        homeTeam: { ...game.metrics.homeTeam, teamStrength: homeStrength }
+      }
+    };
+  });
+};
@@ -0,0 +1,126 @@
+import { TeamRecommendation } from '../constants/mockData';
+import { rankWeekRecommendations, SurvivorOption, SurvivorWeek } from './survivorOptimizer';
+import { DEFAULT_SURVIVOR_RULES, getPicksRequired, SurvivorRules } from './survivorRules';
+
+export interface PortfolioEntry {
+  id: string;
+  name: string;
+  usedTeams: string[];
+  // Teams the entry already picked this week, which it keeps
+  currentPicks: string[];
+}
+
+// One per pick: an entry in a week that needs several picks has several assignments
+export interface PortfolioAssignment {
+  entryId: string;
+  entryName: string;
+  recommendation: TeamRecommendation;
+  isLockedIn: boolean;
+}
+
+export interface EntryPortfolio {
+  assignments: PortfolioAssignment[];
+  anySurvives: number;
+  expectedSurvivors: number;
+}
+
+interface BestCombination {
+  picks: TeamRecommendation[][];
+  score: number;
+  anySurvives: number;
+  expectedSurvivors: number;
+}
+
+// Each entry considers its own best few options; enough to diversify without blowing up the search
+const CANDIDATES_PER_ENTRY = 4;
+
+// Games are independent, but entries on the same team live or die together and opposite sides hedge each other.
+// An entry with several picks survives only if every one of them does.
+const evaluateCombination = (entryOptions: SurvivorOption[][]) => {
+  const options = entryOptions.flat();
+  const games = Array.from(new Set(options.map(option => option.gameId)));
+  const homeWinProbability = games.map(gameId => {
+    const option = options.find(o => o.gameId === gameId)!;
+    return option.isHome ? option.winProbability : 1 - option.winProbability;
+  });
+
+  let anySurvives = 0;
+  let expectedSurvivors = 0;
+  for (let mask = 0; mask < 1 << games.length; mask++) {
+    let probability = 1;
+    games.forEach((_, index) => {
+      const homeWon = (mask >> index) & 1;
+      probability *= homeWon ? homeWinProbability[index] : 1 - homeWinProbability[index];
+    });
+
+    const survivors = entryOptions.filter(entry => entry.every(option => {
+      const homeWon = (mask >> games.indexOf(option.gameId)) & 1;
+      return option.isHome === !!homeWon;
+    })).length;
+    if (survivors > 0) anySurvives += probability;
+    expectedSurvivors += probability * survivors;
+  }
+
+  return { anySurvives, expectedSurvivors };
+};
+
+// Every way to choose count of the candidates, in ranked order
+const choose = (candidates: TeamRecommendation[], count: number): TeamRecommendation[][] => {
+  if (count === 0) return [[]];
+  return candidates.flatMap((candidate, index) => {
+    return choose(candidates.slice(index + 1), count - 1).map(rest => [candidate, ...rest]);
+  });
+};
+
+// Assigns the week's required picks to every live entry, balancing the chance that at least one entry
+// survives against how many entries are expected to survive
+export const buildEntryPortfolio = (
+  weeks: SurvivorWeek[],
+  entries: PortfolioEntry[],
+  currentWeek: number,
+  isAvailable: (recommendation: TeamRecommendation) => boolean,
+  rules: SurvivorRules = DEFAULT_SURVIVOR_RULES
+): EntryPortfolio | null => {
+  const thisWeek = weeks.find(week => week.week === currentWeek);
+  if (!thisWeek || entries.length === 0) return null;
+  const requiredPicks = getPicksRequired(rules, currentWeek);
+
+  // Each entry's candidate pick sets: the picks it already made, filled up from its best few open options
+  const candidates = entries.map(entry => {
+    const ranked = rankWeekRecommendations(weeks, entry.usedTeams, currentWeek, null, rules);
+    const kept = ranked.filter(rec => entry.currentPicks.includes(rec.team)).slice(0, requiredPicks);
+    const open = ranked
+      .filter(rec => !entry.currentPicks.includes(rec.team) && isAvailable(rec))
+      .slice(0, CANDIDATES_PER_ENTRY);
+    return choose(open, requiredPicks - kept.length).map(picks => [...kept, ...picks]);
+  });
+  if (candidates.some(list => list.length === 0)) return null;
+
+  // Depth-first over every combination of candidates, keeping the highest scoring one
+  const search = (index: number, picks: TeamRecommendation[][]): BestCombination | null => {
+    if (index === entries.length) {
+      const options = picks.map(entryPicks => entryPicks.map(pick => thisWeek.options.find(option => option.team === pick.team)!));
+      const { anySurvives, expectedSurvivors } = evaluateCombination(options);
+      return { picks, score: anySurvives + expectedSurvivors / entries.length, anySurvives, expectedSurvivors };
+    }
+
+    return candidates[index].reduce<BestCombination | null>((best, candidate) => {
+      const result = search(index + 1, [...picks, candidate]);
+      return result && (!best || result.score > best.score) ? result : best;
+    }, null);
+  };
+
+  const result = search(0, []);
+  if (!result) return null;
+
+  return {
+    assignments: entries.flatMap((entry, index) => result.picks[index].map(recommendation => ({
+      entryId: entry.id,
+      entryName: entry.name,
+      recommendation,
+      isLockedIn: entry.currentPicks.includes(recommendation.team)
+    }))),
+    anySurvives: result.anySurvives,
+    expectedSurvivors: result.expectedSurvivors
+  };
+};
@@ -0,0 +1,35 @@
+import { GamePrediction, MetricContribution } from '../constants/mockData';
+
+// Contributions smaller than this don't make the reasoning list
+const MIN_REASON_POINTS = 1;
+const MAX_REASONS = 3;
+
+// Flips the home-side breakdown to the requested team's point of view
+export const getSideBreakdown = (game: GamePrediction, side: 'away' | 'home'): MetricContribution[] => {
+  const breakdown = game.predictions.breakdown ?? [];
+  if (side === 'home') return breakdown;
+  return breakdown.map(contribution => ({
+    ...contribution,
+    label: contribution.id === 'home_field' ? 'Road game' : contribution.label,
+    points: -contribution.points
+  }));
+};
+
+// A team's breakdown measured toward losing, for pools where the pick has to lose
+export const getLossBreakdown = (game: GamePrediction, side: 'away' | 'home'): MetricContribution[] => {
+  return getSideBreakdown(game, side).map(contribution => ({ ...contribution, points: -contribution.points }));
+};
+
+const formatPoints = (points: number) => `${Math.abs(points).toFixed(1)} pts`;
+
+// Largest drivers first, e.g. "Team Strength adds 6.2 pts", or "Team Strength raises the loss chance 6.2 pts"
+// for a loss breakdown
+export const describeContributions = (contributions: MetricContribution[], limit = MAX_REASONS, toLose = false) => {
+  return contributions
+    .filter(contribution => Math.abs(contribution.points) >= MIN_REASON_POINTS)
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points))
+    .slice(0, limit)
+    .map(contribution => toLose
+      ? `${contribution.label} ${contribution.points > 0 ? 'raises' : 'lowers'} the loss chance ${formatPoints(contribution.points)}`
+      : `${contribution.label} ${contribution.points > 0 ? 'adds' : 'costs'} ${formatPoints(contribution.points)}`);
+};
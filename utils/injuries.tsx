@@ -0,0 +1,193 @@
+import { GamePrediction, InjuryReport, InjuryStatus, PlayerInjury } from '../constants/mockData';
+import { projectId } from './supabase/info';
+import { resolveTeam } from './scheduleIngestion';
+
+// Injury report format: a JSON array of players, or an object with a "players" array and an optional
+// "week" that must match the week being imported:
+//
+//   { "week": 1, "players": [
+//     { "team": "KC", "player": "Patrick Mahomes", "position": "QB", "status": "Questionable", "injury": "Ankle" }
+//   ] }
+//
+// Teams may be abbreviations or full names. Status is Out, Doubtful or Questionable; injury is optional.
+
+const INJURIES_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/injuries`;
+
+// Points off a fully healthy 100 when a player at the position misses the game
+const POSITION_WEIGHTS: Record<string, number> = {
+  QB: 35,
+  OT: 8,
+  EDGE: 8,
+  WR: 7,
+  CB: 7,
+  DT: 5,
+  TE: 5,
+  RB: 5,
+  LB: 5,
+  S: 5,
+  IOL: 4,
+  K: 2,
+  P: 1,
+  LS: 1
+};
+
+// Report abbreviations folded into the groups above
+const POSITION_ALIASES: Record<string, string> = {
+  T: 'OT',
+  LT: 'OT',
+  RT: 'OT',
+  G: 'IOL',
+  OG: 'IOL',
+  LG: 'IOL',
+  RG: 'IOL',
+  C: 'IOL',
+  OL: 'IOL',
+  DE: 'EDGE',
+  OLB: 'EDGE',
+  NT: 'DT',
+  DL: 'DT',
+  ILB: 'LB',
+  MLB: 'LB',
+  FS: 'S',
+  SS: 'S',
+  DB: 'CB',
+  FB: 'RB',
+  HB: 'RB'
+};
+
+// Fringe or unknown positions still cost something
+const DEFAULT_POSITION_WEIGHT = 2;
+
+// Chance a listed player sits out
+const MISS_PROBABILITY: Record<InjuryStatus, number> = {
+  Out: 1,
+  Doubtful: 0.75,
+  Questionable: 0.25
+};
+
+const KEY_ABSENCE_LIMIT = 5;
+// Expected points lost before an absence is worth calling out
+const KEY_ABSENCE_IMPACT = 2;
+
+const INJURY_STATUSES = Object.keys(MISS_PROBABILITY) as InjuryStatus[];
+
+export const getPositionWeight = (position: string) => {
+  const upper = position.toUpperCase();
+  return POSITION_WEIGHTS[POSITION_ALIASES[upper] ?? upper] ?? DEFAULT_POSITION_WEIGHT;
+};
+
+// Expected points of team health lost to one player
+export const getPlayerImpact = (player: PlayerInjury) => {
+  return getPositionWeight(player.position) * MISS_PROBABILITY[player.status];
+};
+
+// 100 is a fully healthy roster, matching the injuries metric where higher favors the team
+export const getInjuryImpactScore = (players: PlayerInjury[]) => {
+  const lost = players.reduce((sum, player) => sum + getPlayerImpact(player), 0);
+  return Math.max(0, Math.round(100 - lost));
+};
+
+export const getKeyAbsences = (players: PlayerInjury[]) => {
+  return players
+    .filter(player => getPlayerImpact(player) >= KEY_ABSENCE_IMPACT)
+    .sort((a, b) => getPlayerImpact(b) - getPlayerImpact(a))
+    .slice(0, KEY_ABSENCE_LIMIT);
+};
+
+const parseStatus = (value: unknown) => {
+  const lower = String(value ?? '').trim().toLowerCase();
+  return INJURY_STATUSES.find(status => status.toLowerCase() === lower) ?? null;
+};
+
+export const parseInjuryReport = (
+  text: string,
+  year: number,
+  seasonType: number,
+  week: number,
+  source: string
+): InjuryReport => {
+  const parsed = JSON.parse(text);
+  const rows = Array.isArray(parsed) ? parsed : parsed?.players;
+  if (!Array.isArray(rows)) {
+    throw new Error('Injury report must be an array of players or { "players": [...] }');
+  }
+  if (!Array.isArray(parsed) && parsed.week !== undefined && parsed.week !== week) {
+    throw new Error(`Injury report is for Week ${parsed.week}, not Week ${week}`);
+  }
+
+  const players = rows.map((raw: any, index: number): PlayerInjury => {
+    const team = resolveTeam(String(raw?.team ?? '').trim());
+    const player = String(raw?.player ?? '').trim();
+    const position = String(raw?.position ?? '').trim().toUpperCase();
+    const status = parseStatus(raw?.status);
+    if (!team || !player || !position || !status) {
+      throw new Error(`Invalid injury row ${index + 1}: ${JSON.stringify(raw)}`);
+    }
+
+    const injury = typeof raw.injury === 'string' && raw.injury.trim() ? raw.injury.trim() : undefined;
+    return { team, player, position, status, ...(injury ? { injury } : {}) };
+  });
+
+  return { year, seasonType, week, players, source, updatedAt: new Date().toISOString() };
+};
+
+// Once a week has a report every team is scored from it, so unlisted teams count as fully healthy
+export const withInjuryReport = (games: GamePrediction[], report: InjuryReport | null) => {
+  if (!report) return games;
+
+  return games.map(game => {
+    const away = report.players.filter(player => player.team === game.awayTeam.abbreviation);
+    const home = report.players.filter(player => player.team === game.homeTeam.abbreviation);
+    const awayScore = getInjuryImpactScore(away);
+    const homeScore = getInjuryImpactScore(home);
+
+    return {
+      ...game,
+      keyAbsences: { away: getKeyAbsences(away), home: getKeyAbsences(home) },
+      metrics: {
+        ...game.metrics,
+        injuries: Math.round((awayScore + homeScore) / 2),
+        awayTeam: { ...game.metrics.awayTeam, injuries: awayScore },
+        homeTeam: { ...game.metrics.homeTeam, injuries: homeScore }
+      }
+    };
+  });
+};
+
+export const loadInjuryReport = async (
+  supabase: any,
+  year: number,
+  seasonType: number,
+  week: number
+): Promise<InjuryReport | null> => {
+  try {
+    const response = await fetch(`${INJURIES_URL}?year=${year}&seasonType=${seasonType}&week=${week}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    console.error('Error loading injury report:', error);
+  }
+  return null;
+};
+
+// Replaces the user's own report for the week; other users keep seeing the shared report
+export const saveInjuryReport = async (supabase: any, report: InjuryReport) => {
+  const response = await fetch(INJURIES_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify(report)
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to save injury report');
+  }
+};
@@ -0,0 +1,238 @@
+import { GameOdds, GamePrediction } from '../constants/mockData';
+import { projectId } from './supabase/info';
+import { HOME_FIELD_ADVANTAGE, PROBABILITY_SCALE } from './predictionEngine';
+import { resolveTeam } from './scheduleIngestion';
+import { normalCdf, SPREAD_STDEV } from './spreads';
+
+// Odds feed format. Either a JSON array of lines (or { "games": [...] }):
+//
+//   [{ "week": 1, "awayTeam": "BAL", "homeTeam": "KC", "awayMoneyline": 130, "homeMoneyline": -150,
+//      "spread": -3, "total": 46.5 }]
+//
+// or a CSV file with a header row naming the same columns in any order:
+//
+//   week,awayTeam,homeTeam,awayMoneyline,homeMoneyline,spread,total
+//   1,BAL,KC,130,-150,-3,46.5
+//
+// Teams may be abbreviations or full names. Moneylines are American odds. The spread is the home team's
+// line, negative when home is favored. Week is optional and, when present, rows for other weeks are
+// skipped. Each line needs both moneylines or a spread; total is optional.
+
+const ODDS_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/odds`;
+
+// Points of home win probability the model may differ from the market before a game is flagged
+export const DEFAULT_MARKET_DISAGREEMENT = 10;
+
+export interface OddsLine {
+  week: number | null;
+  awayTeam: string;
+  homeTeam: string;
+  awayMoneyline: number | null;
+  homeMoneyline: number | null;
+  spread: number | null;
+  total: number | null;
+}
+
+const ODDS_COLUMNS = ['week', 'awayTeam', 'homeTeam', 'awayMoneyline', 'homeMoneyline', 'spread', 'total'];
+
+// Implied probability of an American moneyline, vig included
+export const moneylineToProbability = (moneyline: number) => {
+  return moneyline < 0 ? -moneyline / (-moneyline + 100) : 100 / (moneyline + 100);
+};
+
+export const spreadToHomeProbability = (spread: number) => {
+  return normalCdf(-spread / SPREAD_STDEV);
+};
+
+// Both sides' implied probabilities add up to more than 1 by the bookmaker's margin; scaling them back
+// to 1 removes it. Without moneylines the spread stands in.
+export const getHomeMarketProbability = (line: Pick<OddsLine, 'awayMoneyline' | 'homeMoneyline' | 'spread'>) => {
+  if (line.awayMoneyline !== null && line.homeMoneyline !== null) {
+    const away = moneylineToProbability(line.awayMoneyline);
+    const home = moneylineToProbability(line.homeMoneyline);
+    return home / (away + home);
+  }
+  if (line.spread !== null) return spreadToHomeProbability(line.spread);
+  return null;
+};
+
+const parseNumber = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/^\+/, ''));
+  return isNaN(number) ? NaN : number;
+};
+
+const isMoneyline = (value: number | null) => value === null || Math.abs(value) >= 100;
+
+const toOddsLine = (raw: Record<string, unknown>, row: number): OddsLine => {
+  const awayTeam = resolveTeam(String(raw.awayTeam ?? '').trim());
+  const homeTeam = resolveTeam(String(raw.homeTeam ?? '').trim());
+  const [week, awayMoneyline, homeMoneyline, spread, total] =
+    ['week', 'awayMoneyline', 'homeMoneyline', 'spread', 'total'].map(column => parseNumber(raw[column]));
+  const numbers = [week, awayMoneyline, homeMoneyline, spread, total];
+
+  if (!awayTeam || !homeTeam || numbers.some(value => Number.isNaN(value)) ||
+      !isMoneyline(awayMoneyline) || !isMoneyline(homeMoneyline)) {
+    throw new Error(`Invalid odds row ${row}: ${JSON.stringify(raw)}`);
+  }
+
+  const line = { week, awayTeam, homeTeam, awayMoneyline, homeMoneyline, spread, total };
+  if (getHomeMarketProbability(line) === null) {
+    throw new Error(`Odds row ${row} needs both moneylines or a spread`);
+  }
+  return line;
+};
+
+const parseOddsCsv = (text: string) => {
+  const [header, ...rows] = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const columns = (header ?? '').split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+  if (!columns.includes('awayTeam') || !columns.includes('homeTeam')) {
+    throw new Error(`Odds CSV needs a header row with ${ODDS_COLUMNS.join(', ')}`);
+  }
+
+  return rows.map((line, index) => {
+    const cells = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    return toOddsLine(Object.fromEntries(columns.map((column, i) => [column, cells[i]])), index + 2);
+  });
+};
+
+const parseOddsJson = (text: string) => {
+  const parsed = JSON.parse(text);
+  const rows = Array.isArray(parsed) ? parsed : parsed?.games;
+  if (!Array.isArray(rows)) {
+    throw new Error('Odds JSON must be an array of lines or { "games": [...] }');
+  }
+  return rows.map((raw, index) => toOddsLine(raw ?? {}, index + 1));
+};
+
+export const parseOddsFeed = (text: string): OddsLine[] => {
+  const lines = /^\s*[[{]/.test(text) ? parseOddsJson(text) : parseOddsCsv(text);
+  if (lines.length === 0) {
+    throw new Error('Odds file has no lines');
+  }
+  return lines;
+};
+
+// Attaches each line to this week's game between the same two teams; lines that match no game are returned
+export const matchOddsToGames = (lines: OddsLine[], games: GamePrediction[], week: number, source: string) => {
+  const odds: Record<string, GameOdds> = {};
+  const unmatched: OddsLine[] = [];
+  const updatedAt = new Date().toISOString();
+
+  for (const line of lines) {
+    if (line.week !== null && line.week !== week) continue;
+
+    const game = games.find(g =>
+      g.awayTeam.abbreviation === line.awayTeam && g.homeTeam.abbreviation === line.homeTeam
+    );
+    if (!game) {
+      unmatched.push(line);
+      continue;
+    }
+
+    odds[game.id] = {
+      awayMoneyline: line.awayMoneyline,
+      homeMoneyline: line.homeMoneyline,
+      spread: line.spread,
+      total: line.total,
+      homeMarketProbability: getHomeMarketProbability(line)!,
+      source,
+      updatedAt
+    };
+  }
+
+  return { odds, unmatched };
+};
+
+// Market probability on the 0-100 overall scale, split around 50 so that weighting it alone
+// reproduces the market's win probability once home field is applied
+const getMarketMetrics = (homeProbability: number) => {
+  const p = Math.min(0.999, Math.max(0.001, homeProbability));
+  const gap = PROBABILITY_SCALE * Math.log(p / (1 - p)) - HOME_FIELD_ADVANTAGE;
+  const clamp = (value: number) => Math.min(100, Math.max(0, value));
+  return { away: clamp(50 - gap / 2), home: clamp(50 + gap / 2) };
+};
+
+export const withMarketOdds = (games: GamePrediction[], odds: Record<string, GameOdds>) => {
+  return games.map(game => {
+    const gameOdds = odds[game.id];
+    if (!gameOdds) return game;
+
+    const market = getMarketMetrics(gameOdds.homeMarketProbability);
+    return {
+      ...game,
+      odds: gameOdds,
+      metrics: {
+        ...game.metrics,
+        awayTeam: { ...game.metrics.awayTeam, market: market.away },
+        homeTeam: { ...game.metrics.homeTeam, market: market.home }
+      }
+    };
+  });
+};
+
+// Market win probability (0-100) for display, matching the rounding of the model's probabilities
+export const getMarketProbabilities = (game: GamePrediction) => {
+  if (!game.odds) return null;
+  const home = Math.round(game.odds.homeMarketProbability * 100);
+  return { away: 100 - home, home };
+};
+
+// Model minus market home win probability, in points
+export const getMarketDisagreement = (game: GamePrediction) => {
+  if (!game.odds) return null;
+  return game.predictions.homeWinProbability - game.odds.homeMarketProbability * 100;
+};
+
+export const isMarketDisagreement = (game: GamePrediction, threshold = DEFAULT_MARKET_DISAGREEMENT) => {
+  const disagreement = getMarketDisagreement(game);
+  return disagreement !== null && Math.abs(disagreement) > threshold;
+};
+
+// The shared feed with the user's own imports on top; feedOnly skips the imports, as ATS lines do
+export const loadWeekOdds = async (
+  supabase: any,
+  year: number,
+  seasonType: number,
+  week: number,
+  feedOnly = false
+): Promise<Record<string, GameOdds>> => {
+  try {
+    const feedQuery = feedOnly ? '&feed=1' : '';
+    const response = await fetch(`${ODDS_URL}?year=${year}&seasonType=${seasonType}&week=${week}${feedQuery}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+
+    if (response.ok) {
+      const stored = await response.json();
+      if (stored?.odds) return stored.odds;
+    }
+  } catch (error) {
+    console.error('Error loading odds:', error);
+  }
+  return {};
+};
+
+// Merges the lines into the user's own odds for the week; other users keep seeing the shared feed
+export const saveWeekOdds = async (
+  supabase: any,
+  year: number,
+  seasonType: number,
+  week: number,
+  odds: Record<string, GameOdds>
+) => {
+  const response = await fetch(ODDS_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify({ year, seasonType, week, odds })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to save odds');
+  }
+};
@@ -0,0 +1,46 @@
+import { GamePrediction } from '../constants/mockData';
+
+const TIMEZONE_OFFSETS: Record<string, number> = {
+  EST: -5, EDT: -4,
+  CST: -6, CDT: -5,
+  MST: -7, MDT: -6,
+  PST: -8, PDT: -7
+};
+
+// Mirrors the server's lock check: ISO kickoff first, then gameDate plus a "4:30 PM EST" style gameTime
+export const getKickoffTime = (game: Pick<GamePrediction, 'gameDate' | 'gameTime' | 'kickoff'>): Date | null => {
+  if (game.kickoff) {
+    const kickoff = new Date(game.kickoff);
+    return isNaN(kickoff.getTime()) ? null : kickoff;
+  }
+
+  const match = /^(\d{1,2}):(\d{2})\s*(AM|PM)\s*([A-Z]{3})?$/i.exec(game.gameTime.trim());
+  const [year, month, day] = game.gameDate.split('-').map(Number);
+  if (!match || !year || !month || !day) return null;
+
+  let hours = Number(match[1]) % 12;
+  if (match[3].toUpperCase() === 'PM') hours += 12;
+  const offset = TIMEZONE_OFFSETS[(match[4] ?? 'EST').toUpperCase()] ?? -5;
+
+  return new Date(Date.UTC(year, month - 1, day, hours - offset, Number(match[2])));
+};
+
+export const isLocked = (kickoff: string | Date | null | undefined, now: Date) => {
+  if (!kickoff) return false;
+  return new Date(kickoff).getTime() <= now.getTime();
+};
+
+export const formatCountdown = (kickoff: string | Date | null | undefined, now: Date) => {
+  if (!kickoff) return 'Kickoff TBD';
+
+  const remaining = new Date(kickoff).getTime() - now.getTime();
+  if (remaining <= 0) return 'Locked';
+
+  const minutes = Math.floor(remaining / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+
+  if (days > 0) return `Locks in ${days}d ${hours}h`;
+  if (hours > 0) return `Locks in ${hours}h ${minutes % 60}m`;
+  return `Locks in ${minutes}m`;
+};
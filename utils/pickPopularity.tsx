@@ -0,0 +1,60 @@
+import { PickPopularity } from '../constants/mockData';
+import { resolveTeam } from './scheduleIngestion';
+import { SurvivorOption, SurvivorWeek } from './survivorOptimizer';
+
+// Keeps the multiple finite when popularity says nobody else survives
+const MIN_FIELD_SURVIVAL = 0.01;
+
+// Accepts "team,percentage" rows (abbreviation or full name; 35, 35% or 0.35) with an optional header row
+export const parsePopularityCsv = (text: string, week: number): PickPopularity => {
+  const raw: Record<string, number> = {};
+  const rows = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+  rows.forEach((line, index) => {
+    const [teamValue, shareValue] = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const share = parseFloat(shareValue?.replace('%', '') ?? '');
+    if (index === 0 && isNaN(share)) return;
+
+    const team = resolveTeam(teamValue ?? '');
+    if (!team || isNaN(share) || share < 0) {
+      throw new Error(`Invalid popularity row ${index + 1}: ${line}`);
+    }
+    raw[team] = (raw[team] ?? 0) + share;
+  });
+
+  const total = Object.values(raw).reduce((sum, share) => sum + share, 0);
+  if (total === 0) {
+    throw new Error('Popularity file has no picks');
+  }
+
+  // Percentages and fractions both normalize to shares that sum to 1
+  const shares = Object.fromEntries(Object.entries(raw).map(([team, share]) => [team, share / total]));
+  return { week, totalEntries: null, shares, source: 'import' };
+};
+
+// Fraction of the field expected to survive when this option wins: its own pickers plus
+// everyone on other games that also win. Pickers of the opponent are certainly out.
+export const getFieldSurvival = (option: SurvivorOption, week: SurvivorWeek, popularity: PickPopularity) => {
+  return week.options.reduce((sum, other) => {
+    const share = popularity.shares[other.team] ?? 0;
+    if (other.team === option.team) return sum + share;
+    if (other.gameId === option.gameId) return sum;
+    return sum + share * other.winProbability;
+  }, 0);
+};
+
+// Expected pot equity from this pick relative to an average entry's current share (1.0 = break even).
+// Surviving with a contrarian team means splitting the pot with fewer entries.
+export const getExpectedValue = (option: SurvivorOption, week: SurvivorWeek, popularity: PickPopularity) => {
+  const fieldSurvival = getFieldSurvival(option, week, popularity);
+  const entries = popularity.totalEntries;
+  const survivorsShare = entries && entries > 1
+    ? (1 + (entries - 1) * fieldSurvival) / entries
+    : fieldSurvival;
+
+  return option.winProbability / Math.max(survivorsShare, MIN_FIELD_SURVIVAL);
+};
+
+export const hasPopularity = (popularity: PickPopularity | null | undefined): popularity is PickPopularity => {
+  return !!popularity && Object.keys(popularity.shares).length > 0;
+};
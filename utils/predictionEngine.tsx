@@ -0,0 +1,170 @@
+import { defaultMetrics, GamePrediction, MetricContribution, TeamMetrics } from '../constants/mockData';
+import { getHomeCoverProbability, getOverProbability, getProjectedMargin, getProjectedTotal } from './spreads';
+
+export type MetricWeights = Record<string, number>;
+
+type TeamMetricKey = Exclude<keyof TeamMetrics, 'overall'>;
+
+// Maps each MetricWeight id to the team metric it scores
+export const METRIC_INPUTS: Record<string, TeamMetricKey> = {
+  team_strength: 'teamStrength',
+  offensive_power: 'offensivePower',
+  defensive_power: 'defensivePower',
+  injury_impact: 'injuries',
+  weather_conditions: 'weather',
+  schedule_strength: 'schedule',
+  market_probability: 'market'
+};
+
+// Home field is worth roughly 2 points on the 0-100 overall scale
+export const HOME_FIELD_ADVANTAGE = 2;
+
+// Overall-score gap that moves the win probability by one logit
+export const PROBABILITY_SCALE = 15;
+
+// Favorite's edge over 50% (in percentage points) needed for each confidence tier
+export interface ConfidenceThresholds {
+  high: number;
+  medium: number;
+}
+
+// Used until enough history exists to calibrate the tiers
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = { high: 12, medium: 5 };
+
+export const getDefaultWeights = (): MetricWeights => {
+  return defaultMetrics.reduce((acc, metric) => {
+    acc[metric.id] = metric.defaultWeight;
+    return acc;
+  }, {} as MetricWeights);
+};
+
+// Unrounded weighted overall; evaluation and fitting need it to move smoothly with the weights.
+// Metrics a game has no value for (market probability without odds) drop out of the weighting.
+export const calculateWeightedOverall = (metrics: TeamMetrics, weights: MetricWeights) => {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  Object.entries(METRIC_INPUTS).forEach(([metricId, key]) => {
+    const value = metrics[key];
+    if (value === undefined) return;
+    const weight = weights[metricId] ?? 0;
+    weightedSum += weight * value;
+    totalWeight += weight;
+  });
+
+  return totalWeight > 0 ? weightedSum / totalWeight : 50;
+};
+
+export const calculateOverall = (metrics: TeamMetrics, weights: MetricWeights) => {
+  return Math.round(calculateWeightedOverall(metrics, weights));
+};
+
+export const getConfidenceTier = (
+  winProbability: number,
+  thresholds: ConfidenceThresholds = DEFAULT_CONFIDENCE_THRESHOLDS
+): 'high' | 'medium' | 'low' => {
+  const edge = Math.abs(winProbability - 50);
+  if (edge >= thresholds.high) return 'high';
+  if (edge >= thresholds.medium) return 'medium';
+  return 'low';
+};
+
+export const calculateWinProbability = (awayOverall: number, homeOverall: number) => {
+  const diff = awayOverall - homeOverall - HOME_FIELD_ADVANTAGE;
+  return 1 / (1 + Math.exp(-diff / PROBABILITY_SCALE));
+};
+
+// Home team's win probability (0-1) before the rounding applied for display
+export const getHomeWinProbability = (game: GamePrediction, weights: MetricWeights) => {
+  const awayOverall = calculateWeightedOverall(game.metrics.awayTeam, weights);
+  const homeOverall = calculateWeightedOverall(game.metrics.homeTeam, weights);
+  return 1 - calculateWinProbability(awayOverall, homeOverall);
+};
+
+// Each input's share of the home win probability's distance from 50%. Inputs are weighed by their
+// pull on the logit, so the contributions add up (to rounding) to the displayed probability minus 50.
+export const getContributions = (
+  game: GamePrediction,
+  weights: MetricWeights,
+  homeWinProbability: number
+): MetricContribution[] => {
+  const totalWeight = (metrics: TeamMetrics) => Object.entries(METRIC_INPUTS)
+    .reduce((sum, [metricId, key]) => sum + (metrics[key] === undefined ? 0 : weights[metricId] ?? 0), 0);
+  const awayTotal = totalWeight(game.metrics.awayTeam);
+  const homeTotal = totalWeight(game.metrics.homeTeam);
+
+  const terms = [
+    { id: 'home_field', label: 'Home Field', logit: HOME_FIELD_ADVANTAGE / PROBABILITY_SCALE },
+    ...defaultMetrics
+      .filter(metric => METRIC_INPUTS[metric.id])
+      .map(metric => {
+        const key = METRIC_INPUTS[metric.id];
+        const weight = weights[metric.id] ?? 0;
+        const home = game.metrics.homeTeam[key];
+        const away = game.metrics.awayTeam[key];
+        const homeShare = home === undefined || homeTotal === 0 ? 0 : weight * home / homeTotal;
+        const awayShare = away === undefined || awayTotal === 0 ? 0 : weight * away / awayTotal;
+        return { id: metric.id, label: metric.name, logit: (homeShare - awayShare) / PROBABILITY_SCALE };
+      })
+  ];
+
+  const totalLogit = terms.reduce((sum, term) => sum + term.logit, 0);
+  const shift = homeWinProbability - 50;
+  return terms.map(({ id, label, logit }) => ({
+    id,
+    label,
+    points: totalLogit === 0 ? 0 : Math.round(shift * logit / totalLogit * 10) / 10
+  }));
+};
+
+export const predictGame = (
+  game: GamePrediction,
+  weights: MetricWeights,
+  thresholds: ConfidenceThresholds = DEFAULT_CONFIDENCE_THRESHOLDS
+): GamePrediction => {
+  // Probabilities come from the unrounded overalls, the same ones evaluation uses; overalls round only for display
+  const homeProbability = getHomeWinProbability(game, weights);
+  const awayOverall = calculateOverall(game.metrics.awayTeam, weights);
+  const homeOverall = calculateOverall(game.metrics.homeTeam, weights);
+
+  const awayWinProbability = Math.round((1 - homeProbability) * 100);
+  const homeWinProbability = 100 - awayWinProbability;
+  const favorite = Math.max(awayWinProbability, homeWinProbability);
+
+  const projectedMargin = getProjectedMargin(homeProbability);
+  const projectedTotal = getProjectedTotal(game);
+  const spread = game.odds?.spread ?? null;
+  const total = game.odds?.total ?? null;
+
+  return {
+    ...game,
+    predictions: {
+      awayWinProbability,
+      homeWinProbability,
+      confidence: getConfidenceTier(favorite, thresholds),
+      recommendation: favorite - 50 < 2
+        ? 'none'
+        : awayWinProbability > homeWinProbability ? 'away' : 'home',
+      breakdown: getContributions(game, weights, homeWinProbability),
+      projectedMargin,
+      projectedTotal,
+      ...(spread !== null ? { homeCoverProbability: Math.round(getHomeCoverProbability(projectedMargin, spread) * 100) } : {}),
+      ...(total !== null ? { overProbability: Math.round(getOverProbability(projectedTotal, total) * 100) } : {})
+    },
+    metrics: {
+      ...game.metrics,
+      overall: Math.round((awayOverall + homeOverall) / 2),
+      awayTeam: { ...game.metrics.awayTeam, overall: awayOverall },
+      homeTeam: { ...game.metrics.homeTeam, overall: homeOverall }
+    }
+  };
+};
+
+export const predictGames = (
+  games: GamePrediction[],
+  weights?: MetricWeights | null,
+  thresholds?: ConfidenceThresholds
+) => {
+  const activeWeights = weights ?? getDefaultWeights();
+  return games.map(game => predictGame(game, activeWeights, thresholds));
+};
@@ -0,0 +1,96 @@
+import { GamePrediction } from '../constants/mockData';
+import { historicalResults } from '../constants/historicalResults';
+import { getScoreboardFixture } from '../constants/scoreboardFixtures';
+import { getTeam } from '../constants/teams';
+import { projectId } from './supabase/info';
+import { applyEloTeamStrength, replayResults } from './eloRatings';
+import { WeekSchedule } from './scheduleIngestion';
+
+const SCHEDULE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/schedule`;
+
+const getAccessToken = (supabase: any) => {
+  return supabase.auth.getSession().then((s: any) => s.data.session?.access_token);
+};
+
+// Team strength for a week comes from the Elo ratings entering that week
+export const withTeamRatings = (games: GamePrediction[], year: number, seasonType: number, week: number) => {
+  const ratings = replayResults(historicalResults, { year, seasonType, week });
+  return applyEloTeamStrength(games, ratings);
+};
+
+// The server stores teams by abbreviation; logos are the app's own
+const withTeamLogos = (games: GamePrediction[]) => games.map(game => ({
+  ...game,
+  awayTeam: { ...game.awayTeam, logo: getTeam(game.awayTeam.abbreviation)?.logo ?? game.awayTeam.logo },
+  homeTeam: { ...game.homeTeam, logo: getTeam(game.homeTeam.abbreviation)?.logo ?? game.homeTeam.logo }
+}));
+
+export const loadWeekSchedule = async (
+  supabase: any,
+  year: number,
+  seasonType: number,
+  week: number
+): Promise<GamePrediction[]> => {
+  try {
+    const response = await fetch(`${SCHEDULE_URL}?year=${year}&seasonType=${seasonType}&week=${week}`, {
+      headers: {
+        'Authorization': `Bearer ${await getAccessToken(supabase)}`
+      }
+    });
+
+    if (response.ok) {
+      const stored = await response.json();
+      if (stored?.games) return withTeamLogos(stored.games);
+    }
+  } catch (error) {
+    console.error('Error loading schedule:', error);
+  }
+
+  // Fixtures fill in for display only when the server can't reach the scoreboard
+  return getScoreboardFixture(year, seasonType, week)?.games ?? [];
+};
+
+export const loadSeasonSchedule = async (
+  supabase: any,
+  year: number,
+  seasonType: number,
+  weeks: number[]
+): Promise<WeekSchedule[]> => {
+  let stored: WeekSchedule[] = [];
+  try {
+    // The server ingests any requested week it hasn't stored yet
+    const response = await fetch(`${SCHEDULE_URL}/season?year=${year}&seasonType=${seasonType}&weeks=${weeks.join(',')}`, {
+      headers: {
+        'Authorization': `Bearer ${await getAccessToken(supabase)}`
+      }
+    });
+
+    if (response.ok) {
+      stored = await response.json();
+    }
+  } catch (error) {
+    console.error('Error loading season schedule:', error);
+  }
+
+  const schedules: WeekSchedule[] = [];
+  for (const week of weeks) {
+    const storedWeek = stored.find(s => s.week === week);
+    if (storedWeek) {
+      schedules.push({ ...storedWeek, games: withTeamLogos(storedWeek.games) });
+      continue;
+    }
+
+    const fixture = getScoreboardFixture(year, seasonType, week);
+    if (fixture) {
+      schedules.push({ ...fixture, displayOnly: true });
+    }
+  }
+
+  return schedules;
+};
+
+// Picks are checked against the server's stored schedule, so a week without one can't take picks yet
+export const isScheduleAvailable = (schedules: WeekSchedule[], week: number) => {
+  const schedule = schedules.find(s => s.week === week);
+  return !!schedule && !schedule.displayOnly;
+};
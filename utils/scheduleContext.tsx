@@ -0,0 +1,159 @@
+import { GamePrediction, TeamScheduleContext } from '../constants/mockData';
+import { getGameStadium, getHomeStadium, Stadium } from '../constants/stadiums';
+import { getKickoffTime } from './pickLocks';
+import { WeekSchedule } from './scheduleIngestion';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EARTH_RADIUS_MILES = 3959;
+
+// A normal week is seven days between games; Thursday after Sunday is four
+const BYE_REST_DAYS = 13;
+const SHORT_WEEK_REST_DAYS = 5;
+
+// Adjustments are points on the 0-100 schedule metric, where 50 is a normal week at home
+const BYE_BONUS = 10;
+const SHORT_WEEK_PENALTY = 8;
+const EXTRA_REST_BONUS = 1; // per day beyond seven, short of a bye
+const TRAVEL_PENALTY = 3; // per 1,000 miles
+const EASTWARD_PENALTY = 3; // per hour; body clocks adjust worse heading east
+const WESTWARD_PENALTY = 2;
+const INTERNATIONAL_PENALTY = 5;
+
+// Earlier weeks needed to find every team's previous game, including one coming off a bye
+export const getContextWeeks = (week: number) => {
+  return [week - 2, week - 1].filter(w => w >= 1);
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+const getDistanceMiles = (from: Stadium, to: Stadium) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+};
+
+// Hours from UTC in a time zone on a given date, so daylight saving differences come out right
+const getUtcOffset = (timeZone: string, date: Date) => {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortOffset' })
+    .formatToParts(date)
+    .find(part => part.type === 'timeZoneName')?.value ?? 'GMT';
+  const match = /GMT([+-]\d+)(?::(\d+))?/.exec(name);
+  if (!match) return 0;
+  const hours = Number(match[1]);
+  return hours + Math.sign(hours) * Number(match[2] ?? 0) / 60;
+};
+
+const getTeamContext = (
+  team: string,
+  kickoff: Date | null,
+  previousKickoff: Date | null,
+  venue: Stadium | undefined
+): TeamScheduleContext => {
+  const restDays = kickoff && previousKickoff
+    ? Math.round((kickoff.getTime() - previousKickoff.getTime()) / DAY_MS)
+    : null;
+  const home = getHomeStadium(team);
+  const date = kickoff ?? new Date();
+
+  return {
+    restDays,
+    offBye: restDays !== null && restDays >= BYE_REST_DAYS,
+    shortWeek: restDays !== null && restDays <= SHORT_WEEK_REST_DAYS,
+    travelMiles: home && venue ? Math.round(getDistanceMiles(home, venue)) : 0,
+    timeZoneShift: home && venue ? getUtcOffset(venue.timeZone, date) - getUtcOffset(home.timeZone, date) : 0
+  };
+};
+
+export const getScheduleScore = (context: TeamScheduleContext, international: boolean) => {
+  let score = 50;
+  if (context.offBye) {
+    score += BYE_BONUS;
+  } else if (context.shortWeek) {
+    score -= SHORT_WEEK_PENALTY;
+  } else if (context.restDays !== null && context.restDays > 7) {
+    score += (context.restDays - 7) * EXTRA_REST_BONUS;
+  }
+
+  score -= context.travelMiles / 1000 * TRAVEL_PENALTY;
+  score -= context.timeZoneShift > 0
+    ? context.timeZoneShift * EASTWARD_PENALTY
+    : -context.timeZoneShift * WESTWARD_PENALTY;
+  if (international) score -= INTERNATIONAL_PENALTY;
+
+  return Math.round(Math.min(100, Math.max(0, score)));
+};
+
+// Adds rest and travel context to every game, looking back through all the weeks passed in for each
+// team's previous game. Weeks are returned in the order given.
+export const withScheduleContext = (schedules: WeekSchedule[]): WeekSchedule[] => {
+  const kickoffs = schedules
+    .flatMap(schedule => schedule.games)
+    .map(game => ({ game, kickoff: getKickoffTime(game) }))
+    .filter((entry): entry is { game: GamePrediction; kickoff: Date } => entry.kickoff !== null);
+
+  const getPreviousKickoff = (team: string, kickoff: Date | null) => {
+    if (!kickoff) return null;
+    return kickoffs
+      .filter(({ game, kickoff: other }) =>
+        other < kickoff && (game.awayTeam.abbreviation === team || game.homeTeam.abbreviation === team)
+      )
+      .reduce<Date | null>((latest, { kickoff: other }) => !latest || other > latest ? other : latest, null);
+  };
+
+  return schedules.map(schedule => ({
+    ...schedule,
+    games: schedule.games.map(game => {
+      const kickoff = getKickoffTime(game);
+      const venue = getGameStadium(game);
+      const international = !!venue && venue.country !== 'USA';
+      const away = getTeamContext(game.awayTeam.abbreviation, kickoff, getPreviousKickoff(game.awayTeam.abbreviation, kickoff), venue);
+      const home = getTeamContext(game.homeTeam.abbreviation, kickoff, getPreviousKickoff(game.homeTeam.abbreviation, kickoff), venue);
+      const awayScore = getScheduleScore(away, international);
+      const homeScore = getScheduleScore(home, international);
+
+      return {
+        ...game,
+        scheduleContext: { away, home, international },
+        metrics: {
+          ...game.metrics,
+          schedule: Math.round((awayScore + homeScore) / 2),
+          awayTeam: { ...game.metrics.awayTeam, schedule: awayScore },
+          homeTeam: { ...game.metrics.homeTeam, schedule: homeScore }
+        }
+      };
+    })
+  }));
+};
+
+const formatShift = (hours: number) => {
+  const zones = Math.abs(hours);
+  return `${zones} time zone${zones === 1 ? '' : 's'} ${hours > 0 ? 'east' : 'west'}`;
+};
+
+// Reasoning lines for one side of a game; only what stands out from a normal week
+export const getScheduleFactors = (
+  own: TeamScheduleContext,
+  opponent: TeamScheduleContext,
+  international: boolean,
+  venue?: string
+) => {
+  const factors: string[] = [];
+
+  if (own.offBye) factors.push('Coming off a bye');
+  if (own.shortWeek) factors.push(`Short week: ${own.restDays} days of rest`);
+  if (opponent.offBye && !own.offBye) factors.push('Opponent is coming off a bye');
+  if (opponent.shortWeek && !own.shortWeek) factors.push(`Opponent on a short week (${opponent.restDays} days of rest)`);
+
+  if (own.travelMiles >= 1000 || Math.abs(own.timeZoneShift) >= 2) {
+    factors.push(`Travels ${own.travelMiles.toLocaleString()} miles` +
+      (own.timeZoneShift !== 0 ? `, ${formatShift(own.timeZoneShift)}` : ''));
+  }
+  if (opponent.travelMiles >= 1000 && own.travelMiles < 1000) {
+    factors.push(`Opponent travels ${opponent.travelMiles.toLocaleString()} miles`);
+  }
+  if (international) factors.push(`International game${venue ? ` at ${venue}` : ''}`);
+
+  return factors;
+};
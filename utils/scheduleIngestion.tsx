@@ -0,0 +1,144 @@
+import { GamePrediction, TeamMetrics } from '../constants/mockData';
+import { getTeam, nflTeams } from '../constants/teams';
+
+export interface WeekSchedule {
+  year: number;
+  seasonType: number;
+  week: number;
+  games: GamePrediction[];
+  // A bundled fixture standing in while the server has no schedule for the week; picks can't be saved against it
+  displayOnly?: boolean;
+}
+
+// ESPN abbreviations that differ from the ones used across the app
+const TEAM_ALIASES: Record<string, string> = {
+  WSH: 'WAS',
+  JAC: 'JAX',
+  LA: 'LAR'
+};
+
+export const getScheduleKey = (year: number, seasonType: number, week: number) => {
+  return `${year}_${seasonType}_${week}`;
+};
+
+export const normalizeTeamAbbreviation = (abbreviation: string) => {
+  const upper = abbreviation.toUpperCase();
+  return TEAM_ALIASES[upper] ?? upper;
+};
+
+// Abbreviation for a team given by abbreviation (any alias) or full name, or null if it isn't an NFL team
+export const resolveTeam = (value: string) => {
+  const abbreviation = normalizeTeamAbbreviation(value);
+  const team = nflTeams.find(t => t.abbreviation === abbreviation || t.name.toLowerCase() === value.toLowerCase());
+  return team?.abbreviation ?? null;
+};
+
+// Neutral inputs until a dedicated model supplies the metric
+export const createBaselineMetrics = (): TeamMetrics => ({
+  teamStrength: 50,
+  offensivePower: 50,
+  defensivePower: 50,
+  injuries: 50,
+  weather: 50,
+  schedule: 50,
+  overall: 50
+});
+
+const formatEasternKickoff = (kickoff: Date) => {
+  const gameDate = kickoff.toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  }).formatToParts(kickoff);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    gameDate,
+    gameTime: `${part('hour')}:${part('minute')} ${part('dayPeriod')} ${part('timeZoneName')}`
+  };
+};
+
+const parseStatus = (status: any): GamePrediction['status'] => {
+  const state = status?.type?.state;
+  if (status?.type?.completed || state === 'post') return 'final';
+  if (state === 'in') return 'in_progress';
+  return 'scheduled';
+};
+
+const parseTeam = (competitor: any) => {
+  const abbreviation = normalizeTeamAbbreviation(competitor?.team?.abbreviation ?? '');
+  const team = getTeam(abbreviation);
+  return {
+    name: team?.name ?? competitor?.team?.displayName ?? abbreviation,
+    abbreviation,
+    logo: team?.logo ?? '🏈'
+  };
+};
+
+const parseEvent = (event: any): GamePrediction => {
+  const competition = event.competitions?.[0];
+  const competitors: any[] = competition?.competitors ?? [];
+  const home = competitors.find(c => c.homeAway === 'home');
+  const away = competitors.find(c => c.homeAway === 'away');
+
+  if (!competition || !home || !away) {
+    throw new Error(`Scoreboard event ${event.id} is missing its home or away competitor`);
+  }
+
+  const kickoff = new Date(competition.date ?? event.date);
+  if (isNaN(kickoff.getTime())) {
+    throw new Error(`Scoreboard event ${event.id} has an invalid date`);
+  }
+
+  const status = parseStatus(competition.status ?? event.status);
+  const hasScore = status !== 'scheduled' && home.score !== undefined && away.score !== undefined;
+
+  return {
+    id: String(event.id),
+    awayTeam: parseTeam(away),
+    homeTeam: parseTeam(home),
+    ...formatEasternKickoff(kickoff),
+    kickoff: kickoff.toISOString(),
+    venue: competition.venue?.fullName,
+    neutralSite: !!competition.neutralSite,
+    status,
+    score: hasScore ? { away: Number(away.score), home: Number(home.score) } : undefined,
+    predictions: {
+      awayWinProbability: 50,
+      homeWinProbability: 50,
+      confidence: 'low',
+      recommendation: 'none'
+    },
+    metrics: {
+      teamStrength: 50,
+      injuries: 50,
+      weather: 50,
+      schedule: 50,
+      overall: 50,
+      awayTeam: createBaselineMetrics(),
+      homeTeam: createBaselineMetrics()
+    }
+  };
+};
+
+// Parses a scoreboard payload shaped like site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard
+export const parseScoreboard = (json: any): WeekSchedule => {
+  const year = json?.season?.year;
+  const seasonType = json?.season?.type;
+  const week = json?.week?.number;
+
+  if (typeof year !== 'number' || typeof seasonType !== 'number' || typeof week !== 'number') {
+    throw new Error('Scoreboard is missing season.year, season.type or week.number');
+  }
+  if (!Array.isArray(json.events)) {
+    throw new Error('Scoreboard is missing its events array');
+  }
+
+  const games = json.events
+    .map(parseEvent)
+    .sort((a: GamePrediction, b: GamePrediction) => (a.kickoff ?? '').localeCompare(b.kickoff ?? ''));
+
+  return { year, seasonType, week, games };
+};
@@ -0,0 +1,68 @@
+import { GamePrediction } from '../constants/mockData';
+import { projectId } from './supabase/info';
+
+const SIMULATION_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/simulate-season`;
+
+export interface PredictedWeek {
+  week: number;
+  games: GamePrediction[];
+}
+
+export interface TeamProjection {
+  team: string;
+  projectedWins: number;
+  playoffOdds: number;
+  divisionOdds: number;
+}
+
+export interface WeekSurvival {
+  week: number;
+  team: string;
+  probability: number;
+}
+
+export interface SeasonSimulation {
+  iterations: number;
+  teams: TeamProjection[];
+  survival: WeekSurvival[];
+}
+
+// Only what the simulator needs; finished games carry their score so they aren't re-simulated
+const toSimulationGames = (weeks: PredictedWeek[]) => {
+  return weeks.flatMap(({ week, games }) => games.map(game => ({
+    id: game.id,
+    week,
+    awayTeam: game.awayTeam.abbreviation,
+    homeTeam: game.homeTeam.abbreviation,
+    homeWinProbability: game.predictions.homeWinProbability / 100,
+    status: game.status,
+    score: game.score
+  })));
+};
+
+export const runSeasonSimulation = async (
+  supabase: any,
+  weeks: PredictedWeek[],
+  plan: { week: number; team: string }[] = []
+): Promise<SeasonSimulation | null> => {
+  const games = toSimulationGames(weeks);
+  if (games.length === 0) return null;
+
+  try {
+    const response = await fetch(SIMULATION_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      },
+      body: JSON.stringify({ games, plan })
+    });
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    console.error('Error simulating season:', error);
+  }
+  return null;
+};
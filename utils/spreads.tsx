@@ -0,0 +1,72 @@
+import { GamePrediction } from '../constants/mockData';
+
+// NFL final margins land around the closing spread with roughly this standard deviation
+export const SPREAD_STDEV = 13.5;
+
+// Combined scores spread a little less widely around the closing total
+export const TOTAL_STDEV = 13;
+
+// Average combined score when both offenses and defenses are league average
+export const LEAGUE_AVERAGE_TOTAL = 44;
+
+// Points of total per point of offensive rating above (or defensive rating below) 50
+const TOTAL_SCALE = 0.25;
+
+// Points of total per point the weather metric sits below neutral; wind and snow keep scores down
+const WEATHER_TOTAL_SCALE = 0.3;
+
+// Abramowitz-Stegun approximation, accurate to ~1e-7
+export const normalCdf = (x: number) => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// Inverse of normalCdf by bisection; plenty fast for one game at a time
+const inverseNormalCdf = (p: number) => {
+  let low = -8;
+  let high = 8;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+// Home minus away points implied by a home win probability (0-1): the margin whose normal
+// distribution puts that much of its weight above zero
+export const getProjectedMargin = (homeWinProbability: number) => {
+  const clamped = Math.min(0.999, Math.max(0.001, homeWinProbability));
+  return roundToTenth(SPREAD_STDEV * inverseNormalCdf(clamped));
+};
+
+export const getProjectedTotal = (game: GamePrediction) => {
+  const { awayTeam, homeTeam } = game.metrics;
+  const offense = (awayTeam.offensivePower - 50) + (homeTeam.offensivePower - 50);
+  const defense = (awayTeam.defensivePower - 50) + (homeTeam.defensivePower - 50);
+  const weather = (awayTeam.weather + homeTeam.weather) / 2 - 50;
+
+  const total = LEAGUE_AVERAGE_TOTAL + (offense - defense) * TOTAL_SCALE + Math.min(0, weather) * WEATHER_TOTAL_SCALE;
+  return roundToTenth(Math.max(0, total));
+};
+
+// Chance (0-1) the home team covers a home line, negative when home is favored
+export const getHomeCoverProbability = (projectedMargin: number, spread: number) => {
+  return normalCdf((projectedMargin + spread) / SPREAD_STDEV);
+};
+
+export const getOverProbability = (projectedTotal: number, total: number) => {
+  return normalCdf((projectedTotal - total) / TOTAL_STDEV);
+};
+
+// A home line as bettors write it, e.g. "KC -3.5" for the favorite or "PK"
+export const formatSpread = (game: GamePrediction, homeSpread: number) => {
+  if (homeSpread === 0) return 'PK';
+  return homeSpread < 0
+    ? `${game.homeTeam.abbreviation} -${Math.abs(homeSpread)}`
+    : `${game.awayTeam.abbreviation} -${homeSpread}`;
+};
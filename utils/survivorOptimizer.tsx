@@ -0,0 +1,307 @@
+import { GamePrediction, MetricContribution, PickPopularity, PoolType, TeamRecommendation } from '../constants/mockData';
+import { getKickoffTime } from './pickLocks';
+import { getExpectedValue, hasPopularity } from './pickPopularity';
+import { getScheduleFactors } from './scheduleContext';
+import { describeContributions, getLossBreakdown, getSideBreakdown } from './explanations';
+import { DEFAULT_SURVIVOR_RULES, getPicksRequired, SurvivorRules } from './survivorRules';
+
+export interface SurvivorOption {
+  gameId: string;
+  team: string;
+  teamName: string;
+  opponent: string;
+  isHome: boolean;
+  // Chance the pick survives (0-1): the team winning, or losing in a loser pool
+  winProbability: number;
+  pickToLose?: boolean;
+  // The game's confidence tier; symmetric, so it applies to either side
+  confidence: TeamRecommendation['confidence'];
+  kickoff?: string;
+  // Rest and travel notes, when the game has schedule context
+  scheduleFactors?: string[];
+  // Each input's pull on winProbability, so in a loser pool it's measured toward the team losing
+  breakdown?: MetricContribution[];
+}
+
+export interface SurvivorWeek {
+  week: number;
+  options: SurvivorOption[];
+}
+
+export interface PlannedPick extends SurvivorOption {
+  week: number;
+  cumulativeSurvival: number;
+}
+
+export interface SurvivorPlan {
+  picks: PlannedPick[];
+  survivalProbability: number;
+}
+
+// Cost used for teams on bye; large enough that the solver never picks it when a real game exists
+const UNAVAILABLE_COST = 1e6;
+
+export const buildSurvivorWeek = (week: number, games: GamePrediction[], poolType: PoolType = 'survivor'): SurvivorWeek => {
+  const pickToLose = poolType === 'loser';
+  const getBreakdown = pickToLose ? getLossBreakdown : getSideBreakdown;
+  const options = games.flatMap(game => {
+    const kickoff = getKickoffTime(game)?.toISOString();
+    const confidence = game.predictions.confidence;
+    const context = game.scheduleContext;
+    return [
+      {
+        gameId: game.id,
+        team: game.awayTeam.abbreviation,
+        teamName: game.awayTeam.name,
+        opponent: `at ${game.homeTeam.name}`,
+        isHome: false,
+        winProbability: (pickToLose ? game.predictions.homeWinProbability : game.predictions.awayWinProbability) / 100,
+        pickToLose,
+        confidence,
+        kickoff,
+        scheduleFactors: context && getScheduleFactors(context.away, context.home, context.international, game.venue),
+        breakdown: getBreakdown(game, 'away')
+      },
+      {
+        gameId: game.id,
+        team: game.homeTeam.abbreviation,
+        teamName: game.homeTeam.name,
+        opponent: `vs ${game.awayTeam.name}`,
+        isHome: true,
+        winProbability: (pickToLose ? game.predictions.awayWinProbability : game.predictions.homeWinProbability) / 100,
+        pickToLose,
+        confidence,
+        kickoff,
+        scheduleFactors: context && getScheduleFactors(context.home, context.away, context.international, game.venue),
+        breakdown: getBreakdown(game, 'home')
+      }
+    ];
+  });
+
+  return { week, options };
+};
+
+// Hungarian algorithm for a rows <= cols cost matrix; returns the column assigned to each row
+const solveAssignment = (cost: number[][]): number[] => {
+  const rows = cost.length;
+  const cols = cost[0]?.length ?? 0;
+  const u = new Array(rows + 1).fill(0);
+  const v = new Array(cols + 1).fill(0);
+  const match = new Array(cols + 1).fill(0);
+  const way = new Array(cols + 1).fill(0);
+
+  for (let i = 1; i <= rows; i++) {
+    match[0] = i;
+    let j0 = 0;
+    const minv = new Array(cols + 1).fill(Infinity);
+    const used = new Array(cols + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = match[j0];
+      let delta = Infinity;
+      let j1 = 0;
+
+      for (let j = 1; j <= cols; j++) {
+        if (used[j]) continue;
+        const reduced = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (reduced < minv[j]) {
+          minv[j] = reduced;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+
+      for (let j = 0; j <= cols; j++) {
+        if (used[j]) {
+          u[match[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (match[j0] !== 0);
+
+    do {
+      const j1 = way[j0];
+      match[j0] = match[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = new Array(rows).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    if (match[j] > 0) assignment[match[j] - 1] = j - 1;
+  }
+  return assignment;
+};
+
+// Fills every pick slot in the weeks with a different unused team, maximizing the product of win probabilities
+const planWindow = (weeks: SurvivorWeek[], usedTeams: string[], slotsFor: (week: number) => number): SurvivorPlan => {
+  const slots = weeks.flatMap(week => Array.from({ length: slotsFor(week.week) }, () => week));
+  const teams = Array.from(new Set(
+    weeks.flatMap(week => week.options.map(option => option.team))
+  )).filter(team => !usedTeams.includes(team));
+
+  if (slots.length === 0 || teams.length < slots.length) {
+    return { picks: [], survivalProbability: slots.length === 0 ? 1 : 0 };
+  }
+
+  const cost = slots.map(week => teams.map(team => {
+    const option = week.options.find(o => o.team === team);
+    return option && option.winProbability > 0 ? -Math.log(option.winProbability) : UNAVAILABLE_COST;
+  }));
+
+  const assignment = solveAssignment(cost);
+  let cumulativeSurvival = 1;
+  const picks: PlannedPick[] = [];
+
+  for (let i = 0; i < slots.length; i++) {
+    const option = slots[i].options.find(o => o.team === teams[assignment[i]]);
+    if (!option) {
+      return { picks: [], survivalProbability: 0 };
+    }
+    cumulativeSurvival *= option.winProbability;
+    picks.push({ ...option, week: slots[i].week, cumulativeSurvival });
+  }
+
+  return { picks, survivalProbability: cumulativeSurvival };
+};
+
+// Once teams become reusable, the weeks from then on are a separate window: only picks made inside it
+// count as used there. fromWeek is the week usedTeams was worked out for (see getUsedTeams).
+const planPath = (
+  weeks: SurvivorWeek[],
+  usedTeams: string[],
+  slotsFor: (week: number) => number,
+  reuseFrom: number | null,
+  fromWeek: number
+): SurvivorPlan => {
+  const sortedWeeks = [...weeks]
+    .filter(week => week.options.length > 0 && slotsFor(week.week) > 0)
+    .sort((a, b) => a.week - b.week);
+  if (reuseFrom === null) return planWindow(sortedWeeks, usedTeams, slotsFor);
+
+  const before = planWindow(sortedWeeks.filter(week => week.week < reuseFrom), usedTeams, slotsFor);
+  const after = planWindow(sortedWeeks.filter(week => week.week >= reuseFrom), fromWeek >= reuseFrom ? usedTeams : [], slotsFor);
+  if (before.survivalProbability === 0 || after.survivalProbability === 0) {
+    return { picks: [], survivalProbability: 0 };
+  }
+
+  return {
+    picks: [
+      ...before.picks,
+      ...after.picks.map(pick => ({ ...pick, cumulativeSurvival: pick.cumulativeSurvival * before.survivalProbability }))
+    ],
+    survivalProbability: before.survivalProbability * after.survivalProbability
+  };
+};
+
+// Plans the pool's required number of picks every week, each on an unused team, maximizing the
+// product of weekly win probabilities
+export const optimizeSurvivorPath = (
+  weeks: SurvivorWeek[],
+  usedTeams: string[],
+  rules: SurvivorRules = DEFAULT_SURVIVOR_RULES,
+  fromWeek = Math.min(...weeks.map(week => week.week))
+): SurvivorPlan => {
+  return planPath(weeks, usedTeams, week => getPicksRequired(rules, week), rules.teamReuseFromWeek, fromWeek);
+};
+
+const buildReasoning = (
+  option: SurvivorOption,
+  plannedWeek: number | undefined,
+  currentWeek: number,
+  futureValue: number,
+  popularity?: number
+) => {
+  const probability = Math.round(option.winProbability * 100);
+  const reasoning = [option.pickToLose
+    ? `${probability}% chance to lose ${option.opponent}`
+    : `${probability}% win probability ${option.opponent}`];
+
+  reasoning.push(...describeContributions(option.breakdown ?? [], undefined, option.pickToLose));
+  reasoning.push(...(option.scheduleFactors ?? []));
+  if (plannedWeek === currentWeek) {
+    reasoning.push('Optimal season path uses this team now');
+  } else if (plannedWeek !== undefined) {
+    reasoning.push(`Optimal season path saves this team for Week ${plannedWeek}`);
+  }
+  if (futureValue >= 25) {
+    reasoning.push(`Using now costs ${futureValue}% of future survival odds`);
+  } else if (futureValue === 0) {
+    reasoning.push('Not needed for any future week in the plan');
+  }
+  if (popularity !== undefined) {
+    reasoning.push(popularity >= 20
+      ? `Popular pick: ${popularity}% of the pool is on this team`
+      : `Contrarian: only ${popularity}% of the pool is on this team`);
+  }
+
+  return reasoning;
+};
+
+// Ranks this week's candidates by the best season path that starts with each of them.
+// With popularity data the path is weighted by the pot share it would win, so fading popular teams can rank higher.
+export const rankWeekRecommendations = (
+  weeks: SurvivorWeek[],
+  usedTeams: string[],
+  currentWeek: number,
+  popularity?: PickPopularity | null,
+  rules: SurvivorRules = DEFAULT_SURVIVOR_RULES
+): TeamRecommendation[] => {
+  const thisWeek = weeks.find(week => week.week === currentWeek);
+  if (!thisWeek) return [];
+
+  // The rest of the path after a candidate: this week's other pick slots, then every later week
+  const remainingWeeks = weeks.filter(week => week.week >= currentWeek);
+  const slotsAfterPick = (week: number) => getPicksRequired(rules, week) - (week === currentWeek ? 1 : 0);
+  const planRest = (used: string[]) => {
+    return planPath(remainingWeeks, used, slotsAfterPick, rules.teamReuseFromWeek, currentWeek).survivalProbability;
+  };
+  const futureSurvival = planRest(usedTeams);
+  const fullPlan = optimizeSurvivorPath(remainingWeeks, usedTeams, rules, currentWeek);
+
+  return thisWeek.options
+    .filter(option => !usedTeams.includes(option.team))
+    .map(option => {
+      const futureWithout = planRest([...usedTeams, option.team]);
+      const futureValue = futureSurvival > 0
+        ? Math.round(100 * (1 - futureWithout / futureSurvival))
+        : 0;
+      const plannedWeek = fullPlan.picks.find(pick => pick.team === option.team)?.week;
+      const winProbability = Math.round(option.winProbability * 100);
+      const expectedValue = hasPopularity(popularity) ? getExpectedValue(option, thisWeek, popularity) : undefined;
+      const pickShare = hasPopularity(popularity)
+        ? Math.round((popularity.shares[option.team] ?? 0) * 100)
+        : undefined;
+
+      return {
+        recommendation: {
+          team: option.team,
+          teamName: option.teamName,
+          opponent: option.opponent,
+          winProbability,
+          pickToLose: option.pickToLose,
+          confidence: option.confidence,
+          reasoning: buildReasoning(option, plannedWeek, currentWeek, futureValue, pickShare),
+          futureValue,
+          kickoff: option.kickoff,
+          breakdown: option.breakdown,
+          popularity: pickShare,
+          expectedValue
+        },
+        pathSurvival: option.winProbability * futureWithout,
+        // Equity multiple per unit of win probability, so the path's survival odds aren't counted twice
+        equityWeight: expectedValue !== undefined && option.winProbability > 0
+          ? expectedValue / option.winProbability
+          : 1
+      };
+    })
+    .sort((a, b) => b.pathSurvival * b.equityWeight - a.pathSurvival * a.equityWeight)
+    .map(({ recommendation }) => recommendation);
+};
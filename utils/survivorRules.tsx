@@ -0,0 +1,123 @@
+import { Pool, PoolPick, PoolRules, PoolType, SurvivorEntry } from '../constants/mockData';
+import { projectId } from './supabase/info';
+
+const BUYBACK_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/suicide-pool-buyback`;
+const POOLS_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/pools`;
+
+export type SurvivorRules = Required<Pick<PoolRules, 'poolType' | 'tieRule' | 'startWeek' | 'picksPerWeek' | 'lives' | 'buyback' | 'teamReuseFromWeek'>>;
+
+// Match the server's defaults for personal picks and pools created before rule variants
+export const DEFAULT_SURVIVOR_RULES: SurvivorRules = {
+  poolType: 'survivor',
+  tieRule: 'loss',
+  startWeek: 1,
+  picksPerWeek: [{ fromWeek: 1, picks: 1 }],
+  lives: 1,
+  buyback: null,
+  teamReuseFromWeek: null
+};
+
+export const getSurvivorRules = (pool?: Pool | null): SurvivorRules => ({
+  poolType: pool?.rules.poolType ?? DEFAULT_SURVIVOR_RULES.poolType,
+  tieRule: pool?.rules.tieRule ?? DEFAULT_SURVIVOR_RULES.tieRule,
+  startWeek: pool?.rules.startWeek ?? DEFAULT_SURVIVOR_RULES.startWeek,
+  picksPerWeek: pool?.rules.picksPerWeek ?? DEFAULT_SURVIVOR_RULES.picksPerWeek,
+  lives: pool?.rules.lives ?? DEFAULT_SURVIVOR_RULES.lives,
+  buyback: pool?.rules.buyback ?? DEFAULT_SURVIVOR_RULES.buyback,
+  teamReuseFromWeek: pool?.rules.teamReuseFromWeek ?? DEFAULT_SURVIVOR_RULES.teamReuseFromWeek
+});
+
+export const getPicksRequired = (rules: SurvivorRules, week: number) => {
+  return rules.picksPerWeek
+    .filter(requirement => requirement.fromWeek <= week)
+    .reduce((latest, requirement) => requirement.fromWeek >= latest.fromWeek ? requirement : latest, DEFAULT_SURVIVOR_RULES.picksPerWeek[0])
+    .picks;
+};
+
+// Teams already used going into a week. Once reuse opens, only picks from that week on count.
+export const getUsedTeams = (picks: PoolPick[], week: number, rules: SurvivorRules) => {
+  const reuseFrom = rules.teamReuseFromWeek;
+  return picks
+    .filter(pick => pick.week !== week && !pick.missed)
+    .filter(pick => reuseFrom === null || week < reuseFrom || pick.week >= reuseFrom)
+    .map(pick => pick.team);
+};
+
+export const getEntryLives = (rules: SurvivorRules, entry?: SurvivorEntry | null) => {
+  return rules.lives + (entry?.buybacks?.length ?? 0);
+};
+
+// Why an entry can't buy back in right now, or null when it can
+export const getBuybackError = (rules: SurvivorRules, entry: SurvivorEntry) => {
+  if (!rules.buyback) return 'This pool does not allow buybacks';
+  if (!entry.status.isEliminated || entry.status.eliminatedWeek === null) return `${entry.name} is still alive`;
+  if (entry.status.eliminatedWeek > rules.buyback.untilWeek) return `Buybacks closed after week ${rules.buyback.untilWeek}`;
+  if ((entry.buybacks?.length ?? 0) >= rules.buyback.maxBuybacks) return `${entry.name} has used every buyback`;
+  return null;
+};
+
+// Short labels for the rules that differ from a classic one-pick, one-life pool
+export const describeSurvivorRules = (rules: SurvivorRules) => {
+  const labels = [rules.tieRule === 'win' ? 'Ties count as wins' : 'Ties count as losses'];
+  if (rules.poolType === 'loser') labels.unshift('Loser pool: pick teams to lose');
+  if (rules.lives > 1) labels.push(`${rules.lives} lives`);
+  for (const requirement of rules.picksPerWeek.filter(r => r.picks > 1)) {
+    labels.push(`${requirement.picks} picks a week from Week ${requirement.fromWeek}`);
+  }
+  if (rules.buyback) {
+    const cost = rules.buyback.cost > 0 ? ` ($${rules.buyback.cost})` : '';
+    labels.push(`Buyback through Week ${rules.buyback.untilWeek}${cost}`);
+  }
+  if (rules.teamReuseFromWeek !== null) labels.push(`Teams reusable from Week ${rules.teamReuseFromWeek}`);
+  return labels;
+};
+
+// Results are from the entry's side, so a loser pool's win is a pick that lost on the field
+export const getResultLabel = (result: PoolPick['result'], poolType: PoolType) => {
+  if (!result || result === 'pending') return 'PENDING';
+  if (poolType === 'loser') return result === 'win' ? 'CORRECT' : 'WRONG';
+  return result.toUpperCase();
+};
+
+// Returns the entry with its new buyback, picks and status
+export const buyBackEntry = async (
+  supabase: any,
+  poolId: string,
+  entryId: string,
+  year: number,
+  seasonType: number
+): Promise<SurvivorEntry> => {
+  const response = await fetch(BUYBACK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify({ poolId, entryId, year, seasonType })
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text() || 'Failed to buy back entry');
+  }
+  return await response.json();
+};
+
+export const saveSurvivorRules = async (
+  supabase: any,
+  poolId: string,
+  rules: Partial<SurvivorRules>
+): Promise<Pool> => {
+  const response = await fetch(`${POOLS_URL}/${poolId}/rules`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify(rules)
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text() || 'Failed to save pool rules');
+  }
+  return await response.json();
+};
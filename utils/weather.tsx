@@ -0,0 +1,186 @@
+import { GameForecast, GamePrediction } from '../constants/mockData';
+import { getGameStadium, getHomeStadium, Stadium } from '../constants/stadiums';
+import { projectId } from './supabase/info';
+import { resolveTeam } from './scheduleIngestion';
+
+// Forecast file format: a JSON array of games, or { "week": 1, "games": [...] } where week must match:
+//
+//   [{ "awayTeam": "MIA", "homeTeam": "BUF", "temperature": 24, "windSpeed": 18, "precipitation": "snow" }]
+//
+// Temperature is °F at kickoff, wind speed mph, precipitation none, rain or snow.
+
+const FORECASTS_URL = `https://${projectId}.supabase.co/functions/v1/make-server-c6567478/forecasts`;
+
+type TeamStyle = 'pass' | 'balanced' | 'run';
+type HomeClimate = Stadium['climate'] | 'indoor';
+
+// Broad offensive identity; anyone not listed is treated as balanced
+const TEAM_STYLES: Record<string, TeamStyle> = {
+  BAL: 'run', PHI: 'run', PIT: 'run', GB: 'run', SF: 'run', LAC: 'run', ATL: 'run', NE: 'run',
+  KC: 'pass', CIN: 'pass', MIA: 'pass', LAR: 'pass', DAL: 'pass', HOU: 'pass', TB: 'pass',
+  MIN: 'pass', JAX: 'pass', NYJ: 'pass', SEA: 'pass'
+};
+
+// Wind and precipitation hurt passing offenses most
+const STYLE_EXPOSURE: Record<TeamStyle, number> = { pass: 1.5, balanced: 1, run: 0.5 };
+
+// Teams used to the conditions shrug off most of the temperature penalty
+const COLD_EXPOSURE: Record<HomeClimate, number> = { cold: 0.25, mild: 1, warm: 1.5, indoor: 1.5 };
+const HEAT_EXPOSURE: Record<HomeClimate, number> = { cold: 1.5, mild: 1, warm: 0.25, indoor: 1.5 };
+
+// Penalties are points on the 0-100 weather metric, where 50 is neutral
+const CALM_WIND = 10; // mph
+const WIND_PENALTY = 1; // per mph above calm
+const PRECIPITATION_PENALTY = { none: 0, rain: 4, snow: 8 };
+const FREEZING = 32; // °F
+const HOT = 85; // °F
+const TEMPERATURE_PENALTY = 0.3; // per degree beyond either limit
+const MAX_PENALTY = 50;
+
+export interface WeatherAdjustment {
+  away: number;
+  home: number;
+  // Domes, and retractable roofs that close for bad weather, shut the forecast out
+  indoor: boolean;
+  stadium?: Stadium;
+}
+
+export const getHomeClimate = (team: string): HomeClimate => {
+  const stadium = getHomeStadium(team);
+  if (!stadium) return 'mild';
+  return stadium.roof === 'open' ? stadium.climate : 'indoor';
+};
+
+const getTeamPenalty = (team: string, forecast: GameForecast) => {
+  const style = STYLE_EXPOSURE[TEAM_STYLES[team] ?? 'balanced'];
+  const climate = getHomeClimate(team);
+
+  const wind = Math.max(0, forecast.windSpeed - CALM_WIND) * WIND_PENALTY * style;
+  const precipitation = PRECIPITATION_PENALTY[forecast.precipitation] * style;
+  const cold = Math.max(0, FREEZING - forecast.temperature) * TEMPERATURE_PENALTY * COLD_EXPOSURE[climate];
+  const heat = Math.max(0, forecast.temperature - HOT) * TEMPERATURE_PENALTY * HEAT_EXPOSURE[climate];
+
+  return Math.min(MAX_PENALTY, wind + precipitation + cold + heat);
+};
+
+// Points each team's weather metric moves from neutral; zero for both teams indoors or without a forecast
+export const getWeatherAdjustment = (game: GamePrediction): WeatherAdjustment => {
+  const stadium = getGameStadium(game);
+  const indoor = !!stadium && stadium.roof !== 'open';
+  if (indoor || !game.forecast) {
+    return { away: 0, home: 0, indoor, stadium };
+  }
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    away: -round(getTeamPenalty(game.awayTeam.abbreviation, game.forecast)),
+    home: -round(getTeamPenalty(game.homeTeam.abbreviation, game.forecast)),
+    indoor,
+    stadium
+  };
+};
+
+const isForecast = (raw: any) => {
+  return typeof raw?.temperature === 'number' &&
+    typeof raw?.windSpeed === 'number' && raw.windSpeed >= 0 &&
+    ['none', 'rain', 'snow'].includes(raw?.precipitation);
+};
+
+// Matches each forecast to this week's game between the same two teams, keyed by game id
+export const parseForecasts = (text: string, games: GamePrediction[], week: number) => {
+  const parsed = JSON.parse(text);
+  const rows = Array.isArray(parsed) ? parsed : parsed?.games;
+  if (!Array.isArray(rows)) {
+    throw new Error('Forecast file must be an array of games or { "games": [...] }');
+  }
+  if (!Array.isArray(parsed) && parsed.week !== undefined && parsed.week !== week) {
+    throw new Error(`Forecast file is for Week ${parsed.week}, not Week ${week}`);
+  }
+
+  const forecasts: Record<string, GameForecast> = {};
+  rows.forEach((raw: any, index: number) => {
+    const awayTeam = resolveTeam(String(raw?.awayTeam ?? '').trim());
+    const homeTeam = resolveTeam(String(raw?.homeTeam ?? '').trim());
+    if (!awayTeam || !homeTeam || !isForecast(raw)) {
+      throw new Error(`Invalid forecast row ${index + 1}: ${JSON.stringify(raw)}`);
+    }
+
+    const game = games.find(g => g.awayTeam.abbreviation === awayTeam && g.homeTeam.abbreviation === homeTeam);
+    if (game) {
+      forecasts[game.id] = {
+        temperature: raw.temperature,
+        windSpeed: raw.windSpeed,
+        precipitation: raw.precipitation
+      };
+    }
+  });
+
+  return forecasts;
+};
+
+export const withForecasts = (games: GamePrediction[], forecasts: Record<string, GameForecast>) => {
+  return games.map(game => {
+    const forecast = forecasts[game.id];
+    if (!forecast) return game;
+
+    const withForecast = { ...game, forecast };
+    const adjustment = getWeatherAdjustment(withForecast);
+    const away = 50 + adjustment.away;
+    const home = 50 + adjustment.home;
+
+    return {
+      ...withForecast,
+      metrics: {
+        ...game.metrics,
+        weather: Math.round((away + home) / 2),
+        awayTeam: { ...game.metrics.awayTeam, weather: Math.round(away) },
+        homeTeam: { ...game.metrics.homeTeam, weather: Math.round(home) }
+      }
+    };
+  });
+};
+
+export const loadWeekForecasts = async (
+  supabase: any,
+  year: number,
+  seasonType: number,
+  week: number
+): Promise<Record<string, GameForecast>> => {
+  try {
+    const response = await fetch(`${FORECASTS_URL}?year=${year}&seasonType=${seasonType}&week=${week}`, {
+      headers: {
+        'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+      }
+    });
+
+    if (response.ok) {
+      const stored = await response.json();
+      if (stored?.forecasts) return stored.forecasts;
+    }
+  } catch (error) {
+    console.error('Error loading forecasts:', error);
+  }
+  return {};
+};
+
+// Merges the forecasts into the user's own for the week; other users keep seeing the shared feed
+export const saveWeekForecasts = async (
+  supabase: any,
+  year: number,
+  seasonType: number,
+  week: number,
+  forecasts: Record<string, GameForecast>
+) => {
+  const response = await fetch(FORECASTS_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await supabase.auth.getSession().then((s: any) => s.data.session?.access_token)}`
+    },
+    body: JSON.stringify({ year, seasonType, week, forecasts })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to save forecasts');
+  }
+};
@@ -0,0 +1,129 @@
+import { getLogLoss, getMeasuredMetrics, HistoricalGame } from './backtest';
+import { METRIC_INPUTS, MetricWeights } from './predictionEngine';
+
+// Same limits as the sliders in MetricConfiguration
+export const WEIGHT_TOTAL = 100;
+export const WEIGHT_MIN = 0;
+export const WEIGHT_MAX = 50;
+
+export interface WeightFit {
+  weights: MetricWeights;
+  logLoss: number;
+  initialLogLoss: number;
+  games: number;
+  // Metrics the games carry no signal for. Their weights aren't fitted: they keep their value, or scale
+  // together to make room for the fitted ones.
+  unfitted: string[];
+}
+
+const MAX_ITERATIONS = 300;
+// Steps are taken in weight points along the normalized gradient, starting large and halving
+const INITIAL_STEP = 25;
+const MIN_STEP = 0.01;
+const GRADIENT_DELTA = 0.01;
+const TOLERANCE = 1e-10;
+
+const clampWeight = (weight: number, max = WEIGHT_MAX) => Math.min(max, Math.max(WEIGHT_MIN, weight));
+
+// Euclidean projection onto { sum = total, WEIGHT_MIN <= w <= max }: shift every weight by the
+// same amount and clamp, bisecting on the shift until the total is right
+const projectWeights = (values: number[], total: number, maxes: number[]) => {
+  let low = Math.min(...values) - Math.max(...maxes);
+  let high = Math.max(...values) - WEIGHT_MIN;
+
+  for (let i = 0; i < 100; i++) {
+    const shift = (low + high) / 2;
+    const projected = values.reduce((sum, value, index) => sum + clampWeight(value - shift, maxes[index]), 0);
+    if (projected > total) low = shift; else high = shift;
+  }
+
+  return values.map((value, index) => clampWeight(value - (low + high) / 2, maxes[index]));
+};
+
+// Whole-number weights that still add up to the total, rounding the largest remainders up
+const roundWeights = (values: number[], total: number) => {
+  const floors = values.map(Math.floor);
+  let remaining = total - floors.reduce((sum, value) => sum + value, 0);
+
+  values
+    .map((value, index) => ({ index, remainder: value - floors[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (remaining > 0 && floors[index] < WEIGHT_MAX) {
+        floors[index]++;
+        remaining--;
+      }
+    });
+
+  return floors;
+};
+
+// Projected gradient descent on log loss, starting from the current profile. Only metrics that differ
+// between teams in the games are fitted. Metrics with no value at all (market probability) keep their
+// weight; metrics that are the same baseline for both teams can only dilute the fitted ones, so they
+// move as one block that keeps their current proportions.
+export const fitWeights = (games: HistoricalGame[], initial: MetricWeights): WeightFit => {
+  const allIds = Object.keys(METRIC_INPUTS);
+  const hasHistory = (id: string) => games.some(({ game }) => game.metrics.homeTeam[METRIC_INPUTS[id]] !== undefined);
+  const measured = getMeasuredMetrics(games);
+  const ids = allIds.filter(id => measured.includes(id));
+  const diluting = allIds.filter(id => hasHistory(id) && !measured.includes(id));
+  const fixed = Object.fromEntries(allIds.filter(id => !hasHistory(id)).map(id => [id, initial[id] ?? 0]));
+  const total = WEIGHT_TOTAL - Object.values(fixed).reduce((sum, weight) => sum + weight, 0);
+
+  // The diluting block is one extra variable after the fitted weights, capped so no metric in it
+  // passes WEIGHT_MAX. A block the profile gives no weight stays at zero.
+  const blockInitial = diluting.reduce((sum, id) => sum + (initial[id] ?? 0), 0);
+  const shares = diluting.map(id => blockInitial > 0 ? (initial[id] ?? 0) / blockInitial : 0);
+  const blockMax = blockInitial > 0 ? WEIGHT_MAX / Math.max(...shares) : 0;
+  const maxes = [...ids.map(() => WEIGHT_MAX), blockMax];
+
+  const expand = (values: number[]) => [
+    ...values.slice(0, ids.length),
+    ...shares.map(share => share * values[ids.length])
+  ];
+  const toWeights = (expanded: number[]) => Object.fromEntries(allIds.map(id => {
+    if (ids.includes(id)) return [id, expanded[ids.indexOf(id)]];
+    if (diluting.includes(id)) return [id, expanded[ids.length + diluting.indexOf(id)]];
+    return [id, fixed[id]];
+  })) as MetricWeights;
+  const loss = (values: number[]) => getLogLoss(games, toWeights(expand(values)));
+
+  let values = projectWeights([...ids.map(id => initial[id] ?? 0), blockInitial], total, maxes);
+  let current = loss(values);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const gradient = values.map((_, i) => {
+      const nudged = [...values];
+      nudged[i] += GRADIENT_DELTA;
+      return (loss(nudged) - current) / GRADIENT_DELTA;
+    });
+
+    const norm = Math.sqrt(gradient.reduce((sum, g) => sum + g * g, 0));
+    if (norm === 0) break;
+
+    // Halve the step until the projected move actually lowers the loss
+    let step = INITIAL_STEP;
+    let next = values;
+    let nextLoss = current;
+    while (step >= MIN_STEP) {
+      next = projectWeights(values.map((value, i) => value - step * gradient[i] / norm), total, maxes);
+      nextLoss = loss(next);
+      if (nextLoss < current) break;
+      step /= 2;
+    }
+
+    if (nextLoss >= current || current - nextLoss < TOLERANCE) break;
+    values = next;
+    current = nextLoss;
+  }
+
+  const weights = toWeights(roundWeights(expand(values), total));
+  return {
+    weights,
+    logLoss: getLogLoss(games, weights),
+    initialLogLoss: getLogLoss(games, initial),
+    games: games.length,
+    unfitted: allIds.filter(id => !ids.includes(id))
+  };
+};